@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabase } from '@/lib/supabase/client'
 import ExcelJS from 'exceljs'
+import { formatInningsScore } from '@/lib/utils'
+import type { Innings } from '@/types/models'
 
 // GET /api/export?format=xlsx|csv&seasonId=xxx
 export async function GET(request: NextRequest) {
@@ -20,10 +22,10 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Season not found' }, { status: 404 })
     }
     
-    // Get all matches for the season
+    // Get all matches for the season, with both innings
     const { data: matches } = await supabase
       .from('matches')
-      .select('*')
+      .select('*, innings(*)')
       .eq('season_id', season.id)
       .order('date')
     
@@ -147,17 +149,22 @@ export async function GET(request: NextRequest) {
     // ============ SHEET 5: Match Results ============
     const resultsSheet = workbook.addWorksheet('Match Results')
     
-    const resultsHeader = ['Date', 'Opponent', 'Result', 'Our Score', 'Their Score', 'Competition', 'Type']
+    const resultsHeader = ['Date', 'Opponent', 'Result', 'Margin', 'Our Score', 'Their Score', 'Our Extras', 'Extras Conceded', 'Competition', 'Type']
     resultsSheet.addRow(resultsHeader)
     styleHeaderRow(resultsSheet.getRow(1), 'FFFFA500') // Orange
     
     matches?.forEach(match => {
+      const ourInnings = match.innings.find((inn: Innings) => inn.is_our_innings && !inn.is_super_over)
+      const opponentInnings = match.innings.find((inn: Innings) => !inn.is_our_innings && !inn.is_super_over)
       const row = resultsSheet.addRow([
         new Date(match.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' }),
         match.opponent,
         match.result.toUpperCase(),
-        match.our_score || '-',
-        match.opponent_score || '-',
+        match.result_summary || '-',
+        formatInningsScore(ourInnings, true),
+        formatInningsScore(opponentInnings, true),
+        ourInnings?.extras_total ?? '-',
+        opponentInnings?.extras_total ?? '-',
         match.competition_name || 'League',
         match.match_type,
       ])
@@ -171,7 +178,7 @@ export async function GET(request: NextRequest) {
       }
     })
     
-    resultsSheet.columns.forEach((column, i) => { column.width = i === 1 ? 25 : 15 })
+    resultsSheet.columns.forEach((column, i) => { column.width = i === 1 ? 25 : i === 3 ? 40 : 15 })
     
     // Generate file
     const buffer = await workbook.xlsx.writeBuffer()
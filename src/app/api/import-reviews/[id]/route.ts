@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabase } from '@/lib/supabase/client'
+import { ParseError } from '@/lib/parsers/cricclubs-parser'
+import { importCompetitionResult, importMatch } from '@/lib/services/import-service'
+
+/**
+ * Resolve a held import
+ * action 'import' re-runs it with `ourTeamName` as our side (and registers the name when
+ * `remember` is set); action 'standings' records a match we did not play in for its
+ * competition's points table; action 'dismiss' drops it
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json()
+    const { action, ourTeamName, remember } = body
+
+    const { data: review, error: reviewError } = await supabase
+      .from('import_reviews')
+      .select('*')
+      .eq('id', params.id)
+      .eq('status', 'pending')
+      .single()
+
+    if (reviewError || !review) {
+      return NextResponse.json(
+        { success: false, error: 'Pending review not found' },
+        { status: 404 }
+      )
+    }
+
+    if (action === 'dismiss') {
+      await supabase
+        .from('import_reviews')
+        .update({ status: 'dismissed', resolved_at: new Date().toISOString() })
+        .eq('id', review.id)
+
+      return NextResponse.json({ success: true })
+    }
+
+    if (action === 'standings') {
+      const result = await importCompetitionResult(review.pages, review.metadata || undefined)
+
+      await supabase
+        .from('import_reviews')
+        .update({ status: 'imported', resolved_at: new Date().toISOString() })
+        .eq('id', review.id)
+
+      return NextResponse.json({
+        success: true,
+        competitionId: result.competitionId,
+        message: result.message,
+      })
+    }
+
+    if (action !== 'import' || !ourTeamName?.trim()) {
+      return NextResponse.json(
+        { success: false, error: 'Choose which team is ours' },
+        { status: 400 }
+      )
+    }
+
+    if (remember) {
+      const { error: teamError } = await supabase
+        .from('team_identities')
+        .insert({ name: ourTeamName.trim() })
+
+      // Already registered is fine
+      if (teamError && teamError.code !== '23505') {
+        console.error('Error registering team name:', teamError)
+      }
+    }
+
+    const result = await importMatch(review.pages, { ...review.metadata, ourTeamName: ourTeamName.trim() })
+
+    if (result.status === 'needs_review') {
+      return NextResponse.json(
+        { success: false, error: result.reason },
+        { status: 400 }
+      )
+    }
+
+    await supabase
+      .from('import_reviews')
+      .update({
+        status: 'imported',
+        match_id: result.matchId,
+        resolved_at: new Date().toISOString(),
+      })
+      .eq('id', review.id)
+
+    return NextResponse.json({
+      success: true,
+      matchId: result.matchId,
+      message: result.status === 'imported' ? result.message : 'This scorecard had already been imported',
+    })
+  } catch (error) {
+    console.error('Error resolving import review:', error)
+
+    if (error instanceof ParseError) {
+      return NextResponse.json(
+        { success: false, error: error.message, errorCode: error.code, details: error.details },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to resolve import review' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server'
+import { supabase } from '@/lib/supabase/client'
+
+// GET /api/import-reviews - Imports waiting for us to pick our side
+export async function GET() {
+  try {
+    // The stored pages are only needed to re-run the import
+    const { data: reviews, error } = await supabase
+      .from('import_reviews')
+      .select('id, status, reason, teams, filenames, metadata, created_at')
+      .eq('status', 'pending')
+      .order('created_at', { ascending: false })
+    
+    if (error) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 500 }
+      )
+    }
+    
+    return NextResponse.json({
+      success: true,
+      reviews: reviews || [],
+    })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch import reviews' },
+      { status: 500 }
+    )
+  }
+}
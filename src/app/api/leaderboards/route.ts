@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCompetitionLeaderboards } from '@/lib/services/stats-service'
+
+/**
+ * Batting, bowling and fielding leaderboards for one competition
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const competitionId = request.nextUrl.searchParams.get('competitionId')
+
+    if (!competitionId) {
+      return NextResponse.json(
+        { success: false, error: 'competitionId is required' },
+        { status: 400 }
+      )
+    }
+
+    const leaderboards = await getCompetitionLeaderboards(competitionId)
+
+    return NextResponse.json({
+      success: true,
+      ...leaderboards,
+    })
+  } catch (error) {
+    console.error('Competition leaderboards error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch leaderboards' },
+      { status: 500 }
+    )
+  }
+}
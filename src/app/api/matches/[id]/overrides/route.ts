@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  deleteMatchPlayerOverride,
+  getMatchPlayerOverrides,
+  saveMatchPlayerOverride,
+} from '@/lib/services/player-service'
+
+// GET /api/matches/[id]/overrides - Players who played under another name in this match
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const overrides = await getMatchPlayerOverrides(params.id)
+    
+    return NextResponse.json({
+      success: true,
+      overrides,
+    })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch overrides' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Record that `playerId` played under `displayedName` in this match
+ * The name's performances in the match move to that player and both players' stats are recalculated
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json()
+    const { displayedName, playerId, notes } = body
+    
+    if (!displayedName?.trim() || !playerId) {
+      return NextResponse.json(
+        { success: false, error: 'Scorecard name and player are required' },
+        { status: 400 }
+      )
+    }
+    
+    await saveMatchPlayerOverride(params.id, displayedName, playerId, notes?.trim() || undefined)
+    
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Save override error:', error)
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to save override' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/matches/[id]/overrides?overrideId=... - Remove an override
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const overrideId = request.nextUrl.searchParams.get('overrideId')
+  
+  if (!overrideId) {
+    return NextResponse.json(
+      { success: false, error: 'Override ID is required' },
+      { status: 400 }
+    )
+  }
+  
+  try {
+    await deleteMatchPlayerOverride(params.id, overrideId)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to remove override' },
+      { status: 500 }
+    )
+  }
+}
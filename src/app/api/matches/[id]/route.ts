@@ -45,9 +45,15 @@ export async function DELETE(
       .select('player_id')
       .eq('match_id', matchId)
 
+    const { data: appearances } = await supabase
+      .from('match_appearances')
+      .select('player_id')
+      .eq('match_id', matchId)
+
     const battingPlayerIds = Array.from(new Set(battingPerfs?.map(p => p.player_id) || []))
     const bowlingPlayerIds = Array.from(new Set(bowlingPerfs?.map(p => p.player_id) || []))
     const fieldingPlayerIds = Array.from(new Set(fieldingPerfs?.map(p => p.player_id) || []))
+    const appearancePlayerIds = Array.from(new Set(appearances?.map(p => p.player_id) || []))
 
     // Delete all related records in order (due to foreign key constraints)
     
@@ -105,7 +111,8 @@ export async function DELETE(
     }
 
     // 6. Recalculate season stats for all affected players
-    for (const playerId of battingPlayerIds) {
+    // (the whole XI, since batting and fielding stats count matches played)
+    for (const playerId of Array.from(new Set([...battingPlayerIds, ...appearancePlayerIds]))) {
       await updatePlayerSeasonStats(playerId, seasonId)
     }
 
@@ -113,7 +120,7 @@ export async function DELETE(
       await updateBowlingSeasonStats(playerId, seasonId)
     }
 
-    for (const playerId of fieldingPlayerIds) {
+    for (const playerId of Array.from(new Set([...fieldingPlayerIds, ...appearancePlayerIds]))) {
       await updateFieldingSeasonStats(playerId, seasonId)
     }
 
@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabase } from '@/lib/supabase/client'
+import { generateContentHash, ParseError } from '@/lib/parsers/cricclubs-parser'
+import { parseCricClubsPage } from '@/lib/parsers/cricclubs-pages'
+import { matchInfoColumns, saveDeliveries, saveOverSummaries } from '@/lib/services/scorecard-service'
+
+/**
+ * Attach a supplementary page (Info, Ball by Ball or Over by Over Score) to an imported match
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { matchId, html, filename } = body
+
+    if (!matchId || !html) {
+      return NextResponse.json(
+        { success: false, error: 'Missing required fields' },
+        { status: 400 }
+      )
+    }
+
+    const { data: match, error: matchError } = await supabase
+      .from('matches')
+      .select('id')
+      .eq('id', matchId)
+      .single()
+
+    if (matchError || !match) {
+      return NextResponse.json(
+        { success: false, error: 'Match not found' },
+        { status: 404 }
+      )
+    }
+
+    // Check for duplicate
+    const contentHash = generateContentHash(html)
+    const { data: existingImport } = await supabase
+      .from('import_history')
+      .select('id, match_id')
+      .eq('content_hash', contentHash)
+      .single()
+
+    if (existingImport) {
+      return NextResponse.json({
+        success: false,
+        error: 'This page has already been imported',
+        matchId: existingImport.match_id,
+      })
+    }
+
+    const parsedData = parseCricClubsPage(html)
+
+    let message: string
+    let deliveries = 0
+    let overs = 0
+
+    switch (parsedData.source) {
+      case 'Ball by Ball':
+        deliveries = await saveDeliveries(matchId, parsedData.innings)
+        message = `Imported ${deliveries} deliveries`
+        break
+      case 'Info': {
+        const { error: updateError } = await supabase
+          .from('matches')
+          .update(matchInfoColumns(parsedData))
+          .eq('id', matchId)
+        if (updateError) throw updateError
+        message = 'Imported match info'
+        break
+      }
+      case 'Over by Over Score':
+        overs = await saveOverSummaries(matchId, parsedData.innings)
+        message = `Imported ${overs} overs`
+        break
+      default:
+        return NextResponse.json(
+          { success: false, error: `Cannot attach a "${parsedData.source}" page to a match` },
+          { status: 400 }
+        )
+    }
+
+    await supabase.from('import_history').insert({
+      match_id: matchId,
+      filename: filename || 'unknown.html',
+      content_hash: contentHash,
+    })
+
+    return NextResponse.json({
+      success: true,
+      matchId,
+      message,
+      deliveries,
+      overs,
+    })
+  } catch (error) {
+    console.error('Attach page error:', error)
+
+    if (error instanceof ParseError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message,
+          errorCode: error.code,
+          details: error.details,
+        },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Import failed' },
+      { status: 500 }
+    )
+  }
+}
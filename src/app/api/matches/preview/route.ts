@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ParseError } from '@/lib/parsers/cricclubs-parser'
+import { previewImport, type ImportPage } from '@/lib/services/import-service'
+
+/**
+ * Dry run of an import: which side is ours and, for every one of our names on the
+ * scorecard, the proposed player, how it was matched and how confident the match is
+ * Takes the same body as /api/matches/import and writes nothing
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { html, files, metadata } = body
+    
+    const pages: ImportPage[] = files?.length
+      ? files
+      : html ? [{ html, filename: metadata?.filename }] : []
+    
+    if (pages.length === 0 || pages.some(page => !page.html)) {
+      return NextResponse.json(
+        { success: false, error: 'No HTML content provided' },
+        { status: 400 }
+      )
+    }
+    
+    const preview = await previewImport(pages, metadata)
+    
+    if (preview.status === 'duplicate') {
+      return NextResponse.json({
+        success: false,
+        error: 'This scorecard has already been imported',
+        matchId: preview.matchId,
+      })
+    }
+    
+    if (preview.status === 'needs_review') {
+      return NextResponse.json({
+        success: false,
+        needsReview: true,
+        error: `Enter our team name or add it on the Teams page: ${preview.reason}`,
+      })
+    }
+    
+    return NextResponse.json({
+      success: true,
+      ourTeam: preview.ourTeam,
+      opponent: preview.opponent,
+      players: preview.players,
+      conflicts: preview.conflicts,
+    })
+  } catch (error) {
+    console.error('Import preview error:', error)
+    
+    if (error instanceof ParseError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message,
+          errorCode: error.code,
+          details: error.details,
+        },
+        { status: 400 }
+      )
+    }
+    
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Import preview failed' },
+      { status: 500 }
+    )
+  }
+}
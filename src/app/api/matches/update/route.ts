@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabase } from '@/lib/supabase/client'
+import { relinkMatchCompetition } from '@/lib/services/competition-service'
 
 /**
  * Update match metadata
@@ -19,10 +20,17 @@ export async function POST(request: NextRequest) {
     // Allowed fields to update
     const allowedFields = [
       'competition_name',
+      'stage_id',
       'match_type',
       'venue',
       'result',
       'notes',
+      'toss_winner',
+      'toss_decision',
+      'umpires',
+      'scorers',
+      'start_time',
+      'player_of_match',
       'our_extras_total',
       'our_extras_wides',
       'our_extras_no_balls',
@@ -45,6 +53,43 @@ export async function POST(request: NextRequest) {
       )
     }
     
+    // A stage must be one of the match's own competition
+    if ('stage_id' in safeUpdates) {
+      safeUpdates.stage_id = safeUpdates.stage_id || null
+    }
+    if (safeUpdates.stage_id) {
+      const [{ data: current }, { data: stage }] = await Promise.all([
+        supabase.from('matches').select('competition_id').eq('id', matchId).single(),
+        supabase.from('competition_stages').select('competition_id').eq('id', safeUpdates.stage_id).single(),
+      ])
+
+      if (!current || !stage || !current.competition_id || stage.competition_id !== current.competition_id) {
+        return NextResponse.json(
+          { success: false, error: "Stage does not belong to this match's competition" },
+          { status: 400 }
+        )
+      }
+    }
+    
+    // A hand-corrected result makes the computed winner and margin stale
+    if (safeUpdates.result) {
+      const { data: current } = await supabase
+        .from('matches')
+        .select('result')
+        .eq('id', matchId)
+        .single()
+
+      if (current && current.result !== safeUpdates.result) {
+        Object.assign(safeUpdates, {
+          winner: null,
+          margin_runs: null,
+          margin_wickets: null,
+          margin_balls_left: null,
+          result_summary: null,
+        })
+      }
+    }
+    
     // Update the match
     const { error: updateError } = await supabase
       .from('matches')
@@ -59,6 +104,16 @@ export async function POST(request: NextRequest) {
       )
     }
     
+    // Keep the match in the points table of the competition it is now named under
+    if ('competition_name' in safeUpdates) {
+      await relinkMatchCompetition(matchId, safeUpdates.competition_name || null)
+    } else if ('stage_id' in safeUpdates) {
+      await supabase
+        .from('competition_matches')
+        .update({ stage_id: safeUpdates.stage_id })
+        .eq('match_id', matchId)
+    }
+    
     return NextResponse.json({
       success: true,
       message: 'Match updated successfully',
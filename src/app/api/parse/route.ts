@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { parseCricClubsScorecard, ParseError } from '@/lib/parsers/cricclubs-parser'
+import { ParseError } from '@/lib/parsers/cricclubs-parser'
+import { parseCricClubsPage } from '@/lib/parsers/cricclubs-pages'
+import { validateScorecard } from '@/lib/parsers/scorecard-validator'
 
 export async function POST(request: NextRequest) {
   try {
@@ -18,23 +20,33 @@ export async function POST(request: NextRequest) {
       )
     }
     
-    const parsedData = parseCricClubsScorecard(html)
+    const parsedData = parseCricClubsPage(html)
     
     // Add summary of what was parsed
     const battingCount = parsedData.innings.reduce((sum, inn) => sum + inn.battingEntries.length, 0)
     const bowlingCount = parsedData.innings.reduce((sum, inn) => sum + inn.bowlingEntries.length, 0)
+    const deliveryCount = parsedData.innings.reduce((sum, inn) => sum + (inn.deliveries?.length || 0), 0)
+    const overCount = parsedData.innings.reduce((sum, inn) => sum + (inn.overSummaries?.length || 0), 0)
+    
+    // Check the scorecard adds up, so a bad parse is caught before it is imported
+    const warnings = parsedData.source === 'Full Scorecard' ? validateScorecard(parsedData) : []
     
     return NextResponse.json({
       success: true,
       data: {
+        pageType: parsedData.source,
         date: parsedData.date,
         teams: parsedData.teams,
         competition: parsedData.competition,
+        venue: parsedData.venue,
         result: parsedData.result,
         innings: parsedData.innings.length,
         battingEntries: battingCount,
         bowlingEntries: bowlingCount,
+        deliveries: deliveryCount,
+        overs: overCount,
       },
+      warnings,
       filename,
     })
   } catch (error) {
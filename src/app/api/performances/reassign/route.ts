@@ -5,6 +5,7 @@ import {
   updateBowlingSeasonStats, 
   updateFieldingSeasonStats 
 } from '@/lib/services/stats-service'
+import { reassignMatchAppearance } from '@/lib/services/scorecard-service'
 
 // Special ID for unclaimed performances
 const UNCLAIMED_PLAYER_ID = 'unclaimed'
@@ -112,7 +113,7 @@ export async function POST(request: NextRequest) {
     // Get the current performance to find the old player
     const { data: currentPerf, error: fetchError } = await supabase
       .from(tableName)
-      .select('player_id')
+      .select('player_id, innings_number')
       .eq('id', performanceId)
       .single()
     
@@ -125,17 +126,18 @@ export async function POST(request: NextRequest) {
     
     const oldPlayerId = currentPerf.player_id
     
-    // Check if the new player already has a performance in this match
+    // Check if the new player already has a performance in this innings
     const { data: existingPerf } = await supabase
       .from(tableName)
       .select('id')
       .eq('match_id', matchId)
       .eq('player_id', newPlayerId)
+      .eq('innings_number', currentPerf.innings_number)
       .single()
     
     if (existingPerf) {
       return NextResponse.json(
-        { success: false, error: 'New player already has a performance in this match. Consider merging or editing instead.' },
+        { success: false, error: 'New player already has a performance in this innings. Consider merging or editing instead.' },
         { status: 400 }
       )
     }
@@ -161,18 +163,20 @@ export async function POST(request: NextRequest) {
       .eq('id', matchId)
       .single()
     
+    // The new player is now in the XI for this match
+    await reassignMatchAppearance(matchId, oldPlayerId, newPlayerId, performanceType === 'batting')
+    
     if (match) {
       // Recalculate stats for both players
-      if (performanceType === 'batting') {
-        await updatePlayerSeasonStats(oldPlayerId, match.season_id)
-        await updatePlayerSeasonStats(newPlayerId, match.season_id)
-      } else if (performanceType === 'bowling') {
+      // Batting and fielding stats count matches played, so they follow the appearance
+      if (performanceType === 'bowling') {
         await updateBowlingSeasonStats(oldPlayerId, match.season_id)
         await updateBowlingSeasonStats(newPlayerId, match.season_id)
-      } else {
-        await updateFieldingSeasonStats(oldPlayerId, match.season_id)
-        await updateFieldingSeasonStats(newPlayerId, match.season_id)
       }
+      await updatePlayerSeasonStats(oldPlayerId, match.season_id)
+      await updatePlayerSeasonStats(newPlayerId, match.season_id)
+      await updateFieldingSeasonStats(oldPlayerId, match.season_id)
+      await updateFieldingSeasonStats(newPlayerId, match.season_id)
     }
     
     // Get new player info for response
@@ -5,6 +5,8 @@ import {
   updateBowlingSeasonStats, 
   updateFieldingSeasonStats 
 } from '@/lib/services/stats-service'
+import { parseDismissal } from '@/lib/parsers/dismissal-parser'
+import { findScorecardName } from '@/lib/services/scorecard-service'
 
 /**
  * Update performance stats (runs, balls, wickets, etc.)
@@ -56,6 +58,25 @@ export async function POST(request: NextRequest) {
       )
     }
     
+    // Keep the structured dismissal in step with edited dismissal text
+    if (performanceType === 'batting' && 'dismissal_text' in safeUpdates) {
+      const dismissal = parseDismissal(safeUpdates.not_out ? 'not out' : safeUpdates.dismissal_text)
+      safeUpdates.dismissal_kind = dismissal.kind
+      safeUpdates.dismissal_bowler = dismissal.bowlerName || null
+      safeUpdates.dismissal_fielder = dismissal.fielderName || null
+      safeUpdates.bowled_lbw = dismissal.kind === 'bowled' || dismissal.kind === 'lbw'
+      
+      // Re-link the wicket to the opponent bowler from this match
+      const { data: opponentBowling } = await supabase
+        .from('opponent_bowling_performances')
+        .select('opponent_player:opponent_players(id, name)')
+        .eq('match_id', matchId)
+      const bowlerIds = new Map<string, string>(
+        (opponentBowling || []).map((row: any) => [row.opponent_player?.name, row.opponent_player?.id])
+      )
+      safeUpdates.dismissed_by_id = findScorecardName(dismissal.bowlerName, bowlerIds) || null
+    }
+    
     // Get current performance for player ID
     const { data: currentPerf, error: fetchError } = await supabase
       .from(tableName)
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { confirmNewPlayer, linkPlayerName } from '@/lib/services/player-service'
+
+/**
+ * Resolve a queued scorecard name
+ * action 'link' adds the name as an alias of `playerId` and moves its performances there;
+ * action 'create' keeps it as a new player, renamed to `name` when given
+ * Season stats are recalculated for the player the performances end up with
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json()
+    const { action, playerId, name } = body
+    
+    if (action === 'link') {
+      if (!playerId) {
+        return NextResponse.json(
+          { success: false, error: 'Choose a player to link this name to' },
+          { status: 400 }
+        )
+      }
+      
+      await linkPlayerName(params.id, playerId)
+      return NextResponse.json({ success: true })
+    }
+    
+    if (action === 'create') {
+      await confirmNewPlayer(params.id, name?.trim() || undefined)
+      return NextResponse.json({ success: true })
+    }
+    
+    return NextResponse.json(
+      { success: false, error: 'Unknown action' },
+      { status: 400 }
+    )
+  } catch (error) {
+    console.error('Error resolving player name review:', error)
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to resolve name' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server'
+import { getPendingNameReviews } from '@/lib/services/player-service'
+
+// GET /api/player-reviews - Scorecard names waiting to be linked to a player
+export async function GET() {
+  try {
+    const reviews = await getPendingNameReviews()
+    
+    return NextResponse.json({
+      success: true,
+      reviews,
+    })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch player name reviews' },
+      { status: 500 }
+    )
+  }
+}
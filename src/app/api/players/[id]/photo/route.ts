@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  MAX_PHOTO_BYTES,
+  PHOTO_TYPES,
+  readPlayerPhoto,
+  removePlayerPhoto,
+  savePlayerPhoto,
+} from '@/lib/services/photo-service'
+
+// GET /api/players/[id]/photo - The uploaded photo
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const photo = await readPlayerPhoto(params.id)
+    
+    if (!photo) {
+      return NextResponse.json(
+        { success: false, error: 'Photo not found' },
+        { status: 404 }
+      )
+    }
+    
+    // Each upload gets a new URL, so a photo never changes behind one
+    return new NextResponse(photo.stream, {
+      headers: {
+        'Content-Type': photo.contentType,
+        'Content-Length': String(photo.size),
+        'Cache-Control': 'public, max-age=31536000, immutable',
+      },
+    })
+  } catch (error) {
+    console.error('Photo read error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to load photo' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/players/[id]/photo - Upload a photo (form data field "photo")
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const formData = await request.formData()
+    const photo = formData.get('photo')
+    
+    if (!photo || typeof photo === 'string') {
+      return NextResponse.json(
+        { success: false, error: 'No photo provided' },
+        { status: 400 }
+      )
+    }
+    
+    if (!PHOTO_TYPES[photo.type]) {
+      return NextResponse.json(
+        { success: false, error: 'Upload a JPEG, PNG, WebP or GIF image' },
+        { status: 400 }
+      )
+    }
+    
+    if (photo.size > MAX_PHOTO_BYTES) {
+      return NextResponse.json(
+        { success: false, error: 'Photos must be 5 MB or smaller' },
+        { status: 400 }
+      )
+    }
+    
+    const photoUrl = await savePlayerPhoto(params.id, photo)
+    
+    return NextResponse.json({ success: true, photoUrl })
+  } catch (error) {
+    console.error('Photo upload error:', error)
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to upload photo' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/players/[id]/photo - Remove the photo
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    await removePlayerPhoto(params.id)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to remove photo' },
+      { status: 500 }
+    )
+  }
+}
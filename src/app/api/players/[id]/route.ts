@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { CONTACT_FIELDS, updatePlayerProfile } from '@/lib/services/player-service'
+
+/**
+ * Update a player's profile details: `year`, `major` and `contactInfo` (email, phone, instagram)
+ * The photo has its own route, /api/players/[id]/photo
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json()
+    const { year, major, contactInfo } = body ?? {}
+    
+    const isOptionalText = (value: unknown) => value === undefined || value === null || typeof value === 'string'
+    if (!isOptionalText(year) || !isOptionalText(major)) {
+      return NextResponse.json(
+        { success: false, error: 'Year and major must be text' },
+        { status: 400 }
+      )
+    }
+    
+    if (contactInfo !== undefined && contactInfo !== null && (
+      typeof contactInfo !== 'object' ||
+      Array.isArray(contactInfo) ||
+      Object.entries(contactInfo).some(([key, value]) =>
+        !(CONTACT_FIELDS as string[]).includes(key) || !isOptionalText(value)
+      )
+    )) {
+      return NextResponse.json(
+        { success: false, error: `Contact details may only include ${CONTACT_FIELDS.join(', ')}, as text` },
+        { status: 400 }
+      )
+    }
+    
+    const email = contactInfo?.email?.trim()
+    if (email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      return NextResponse.json(
+        { success: false, error: 'Enter a valid email address' },
+        { status: 400 }
+      )
+    }
+    
+    await updatePlayerProfile(params.id, { year: year ?? undefined, major: major ?? undefined, contactInfo })
+    
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Update player error:', error)
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to update player' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { splitPlayer } from '@/lib/services/player-service'
+
+/**
+ * Split performances and aliases off a player
+ * Takes the ids of the `batting`, `bowling` and `fielding` performances and `aliases` to move,
+ * and either `targetPlayerId` or `newPlayerName` for where they go
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json()
+    const { batting, bowling, fielding, aliases, targetPlayerId, newPlayerName } = body
+    
+    if (!targetPlayerId && !newPlayerName?.trim()) {
+      return NextResponse.json(
+        { success: false, error: 'Choose a player to move to or enter a new player name' },
+        { status: 400 }
+      )
+    }
+    
+    const result = await splitPlayer(
+      params.id,
+      {
+        batting: batting || [],
+        bowling: bowling || [],
+        fielding: fielding || [],
+        aliases: aliases || [],
+      },
+      targetPlayerId ? { playerId: targetPlayerId } : { name: newPlayerName.trim() }
+    )
+    
+    return NextResponse.json({
+      success: true,
+      playerId: result.playerId,
+      message: result.message,
+    })
+  } catch (error) {
+    console.error('Split player error:', error)
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to split player' },
+      { status: 500 }
+    )
+  }
+}
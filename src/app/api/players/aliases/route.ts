@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabase } from '@/lib/supabase/client'
+import { clearPlayerCache } from '@/lib/parsers/player-resolver'
 
 // POST /api/players/aliases - Add alias for a player
 export async function POST(request: NextRequest) {
@@ -43,6 +44,7 @@ export async function POST(request: NextRequest) {
       )
     }
     
+    clearPlayerCache()
     return NextResponse.json({ success: true })
   } catch (error) {
     return NextResponse.json(
@@ -52,3 +54,40 @@ export async function POST(request: NextRequest) {
   }
 }
 
+
+// DELETE /api/players/aliases?playerId=xxx&alias=xxx - Remove an alias from a player
+export async function DELETE(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams
+  const playerId = searchParams.get('playerId')
+  const alias = searchParams.get('alias')
+  
+  if (!playerId || !alias) {
+    return NextResponse.json(
+      { success: false, error: 'Player ID and alias are required' },
+      { status: 400 }
+    )
+  }
+  
+  try {
+    const { error } = await supabase
+      .from('player_aliases')
+      .delete()
+      .eq('player_id', playerId)
+      .eq('alias', alias)
+    
+    if (error) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 500 }
+      )
+    }
+    
+    clearPlayerCache()
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: 'Failed to remove alias' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { mergePlayers, previewPlayerMerge } from '@/lib/services/player-service'
+
+// GET /api/players/merge?sourceId=...&targetId=... - What a merge would move, and its conflicts
+export async function GET(request: NextRequest) {
+  const sourceId = request.nextUrl.searchParams.get('sourceId')
+  const targetId = request.nextUrl.searchParams.get('targetId')
+  
+  if (!sourceId || !targetId) {
+    return NextResponse.json(
+      { success: false, error: 'Choose the player to merge and the player to keep' },
+      { status: 400 }
+    )
+  }
+  
+  try {
+    const preview = await previewPlayerMerge(sourceId, targetId)
+    
+    return NextResponse.json({
+      success: true,
+      ...preview,
+    })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to check merge' },
+      { status: 400 }
+    )
+  }
+}
+
+/**
+ * Merge the source player into the target player
+ * `choices` maps each conflict key to 'source' or 'target' - the row kept for an innings
+ * both players have a performance in. Unresolved conflicts are returned and nothing changes
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { sourceId, targetId, choices } = body
+    
+    if (!sourceId || !targetId) {
+      return NextResponse.json(
+        { success: false, error: 'Choose the player to merge and the player to keep' },
+        { status: 400 }
+      )
+    }
+    
+    const result = await mergePlayers(sourceId, targetId, choices || {})
+    
+    if (result.status === 'conflicts') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Both players have performances in the same innings. Choose which to keep.',
+          conflicts: result.conflicts,
+        },
+        { status: 400 }
+      )
+    }
+    
+    return NextResponse.json({
+      success: true,
+      message: result.message,
+    })
+  } catch (error) {
+    console.error('Merge players error:', error)
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to merge players' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ParseError } from '@/lib/parsers/cricclubs-parser'
+import { parseRosterFile } from '@/lib/parsers/roster-parser'
+import { previewRosterImport } from '@/lib/services/player-service'
+
+/**
+ * Read an uploaded roster (CSV or XLSX, sent as form data under "file") and compare it
+ * with the stored players: new players, new aliases, year and major changes, and names
+ * that already belong to someone else. Writes nothing
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData()
+    const file = formData.get('file')
+    
+    if (!file || typeof file === 'string') {
+      return NextResponse.json(
+        { success: false, error: 'No roster file provided' },
+        { status: 400 }
+      )
+    }
+    
+    const entries = await parseRosterFile(file.name, await file.arrayBuffer())
+    const diff = await previewRosterImport(entries)
+    
+    return NextResponse.json({
+      success: true,
+      entries,
+      diff,
+    })
+  } catch (error) {
+    console.error('Roster preview error:', error)
+    
+    if (error instanceof ParseError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message,
+          errorCode: error.code,
+          details: error.details,
+        },
+        { status: 400 }
+      )
+    }
+    
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Roster preview failed' },
+      { status: 500 }
+    )
+  }
+}
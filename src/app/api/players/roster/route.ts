@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { applyRosterImport } from '@/lib/services/player-service'
+import type { RosterEntry } from '@/types/models'
+
+/**
+ * Apply a roster confirmed on the roster import page
+ * Takes the entries returned by /api/players/roster/preview; collisions are skipped
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const entries: unknown = body?.entries
+    
+    if (!Array.isArray(entries) || entries.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'No roster entries provided' },
+        { status: 400 }
+      )
+    }
+    
+    const invalid = entries.findIndex(entry => !isRosterEntry(entry))
+    if (invalid !== -1) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid roster entry',
+          details: `Entry ${invalid + 1} needs a row number, a name, a list of aliases and text for year and major`,
+        },
+        { status: 400 }
+      )
+    }
+    
+    const diff = await applyRosterImport(entries as RosterEntry[])
+    
+    return NextResponse.json({
+      success: true,
+      created: diff.newPlayers.length,
+      aliasesAdded: diff.newAliases.length,
+      updated: diff.updatedPlayers.length,
+      skipped: diff.collisions.length,
+    })
+  } catch (error) {
+    console.error('Roster import error:', error)
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Roster import failed' },
+      { status: 500 }
+    )
+  }
+}
+
+function isRosterEntry(value: unknown): value is RosterEntry {
+  if (!value || typeof value !== 'object') return false
+  const entry = value as Record<string, unknown>
+  const optionalText = (field: unknown) => field === undefined || typeof field === 'string'
+  return (
+    typeof entry.row === 'number' &&
+    typeof entry.name === 'string' && entry.name.trim() !== '' &&
+    Array.isArray(entry.aliases) && entry.aliases.every(alias => typeof alias === 'string' && alias.trim() !== '') &&
+    optionalText(entry.year) &&
+    optionalText(entry.major)
+  )
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabase } from '@/lib/supabase/client'
+
+// DELETE /api/teams/[id] - Remove a registered team name
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { error } = await supabase
+      .from('team_identities')
+      .delete()
+      .eq('id', params.id)
+    
+    if (error) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 500 }
+      )
+    }
+    
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: 'Failed to remove team name' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabase } from '@/lib/supabase/client'
+
+// GET /api/teams - List the names our club plays under
+export async function GET() {
+  try {
+    const { data: teams, error } = await supabase
+      .from('team_identities')
+      .select(`
+        *,
+        season:seasons(name)
+      `)
+      .order('name')
+    
+    if (error) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 500 }
+      )
+    }
+    
+    return NextResponse.json({
+      success: true,
+      teams: teams || [],
+    })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch team names' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/teams - Register a team name, optionally for one season or competition
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { name, seasonId, competitionName } = body
+    
+    if (!name?.trim()) {
+      return NextResponse.json(
+        { success: false, error: 'Team name is required' },
+        { status: 400 }
+      )
+    }
+    
+    const { data: team, error } = await supabase
+      .from('team_identities')
+      .insert({
+        name: name.trim(),
+        season_id: seasonId || null,
+        competition_name: competitionName?.trim() || null,
+      })
+      .select()
+      .single()
+    
+    if (error?.code === '23505') {
+      return NextResponse.json(
+        { success: false, error: 'This team name is already registered for that season and competition' },
+        { status: 400 }
+      )
+    }
+    
+    if (error) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 500 }
+      )
+    }
+    
+    return NextResponse.json({
+      success: true,
+      team,
+    })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: 'Failed to add team name' },
+      { status: 500 }
+    )
+  }
+}
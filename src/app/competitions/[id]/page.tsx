@@ -0,0 +1,200 @@
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import { getCompetitionStandings } from '@/lib/services/competition-service'
+import { getTeamIdentities, normalizeTeamName } from '@/lib/services/team-service'
+import { ballsToOvers, cn, formatDate, formatInningsScore } from '@/lib/utils'
+import type { CalculatedStanding } from '@/types/models'
+
+export const dynamic = 'force-dynamic'
+
+export default async function CompetitionPage({ params }: { params: { id: string } }) {
+  const data = await getCompetitionStandings(params.id)
+  if (!data) notFound()
+
+  const { competition, tables, bracket, results } = data
+  const ourNames = new Set(
+    (await getTeamIdentities(competition.season_id, competition.name)).map(identity => normalizeTeamName(identity.name))
+  )
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <Link href="/competitions" className="text-sm text-muted-foreground hover:text-ucla-gold transition-colors">
+        ← All competitions
+      </Link>
+      <h1 className="text-3xl font-bold text-white mt-2 mb-2">
+        {competition.name}{' '}
+        <span className="text-ucla-gold">{competition.format === 'tournament' ? 'Tournament' : 'Points Table'}</span>
+      </h1>
+      <p className="text-muted-foreground mb-8">
+        {competition.season?.name || 'All seasons'} • {competition.points_win} points for a win,{' '}
+        {competition.points_tie} for a tie or {competition.points_no_result} for a no result
+      </p>
+
+      <div className="grid gap-8 mb-8">
+        {tables.map((table) => (
+          <StandingsTable
+            key={table.name}
+            name={table.name}
+            standings={table.standings}
+            ourNames={ourNames}
+            emptyText={`No results recorded for ${competition.name}.`}
+          />
+        ))}
+      </div>
+
+      {bracket.length > 0 && (
+        <div className="bg-card rounded-lg border border-border overflow-hidden mb-8">
+          <div className="bg-ucla-blue px-4 py-3">
+            <h2 className="text-lg font-bold text-white">Knockout Bracket</h2>
+          </div>
+          <div className="p-4 overflow-x-auto">
+            <div className="flex gap-6 min-w-max">
+              {bracket.map((round) => (
+                <div key={round.type} className="w-64 flex flex-col justify-around gap-4">
+                  <h3 className="text-sm font-semibold text-ucla-gold text-center">{round.name}</h3>
+                  {round.matches.map((match) => (
+                    <div key={match.id} className="bg-muted/50 rounded-lg border border-border divide-y divide-border">
+                      {[
+                        { team: match.team1, runs: match.team1_runs, wickets: match.team1_wickets },
+                        { team: match.team2, runs: match.team2_runs, wickets: match.team2_wickets },
+                      ].map((side) => (
+                        <div
+                          key={side.team}
+                          className={cn(
+                            'px-3 py-2 flex items-center justify-between text-sm',
+                            match.winner && normalizeTeamName(match.winner) === normalizeTeamName(side.team)
+                              ? 'text-white font-bold'
+                              : 'text-muted-foreground'
+                          )}
+                        >
+                          <span className="truncate">{side.team}</span>
+                          <span className="font-mono ml-2">{formatInningsScore({ total: side.runs, wickets: side.wickets })}</span>
+                        </div>
+                      ))}
+                      {match.match_id && (
+                        <Link
+                          href={`/matches/${match.match_id}`}
+                          className="block px-3 py-1 text-xs text-ucla-blue hover:text-ucla-gold"
+                        >
+                          Scorecard →
+                        </Link>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {results.length > 0 && (
+        <div className="bg-card rounded-lg border border-border overflow-hidden">
+          <div className="bg-ucla-blue px-4 py-3">
+            <h2 className="text-lg font-bold text-white">Results</h2>
+          </div>
+          <div className="divide-y divide-border">
+            {results.map((result) => (
+              <div key={result.id} className="p-4 flex items-center justify-between gap-4">
+                <div>
+                  <p className="font-medium text-white">
+                    {result.team1} {formatInningsScore({ total: result.team1_runs, wickets: result.team1_wickets, balls: result.team1_balls }, true)}
+                    <span className="text-muted-foreground mx-2">vs</span>
+                    {result.team2} {formatInningsScore({ total: result.team2_runs, wickets: result.team2_wickets, balls: result.team2_balls }, true)}
+                  </p>
+                  <p className="text-sm text-muted-foreground mt-1">
+                    {formatDate(result.date)}
+                    {result.stageName && ` • ${result.stageName}`} • {result.result_summary || 'No result'}
+                  </p>
+                </div>
+                {result.match_id && (
+                  <Link
+                    href={`/matches/${result.match_id}`}
+                    className="text-sm text-ucla-blue hover:text-ucla-gold whitespace-nowrap"
+                  >
+                    Scorecard →
+                  </Link>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+function StandingsTable({
+  name,
+  standings,
+  ourNames,
+  emptyText,
+}: {
+  name: string
+  standings: CalculatedStanding[]
+  ourNames: Set<string>
+  emptyText: string
+}) {
+  return (
+    <div className="bg-card rounded-lg border border-border overflow-hidden">
+      <div className="bg-ucla-blue px-4 py-3">
+        <h2 className="text-lg font-bold text-white">{name}</h2>
+      </div>
+
+      {standings.length === 0 ? (
+        <div className="p-8 text-center text-muted-foreground">
+          {emptyText}
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="bg-muted text-muted-foreground text-sm">
+                <th className="px-4 py-3 text-left font-medium">#</th>
+                <th className="px-4 py-3 text-left font-medium">Team</th>
+                <th className="px-4 py-3 text-center font-medium">P</th>
+                <th className="px-4 py-3 text-center font-medium">W</th>
+                <th className="px-4 py-3 text-center font-medium">L</th>
+                <th className="px-4 py-3 text-center font-medium">T</th>
+                <th className="px-4 py-3 text-center font-medium">NR</th>
+                <th className="px-4 py-3 text-center font-medium">Pts</th>
+                <th className="px-4 py-3 text-center font-medium">NRR</th>
+                <th className="px-4 py-3 text-center font-medium">For</th>
+                <th className="px-4 py-3 text-center font-medium">Against</th>
+              </tr>
+            </thead>
+            <tbody>
+              {standings.map((standing, index) => (
+                <tr
+                  key={standing.team}
+                  className={cn(
+                    'border-b border-border hover:bg-muted/50 transition-colors',
+                    ourNames.has(normalizeTeamName(standing.team)) && 'bg-ucla-blue/20'
+                  )}
+                >
+                  <td className="px-4 py-3 text-muted-foreground">{index + 1}</td>
+                  <td className="px-4 py-3 font-medium text-white">{standing.team}</td>
+                  <td className="px-4 py-3 text-center">{standing.played}</td>
+                  <td className="px-4 py-3 text-center text-green-400">{standing.won}</td>
+                  <td className="px-4 py-3 text-center text-red-400">{standing.lost}</td>
+                  <td className="px-4 py-3 text-center">{standing.tied}</td>
+                  <td className="px-4 py-3 text-center">{standing.noResult}</td>
+                  <td className="px-4 py-3 text-center font-bold text-ucla-gold">{standing.points}</td>
+                  <td className="px-4 py-3 text-center">
+                    {(standing.netRunRate >= 0 ? '+' : '') + standing.netRunRate.toFixed(3)}
+                  </td>
+                  <td className="px-4 py-3 text-center text-sm text-muted-foreground">
+                    {standing.runsFor}/{ballsToOvers(standing.ballsFaced)}
+                  </td>
+                  <td className="px-4 py-3 text-center text-sm text-muted-foreground">
+                    {standing.runsAgainst}/{ballsToOvers(standing.ballsBowled)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,56 @@
+import Link from 'next/link'
+import { getCompetitions } from '@/lib/services/competition-service'
+
+export const dynamic = 'force-dynamic'
+
+export default async function CompetitionsPage() {
+  const competitions = await getCompetitions()
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <h1 className="text-3xl font-bold text-white mb-2">
+        <span className="text-ucla-gold">Competitions</span>
+      </h1>
+      <p className="text-muted-foreground mb-8">
+        Points tables for every league and tournament we have imported
+      </p>
+
+      <div className="bg-card rounded-lg border border-border overflow-hidden">
+        {competitions.length === 0 ? (
+          <div className="p-8 text-center text-muted-foreground">
+            No competitions yet. Set the competition when uploading a scorecard.
+          </div>
+        ) : (
+          <table className="w-full">
+            <thead>
+              <tr className="bg-muted text-muted-foreground text-sm">
+                <th className="px-4 py-3 text-left font-medium">Competition</th>
+                <th className="px-4 py-3 text-left font-medium">Season</th>
+                <th className="px-4 py-3 text-center font-medium">Results</th>
+              </tr>
+            </thead>
+            <tbody>
+              {competitions.map((competition) => (
+                <tr
+                  key={competition.id}
+                  className="border-b border-border hover:bg-muted/50 transition-colors"
+                >
+                  <td className="px-4 py-3">
+                    <Link
+                      href={`/competitions/${competition.id}`}
+                      className="font-medium text-white hover:text-ucla-gold transition-colors"
+                    >
+                      {competition.name}
+                    </Link>
+                  </td>
+                  <td className="px-4 py-3 text-muted-foreground">{competition.seasonName || '-'}</td>
+                  <td className="px-4 py-3 text-center">{competition.matches}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -3,6 +3,7 @@
 import { useState, useEffect } from 'react'
 import { supabase } from '@/lib/supabase/client'
 import { cn } from '@/lib/utils'
+import { PlayerAvatar } from '@/components/player-avatar'
 
 interface FieldingStatsRow {
   id: string
@@ -16,6 +17,7 @@ interface FieldingStatsRow {
   player: {
     id: string
     name: string
+    photo_url: string | null
   }
   season: {
     id: string
@@ -34,6 +36,8 @@ export default function FieldingPage() {
   const [stats, setStats] = useState<FieldingStatsRow[]>([])
   const [seasons, setSeasons] = useState<Season[]>([])
   const [selectedSeason, setSelectedSeason] = useState<string>('')
+  const [competitions, setCompetitions] = useState<{ id: string; name: string }[]>([])
+  const [selectedCompetition, setSelectedCompetition] = useState<string>('')
   const [sortBy, setSortBy] = useState<SortKey>('dismissals')
   const [loading, setLoading] = useState(true)
 
@@ -41,11 +45,17 @@ export default function FieldingPage() {
     loadSeasons()
   }, [])
 
+  useEffect(() => {
+    if (selectedSeason) {
+      loadCompetitions()
+    }
+  }, [selectedSeason])
+
   useEffect(() => {
     if (selectedSeason) {
       loadStats()
     }
-  }, [selectedSeason, sortBy])
+  }, [selectedSeason, selectedCompetition, sortBy])
 
   async function loadSeasons() {
     const { data } = await supabase
@@ -59,17 +69,39 @@ export default function FieldingPage() {
     }
   }
 
-  async function loadStats() {
-    setLoading(true)
-    
-    const { data, error } = await supabase
+  async function loadCompetitions() {
+    const { data } = await supabase
+      .from('competitions')
+      .select('id, name')
+      .eq('season_id', selectedSeason)
+      .order('name')
+
+    setCompetitions(data || [])
+    setSelectedCompetition('')
+  }
+
+  // Season stats are cached; a competition's are worked out from its matches
+  async function fetchStats(): Promise<{ data: any[] | null; error: unknown }> {
+    if (selectedCompetition) {
+      const response = await fetch(`/api/leaderboards?competitionId=${selectedCompetition}`)
+      const result = await response.json()
+      return result.success ? { data: result.fielding, error: null } : { data: null, error: result.error }
+    }
+
+    return supabase
       .from('fielding_season_stats')
       .select(`
         *,
-        player:players(id, name),
+        player:players(id, name, photo_url),
         season:seasons(id, name)
       `)
       .eq('season_id', selectedSeason)
+  }
+
+  async function loadStats() {
+    setLoading(true)
+    
+    const { data, error } = await fetchStats()
 
     if (error) {
       console.error('Error loading fielding stats:', error)
@@ -127,6 +159,24 @@ export default function FieldingPage() {
           </select>
         </div>
 
+        <div>
+          <label className="block text-sm font-medium text-muted-foreground mb-1">
+            Competition
+          </label>
+          <select
+            value={selectedCompetition}
+            onChange={(e) => setSelectedCompetition(e.target.value)}
+            className="bg-background border border-border rounded-md px-3 py-2 text-white"
+          >
+            <option value="">All competitions</option>
+            {competitions.map((competition) => (
+              <option key={competition.id} value={competition.id}>
+                {competition.name}
+              </option>
+            ))}
+          </select>
+        </div>
+
         <div>
           <label className="block text-sm font-medium text-muted-foreground mb-1">
             Sort By
@@ -191,8 +241,9 @@ export default function FieldingPage() {
                   <td className="py-3 px-4">
                     <a 
                       href={`/players/${row.player.id}`}
-                      className="text-white hover:text-ucla-gold transition-colors font-medium"
+                      className="flex items-center gap-3 text-white hover:text-ucla-gold transition-colors font-medium"
                     >
+                      <PlayerAvatar name={row.player.name} photoUrl={row.player.photo_url} className="w-8 h-8 text-sm" />
                       {row.player.name}
                     </a>
                   </td>
@@ -4,30 +4,44 @@ import { useState, useEffect } from 'react'
 import Link from 'next/link'
 import { useRouter } from 'next/navigation'
 import { supabase } from '@/lib/supabase/client'
-import { formatStat, formatDate, getInitials, cn } from '@/lib/utils'
+import { formatInningsScore, formatStat, formatDate, getInitials, cn } from '@/lib/utils'
 import { EditableScorecard } from '@/components/editable-scorecard'
+import { MatchOverrides } from '@/components/match-overrides'
+import { AttachMatchPages } from '@/components/attach-match-pages'
+import { MatchCharts, oversFromDeliveries, type OverPoint } from '@/components/match-charts'
+import type { Innings } from '@/types/models'
 
 interface MatchData {
   id: string
   date: string
   opponent: string
   our_team_name: string | null
-  our_score: string | null
-  opponent_score: string | null
   result: string
+  result_summary: string | null
   competition_name: string | null
+  competition_id: string | null
+  stage_id: string | null
+  stage: { name: string } | null
   match_type: string
   venue: string | null
+  toss_winner: string | null
+  toss_decision: string | null
+  umpires: string[] | null
+  scorers: string[] | null
+  start_time: string | null
+  player_of_match: string | null
   notes: string | null
-  our_extras_total: number | null
-  our_extras_wides: number | null
-  our_extras_no_balls: number | null
-  our_extras_byes: number | null
-  our_extras_leg_byes: number | null
   season: { name: string } | null
+  innings: Innings[]
   battingPerformances: any[]
   bowlingPerformances: any[]
   fieldingPerformances: any[]
+  superOverBatting: any[]
+  superOverBowling: any[]
+  overs: OverPoint[]
+  partnerships: any[]
+  roles: any[]
+  didNotBat: any[]
 }
 
 // Check if a player name indicates unclaimed
@@ -35,11 +49,10 @@ function isUnclaimed(name: string | undefined): boolean {
   return name?.toLowerCase().startsWith('unclaimed') || false
 }
 
-// Parse score string like "156/7" to get total
-function parseScoreTotal(score: string | null): number | null {
-  if (!score) return null
-  const m = score.match(/^(\d+)/)
-  return m ? parseInt(m[1]) : null
+// Scorecard markers for the captain and wicket keeper, e.g. " (c) †"
+function roleMarkers(roles: any[], playerId: string | undefined): string {
+  const playerRoles = roles.filter(r => r.player_id === playerId).map(r => r.role)
+  return (playerRoles.includes('captain') ? ' (c)' : '') + (playerRoles.includes('wicket_keeper') ? ' †' : '')
 }
 
 export default function MatchDetailPage({ params }: { params: { id: string } }) {
@@ -50,8 +63,10 @@ export default function MatchDetailPage({ params }: { params: { id: string } })
   
   // Metadata editing state
   const [editingMetadata, setEditingMetadata] = useState(false)
+  const [stages, setStages] = useState<{ id: string; name: string }[]>([])
   const [metadata, setMetadata] = useState({
     competition_name: '',
+    stage_id: '',
     match_type: 'league',
     venue: '',
     result: 'no_result',
@@ -70,7 +85,8 @@ export default function MatchDetailPage({ params }: { params: { id: string } })
       .from('matches')
       .select(`
         *,
-        season:seasons(name)
+        season:seasons(name),
+        stage:competition_stages(name)
       `)
       .eq('id', params.id)
       .single()
@@ -80,6 +96,15 @@ export default function MatchDetailPage({ params }: { params: { id: string } })
       return
     }
     
+    // Stages the match can be moved between
+    const { data: competitionStages } = matchData.competition_id
+      ? await supabase
+          .from('competition_stages')
+          .select('id, name')
+          .eq('competition_id', matchData.competition_id)
+          .order('created_at')
+      : { data: [] }
+    
     // Get batting performances
     const { data: battingPerformances } = await supabase
       .from('batting_performances')
@@ -88,6 +113,7 @@ export default function MatchDetailPage({ params }: { params: { id: string } })
         player:players(id, name)
       `)
       .eq('match_id', params.id)
+      .order('innings_number')
       .order('batting_position')
     
     // Get bowling performances
@@ -98,6 +124,7 @@ export default function MatchDetailPage({ params }: { params: { id: string } })
         player:players(id, name)
       `)
       .eq('match_id', params.id)
+      .order('innings_number')
       .order('created_at')
     
     // Get fielding performances
@@ -108,17 +135,76 @@ export default function MatchDetailPage({ params }: { params: { id: string } })
         player:players(id, name)
       `)
       .eq('match_id', params.id)
+      .order('innings_number')
+
+    // Get totals and extras for every innings
+    const { data: innings } = await supabase
+      .from('innings')
+      .select('*')
+      .eq('match_id', params.id)
+      .order('innings_number')
+
+    // Get per-over scores, falling back to the ball-by-ball stream
+    const { data: overSummaries } = await supabase
+      .from('over_summaries')
+      .select('*')
+      .eq('match_id', params.id)
+      .order('innings_number')
+      .order('over_number')
+
+    let overs: OverPoint[] = overSummaries || []
+    if (overs.length === 0) {
+      const { data: deliveries } = await supabase
+        .from('deliveries')
+        .select('innings_number, batting_team, over_number, runs, extras, is_wicket')
+        .eq('match_id', params.id)
+      overs = oversFromDeliveries(deliveries || [])
+    }
+
+    // Get partnerships for both innings
+    const { data: partnerships } = await supabase
+      .from('partnerships')
+      .select('*')
+      .eq('match_id', params.id)
+      .order('innings_number')
+      .order('wicket_number')
+
+    // Get the captain and wicket keeper
+    const { data: roles } = await supabase
+      .from('match_roles')
+      .select('*')
+      .eq('match_id', params.id)
+
+    // Get the rest of the XI, who did not bat
+    const { data: didNotBat } = await supabase
+      .from('match_appearances')
+      .select(`
+        *,
+        player:players(id, name)
+      `)
+      .eq('match_id', params.id)
+      .eq('batted', false)
 
     const fullMatch = {
       ...matchData,
-      battingPerformances: battingPerformances || [],
-      bowlingPerformances: bowlingPerformances || [],
-      fieldingPerformances: fieldingPerformances || [],
+      innings: innings || [],
+      // Super over figures are shown on their own, apart from the main scorecard
+      battingPerformances: (battingPerformances || []).filter(p => !p.is_super_over),
+      bowlingPerformances: (bowlingPerformances || []).filter(p => !p.is_super_over),
+      fieldingPerformances: (fieldingPerformances || []).filter(p => !p.is_super_over),
+      superOverBatting: (battingPerformances || []).filter(p => p.is_super_over),
+      superOverBowling: (bowlingPerformances || []).filter(p => p.is_super_over),
+      overs,
+      partnerships: partnerships || [],
+      roles: roles || [],
+      didNotBat: didNotBat || [],
     }
 
     setMatch(fullMatch)
+    setStages(competitionStages || [])
     setMetadata({
       competition_name: matchData.competition_name || '',
+      stage_id: matchData.stage_id || '',
       match_type: matchData.match_type || 'league',
       venue: matchData.venue || '',
       result: matchData.result || 'no_result',
@@ -180,13 +266,20 @@ export default function MatchDetailPage({ params }: { params: { id: string } })
     wickets: match.battingPerformances.filter((p: any) => !p.not_out).length,
   }
 
-  // Get extras from match data or calculate
-  const teamTotal = parseScoreTotal(match.our_score)
-  const extrasTotal = match.our_extras_total || (teamTotal !== null ? teamTotal - battingTotals.runs : 0)
-  const extrasWides = match.our_extras_wides || 0
-  const extrasNoBalls = match.our_extras_no_balls || 0
-  const extrasByes = match.our_extras_byes || 0
-  const extrasLegByes = match.our_extras_leg_byes || 0
+  // Get extras from our innings, or the gap between the total and the batters' runs
+  const ourInnings = match.innings.find(inn => inn.is_our_innings && !inn.is_super_over) || null
+  const opponentInnings = match.innings.find(inn => !inn.is_our_innings && !inn.is_super_over) || null
+  const superOverInnings = match.innings.filter(inn => inn.is_super_over)
+
+  // Rows from a side's second innings are marked in two-innings matches
+  const ourInningsNumber = ourInnings?.innings_number ?? 1
+  const opponentInningsNumber = opponentInnings?.innings_number ?? 1
+  const teamTotal = ourInnings ? ourInnings.total : null
+  const extrasTotal = ourInnings?.extras_total || (teamTotal !== null ? teamTotal - battingTotals.runs : 0)
+  const extrasWides = ourInnings?.extras_wides || 0
+  const extrasNoBalls = ourInnings?.extras_no_balls || 0
+  const extrasByes = ourInnings?.extras_byes || 0
+  const extrasLegByes = ourInnings?.extras_leg_byes || 0
 
   const fieldingTotals = {
     catches: match.fieldingPerformances.reduce((s: number, p: any) => s + p.catches, 0),
@@ -213,7 +306,13 @@ export default function MatchDetailPage({ params }: { params: { id: string } })
         <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-4">
           <div>
             <p className="text-sm text-white/70">
-              {match.competition_name || 'League Match'} • {formatDate(match.date)}
+              {match.competition_id ? (
+                <Link href={`/competitions/${match.competition_id}`} className="hover:text-ucla-gold transition-colors">
+                  {match.competition_name}
+                </Link>
+              ) : (
+                match.competition_name || 'League Match'
+              )} • {formatDate(match.date)}
               {match.venue && ` • ${match.venue}`}
             </p>
             <h1 className="text-3xl font-bold text-white mt-1">
@@ -252,16 +351,20 @@ export default function MatchDetailPage({ params }: { params: { id: string } })
           <div className="bg-white/10 rounded-lg p-4">
             <span className="text-sm text-white/70 block">{ourTeam}</span>
             <span className="text-3xl font-bold text-white">
-              {match.our_score || '-'}
+              {formatInningsScore(ourInnings)}
             </span>
           </div>
           <div className="bg-white/10 rounded-lg p-4">
             <span className="text-sm text-white/70 block">{match.opponent}</span>
             <span className="text-3xl font-bold text-white">
-              {match.opponent_score || '-'}
+              {formatInningsScore(opponentInnings)}
             </span>
           </div>
         </div>
+
+        {match.result_summary && (
+          <p className="text-lg font-semibold text-white mt-4">{match.result_summary}</p>
+        )}
         
         {match.notes && (
           <p className="text-sm text-white/70 mt-4 border-t border-white/20 pt-4">
@@ -316,6 +419,23 @@ export default function MatchDetailPage({ params }: { params: { id: string } })
                     className="w-full px-3 py-2 bg-background border border-border rounded text-white"
                   />
                 </div>
+                {stages.length > 0 && (
+                  <div>
+                    <label className="block text-sm font-medium text-muted-foreground mb-1">
+                      Tournament Stage
+                    </label>
+                    <select
+                      value={metadata.stage_id}
+                      onChange={(e) => setMetadata(prev => ({ ...prev, stage_id: e.target.value }))}
+                      className="w-full px-3 py-2 bg-background border border-border rounded text-white"
+                    >
+                      <option value="">No stage</option>
+                      {stages.map(stage => (
+                        <option key={stage.id} value={stage.id}>{stage.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                )}
                 <div>
                   <label className="block text-sm font-medium text-muted-foreground mb-1">
                     Match Stage
@@ -375,7 +495,10 @@ export default function MatchDetailPage({ params }: { params: { id: string } })
               <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
                 <div>
                   <span className="text-muted-foreground block">Tournament</span>
-                  <span className="text-white font-medium">{match.competition_name || 'League Match'}</span>
+                  <span className="text-white font-medium">
+                    {match.competition_name || 'League Match'}
+                    {match.stage && ` - ${match.stage.name}`}
+                  </span>
                 </div>
                 <div>
                   <span className="text-muted-foreground block">Stage</span>
@@ -397,18 +520,25 @@ export default function MatchDetailPage({ params }: { params: { id: string } })
             matchId={match.id}
             ourTeam={ourTeam}
             opponent={match.opponent}
-            ourScore={match.our_score}
-            opponentScore={match.opponent_score}
+            ourInnings={ourInnings}
+            opponentInnings={opponentInnings}
             battingPerformances={match.battingPerformances}
             bowlingPerformances={match.bowlingPerformances}
             fieldingPerformances={match.fieldingPerformances}
-            extrasTotal={extrasTotal}
-            extrasWides={extrasWides}
-            extrasNoBalls={extrasNoBalls}
-            extrasByes={extrasByes}
-            extrasLegByes={extrasLegByes}
             onUpdate={loadMatchDetails}
           />
+
+          <MatchOverrides
+            matchId={match.id}
+            scorecardNames={Array.from(new Set(
+              [...match.battingPerformances, ...match.bowlingPerformances]
+                .map((p: any) => p.player?.name)
+                .filter(Boolean)
+            ))}
+            onUpdate={loadMatchDetails}
+          />
+
+          <AttachMatchPages matchId={match.id} onUpdate={loadMatchDetails} />
         </>
       ) : (
         <div className="space-y-8">
@@ -417,7 +547,7 @@ export default function MatchDetailPage({ params }: { params: { id: string } })
             <div className="bg-ucla-blue px-4 py-3">
               <h2 className="text-lg font-bold text-white">
                 {ourTeam} Batting
-                {match.our_score && <span className="ml-2 text-ucla-gold">{match.our_score}</span>}
+                {ourInnings && <span className="ml-2 text-ucla-gold">{formatInningsScore(ourInnings, true)}</span>}
               </h2>
             </div>
             
@@ -469,6 +599,10 @@ export default function MatchDetailPage({ params }: { params: { id: string } })
                               )}>
                                 {playerIsUnclaimed ? '❓ ' : ''}{perf.player?.name}
                                 {perf.not_out && <span className="text-ucla-gold">*</span>}
+                                <span className="text-muted-foreground text-sm">{roleMarkers(match.roles, perf.player?.id)}</span>
+                                {perf.innings_number > ourInningsNumber && (
+                                  <span className="text-muted-foreground text-xs ml-1">(2nd inns)</span>
+                                )}
                               </span>
                             </Link>
                           </td>
@@ -515,13 +649,27 @@ export default function MatchDetailPage({ params }: { params: { id: string } })
                 </table>
               </div>
             )}
+            {match.didNotBat.length > 0 && (
+              <div className="px-4 py-3 border-t border-border text-sm">
+                <span className="text-muted-foreground">Did not bat: </span>
+                {match.didNotBat.map((appearance: any, idx: number) => (
+                  <span key={appearance.id}>
+                    {idx > 0 && ', '}
+                    <Link href={`/players/${appearance.player?.id}`} className="text-white hover:text-ucla-gold transition-colors">
+                      {appearance.player?.name}
+                    </Link>
+                    <span className="text-muted-foreground">{roleMarkers(match.roles, appearance.player?.id)}</span>
+                  </span>
+                ))}
+              </div>
+            )}
           </div>
 
           {/* Bowling Scorecard - Read Only (No totals footer) */}
           <div className="bg-card rounded-lg border border-border overflow-hidden">
             <div className="bg-green-700 px-4 py-3">
               <h2 className="text-lg font-bold text-white">
-                {ourTeam} Bowling vs {match.opponent}&apos;s {match.opponent_score || '-'}
+                {ourTeam} Bowling vs {match.opponent}&apos;s {formatInningsScore(opponentInnings, true)}
               </h2>
             </div>
             
@@ -572,6 +720,10 @@ export default function MatchDetailPage({ params }: { params: { id: string } })
                                 playerIsUnclaimed ? 'text-orange-400 italic' : 'text-white'
                               )}>
                                 {playerIsUnclaimed ? '❓ ' : ''}{perf.player?.name}
+                                <span className="text-muted-foreground text-sm">{roleMarkers(match.roles, perf.player?.id)}</span>
+                                {perf.innings_number > opponentInningsNumber && (
+                                  <span className="text-muted-foreground text-xs ml-1">(2nd inns)</span>
+                                )}
                               </span>
                             </Link>
                           </td>
@@ -671,6 +823,131 @@ export default function MatchDetailPage({ params }: { params: { id: string } })
               </div>
             </div>
           )}
+
+          {/* Super Over - kept apart from the main scorecard and the season averages */}
+          {(match.superOverBatting.length > 0 || match.superOverBowling.length > 0) && (
+            <div className="bg-card rounded-lg border border-border overflow-hidden">
+              <div className="bg-yellow-600 px-4 py-3">
+                <h2 className="text-lg font-bold text-black">
+                  Super Over
+                  {superOverInnings.map(inn => (
+                    <span key={inn.id} className="ml-3 text-sm font-medium">
+                      {inn.batting_team} {formatInningsScore(inn)}
+                    </span>
+                  ))}
+                </h2>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 divide-y md:divide-y-0 md:divide-x divide-border">
+                <table className="w-full">
+                  <thead>
+                    <tr className="bg-muted text-muted-foreground text-sm">
+                      <th className="px-4 py-3 text-left font-medium">Batter</th>
+                      <th className="px-4 py-3 text-center font-medium">R</th>
+                      <th className="px-4 py-3 text-center font-medium">B</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {match.superOverBatting.map((perf: any) => (
+                      <tr key={perf.id} className="border-b border-border">
+                        <td className="px-4 py-3">
+                          <Link href={`/players/${perf.player?.id}`} className="text-white hover:text-ucla-gold transition-colors">
+                            {perf.player?.name}
+                          </Link>
+                          {perf.not_out && <span className="text-ucla-gold">*</span>}
+                        </td>
+                        <td className="px-4 py-3 text-center font-bold text-ucla-gold">{perf.runs}</td>
+                        <td className="px-4 py-3 text-center text-muted-foreground">{perf.balls}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <table className="w-full">
+                  <thead>
+                    <tr className="bg-muted text-muted-foreground text-sm">
+                      <th className="px-4 py-3 text-left font-medium">Bowler</th>
+                      <th className="px-4 py-3 text-center font-medium">O</th>
+                      <th className="px-4 py-3 text-center font-medium">R</th>
+                      <th className="px-4 py-3 text-center font-medium">W</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {match.superOverBowling.map((perf: any) => (
+                      <tr key={perf.id} className="border-b border-border">
+                        <td className="px-4 py-3">
+                          <Link href={`/players/${perf.player?.id}`} className="text-white hover:text-green-400 transition-colors">
+                            {perf.player?.name}
+                          </Link>
+                        </td>
+                        <td className="px-4 py-3 text-center">{perf.overs}</td>
+                        <td className="px-4 py-3 text-center">{perf.runs_conceded}</td>
+                        <td className="px-4 py-3 text-center font-bold text-green-400">{perf.wickets}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Worm and Manhattan charts */}
+      {match.overs.length > 0 && (
+        <div className="mt-8">
+          <MatchCharts overs={match.overs} />
+        </div>
+      )}
+
+      {/* Partnerships */}
+      {match.partnerships.length > 0 && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mt-8">
+          {Array.from(new Set(match.partnerships.map((p: any) => p.innings_number))).map(inningsNumber => {
+            const stands = match.partnerships.filter((p: any) => p.innings_number === inningsNumber)
+            const best = Math.max(...stands.map((p: any) => p.runs))
+            return (
+              <div key={inningsNumber} className="bg-card rounded-lg border border-border overflow-hidden">
+                <div className={cn('px-4 py-3', stands[0].is_our_innings ? 'bg-ucla-blue' : 'bg-gray-700')}>
+                  <h2 className="text-lg font-bold text-white">
+                    {stands[0].batting_team} Partnerships
+                  </h2>
+                </div>
+                <table className="w-full">
+                  <thead>
+                    <tr className="bg-muted text-muted-foreground text-sm">
+                      <th className="px-4 py-3 text-left font-medium">Wkt</th>
+                      <th className="px-4 py-3 text-left font-medium">Batters</th>
+                      <th className="px-4 py-3 text-center font-medium">Runs</th>
+                      <th className="px-4 py-3 text-center font-medium">Score</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {stands.map((p: any, idx: number) => (
+                      <tr
+                        key={p.id}
+                        className={cn('border-b border-border', idx % 2 === 0 ? '' : 'bg-muted/20')}
+                      >
+                        <td className="px-4 py-3 text-muted-foreground">{p.wicket_number}</td>
+                        <td className="px-4 py-3 text-white">
+                          {p.batter1_name} &amp; {p.batter2_name}
+                        </td>
+                        <td className={cn(
+                          'px-4 py-3 text-center',
+                          p.runs === best && 'font-bold text-ucla-gold'
+                        )}>
+                          {p.runs}{p.unbroken && '*'}
+                        </td>
+                        <td className="px-4 py-3 text-center text-muted-foreground">
+                          {p.start_score} → {p.end_score}
+                          {p.end_over !== null && ` (${p.end_over} ov)`}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )
+          })}
         </div>
       )}
 
@@ -694,6 +971,34 @@ export default function MatchDetailPage({ params }: { params: { id: string } })
             <span className="text-muted-foreground block">Season</span>
             <span className="text-white font-medium">{match.season?.name || '-'}</span>
           </div>
+          <div>
+            <span className="text-muted-foreground block">Ground</span>
+            <span className="text-white font-medium">{match.venue || '-'}</span>
+          </div>
+          <div>
+            <span className="text-muted-foreground block">Start Time</span>
+            <span className="text-white font-medium">{match.start_time?.slice(0, 5) || '-'}</span>
+          </div>
+          <div>
+            <span className="text-muted-foreground block">Toss</span>
+            <span className="text-white font-medium">
+              {match.toss_winner
+                ? `${match.toss_winner}${match.toss_decision ? ` chose to ${match.toss_decision}` : ''}`
+                : '-'}
+            </span>
+          </div>
+          <div>
+            <span className="text-muted-foreground block">Player of the Match</span>
+            <span className="text-white font-medium">{match.player_of_match || '-'}</span>
+          </div>
+          <div>
+            <span className="text-muted-foreground block">Umpires</span>
+            <span className="text-white font-medium">{match.umpires?.join(', ') || '-'}</span>
+          </div>
+          <div>
+            <span className="text-muted-foreground block">Scorers</span>
+            <span className="text-white font-medium">{match.scorers?.join(', ') || '-'}</span>
+          </div>
         </div>
       </div>
 
@@ -3,24 +3,40 @@
 import { useState, useEffect } from 'react'
 import Link from 'next/link'
 import { supabase } from '@/lib/supabase/client'
-import { formatDate } from '@/lib/utils'
+import { formatDate, formatInningsScore } from '@/lib/utils'
+import type { Innings } from '@/types/models'
 
 interface Match {
   id: string
   date: string
   opponent: string
   result: string
-  our_score: string | null
-  opponent_score: string | null
+  result_summary: string | null
   match_type: string
   competition_name: string | null
+  venue: string | null
+  our_team_name: string | null
+  toss_winner: string | null
+  toss_decision: string | null
   season: { name: string } | null
+  innings: Innings[]
+}
+
+type TossFilter = '' | 'won' | 'lost' | 'bat' | 'bowl'
+
+// Whether UCLA won the toss, or null when the toss is unknown
+function wonToss(match: Match): boolean | null {
+  if (!match.toss_winner) return null
+  const ourTeam = (match.our_team_name || 'UCLA').toLowerCase()
+  return match.toss_winner.toLowerCase().includes(ourTeam)
 }
 
 export default function MatchesPage() {
   const [matches, setMatches] = useState<Match[]>([])
   const [loading, setLoading] = useState(true)
   const [deleting, setDeleting] = useState<string | null>(null)
+  const [venueFilter, setVenueFilter] = useState('')
+  const [tossFilter, setTossFilter] = useState<TossFilter>('')
 
   useEffect(() => {
     loadMatches()
@@ -31,7 +47,8 @@ export default function MatchesPage() {
       .from('matches')
       .select(`
         *,
-        season:seasons(name)
+        season:seasons(name),
+        innings(*)
       `)
       .order('date', { ascending: false })
     
@@ -73,6 +90,16 @@ export default function MatchesPage() {
     }
   }
 
+  const venues = Array.from(new Set(matches.map(m => m.venue).filter((v): v is string => !!v))).sort()
+  
+  const filteredMatches = matches.filter(match => {
+    if (venueFilter && match.venue !== venueFilter) return false
+    if (tossFilter === 'won' && wonToss(match) !== true) return false
+    if (tossFilter === 'lost' && wonToss(match) !== false) return false
+    if ((tossFilter === 'bat' || tossFilter === 'bowl') && match.toss_decision !== tossFilter) return false
+    return true
+  })
+
   if (loading) {
     return (
       <div className="container mx-auto px-4 py-8">
@@ -118,78 +145,125 @@ export default function MatchesPage() {
           </Link>
         </div>
       ) : (
-        <div className="space-y-4">
-          {matches.map((match) => (
-            <div
-              key={match.id}
-              className="bg-card rounded-lg p-6 border border-border hover:border-ucla-blue transition-colors"
-            >
-              <div className="flex items-center justify-between">
-                <Link 
-                  href={`/matches/${match.id}`}
-                  className="flex items-center gap-4 flex-1"
-                >
-                  {/* Result indicator */}
-                  <div className={`w-12 h-12 rounded-full flex items-center justify-center text-white font-bold ${
-                    match.result === 'win' ? 'bg-green-600' :
-                    match.result === 'loss' ? 'bg-red-600' :
-                    match.result === 'tie' ? 'bg-yellow-600' :
-                    'bg-gray-600'
-                  }`}>
-                    {match.result === 'win' ? 'W' :
-                     match.result === 'loss' ? 'L' :
-                     match.result === 'tie' ? 'T' : '-'}
-                  </div>
-                  
-                  <div>
-                    <h3 className="text-lg font-semibold text-white">
-                      vs {match.opponent}
-                    </h3>
-                    <p className="text-sm text-muted-foreground">
-                      {formatDate(match.date)} • {match.competition_name || 'League Match'}
-                    </p>
-                  </div>
-                </Link>
-                
-                <div className="flex items-center gap-6">
-                  <Link href={`/matches/${match.id}`} className="text-right">
-                    <div className="flex items-center gap-2 text-xl font-mono">
-                      <span className={match.result === 'win' ? 'text-ucla-gold font-bold' : ''}>
-                        {match.our_score || '-'}
-                      </span>
-                      <span className="text-muted-foreground">vs</span>
-                      <span className={match.result === 'loss' ? 'text-red-400 font-bold' : ''}>
-                        {match.opponent_score || '-'}
-                      </span>
+        <>
+          {/* Filters */}
+          <div className="flex flex-wrap gap-4 mb-8">
+            <div>
+              <label className="block text-sm font-medium text-muted-foreground mb-1">
+                Ground
+              </label>
+              <select
+                value={venueFilter}
+                onChange={(e) => setVenueFilter(e.target.value)}
+                className="bg-background border border-border rounded-md px-3 py-2 text-white"
+              >
+                <option value="">All grounds</option>
+                {venues.map((venue) => (
+                  <option key={venue} value={venue}>
+                    {venue}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-muted-foreground mb-1">
+                Toss
+              </label>
+              <select
+                value={tossFilter}
+                onChange={(e) => setTossFilter(e.target.value as TossFilter)}
+                className="bg-background border border-border rounded-md px-3 py-2 text-white"
+              >
+                <option value="">Any toss</option>
+                <option value="won">Won the toss</option>
+                <option value="lost">Lost the toss</option>
+                <option value="bat">Toss winner chose to bat</option>
+                <option value="bowl">Toss winner chose to bowl</option>
+              </select>
+            </div>
+          </div>
+
+          {filteredMatches.length === 0 && (
+            <div className="text-center py-12 text-muted-foreground">
+              No matches for the selected filters
+            </div>
+          )}
+
+          <div className="space-y-4">
+            {filteredMatches.map((match) => (
+              <div
+                key={match.id}
+                className="bg-card rounded-lg p-6 border border-border hover:border-ucla-blue transition-colors"
+              >
+                <div className="flex items-center justify-between">
+                  <Link 
+                    href={`/matches/${match.id}`}
+                    className="flex items-center gap-4 flex-1"
+                  >
+                    {/* Result indicator */}
+                    <div className={`w-12 h-12 rounded-full flex items-center justify-center text-white font-bold ${
+                      match.result === 'win' ? 'bg-green-600' :
+                      match.result === 'loss' ? 'bg-red-600' :
+                      match.result === 'tie' ? 'bg-yellow-600' :
+                      'bg-gray-600'
+                    }`}>
+                      {match.result === 'win' ? 'W' :
+                       match.result === 'loss' ? 'L' :
+                       match.result === 'tie' ? 'T' : '-'}
+                    </div>
+                    
+                    <div>
+                      <h3 className="text-lg font-semibold text-white">
+                        vs {match.opponent}
+                      </h3>
+                      <p className="text-sm text-muted-foreground">
+                        {formatDate(match.date)} • {match.competition_name || 'League Match'}
+                        {match.venue && ` • ${match.venue}`}
+                      </p>
                     </div>
-                    <p className="text-xs text-muted-foreground mt-1">
-                      {match.match_type.charAt(0).toUpperCase() + match.match_type.slice(1)}
-                    </p>
                   </Link>
                   
-                  {/* Delete button */}
-                  <button
-                    onClick={(e) => deleteMatch(match.id, e)}
-                    disabled={deleting === match.id}
-                    className="p-2 text-muted-foreground hover:text-red-500 hover:bg-red-500/10 rounded-lg transition-colors disabled:opacity-50"
-                    title="Delete match"
-                  >
-                    {deleting === match.id ? (
-                      <svg className="w-5 h-5 animate-spin" fill="none" viewBox="0 0 24 24">
-                        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                      </svg>
-                    ) : (
-                      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                      </svg>
-                    )}
-                  </button>
+                  <div className="flex items-center gap-6">
+                    <Link href={`/matches/${match.id}`} className="text-right">
+                      <div className="flex items-center gap-2 text-xl font-mono">
+                        <span className={match.result === 'win' ? 'text-ucla-gold font-bold' : ''}>
+                          {formatInningsScore(match.innings.find(inn => inn.is_our_innings && !inn.is_super_over))}
+                        </span>
+                        <span className="text-muted-foreground">vs</span>
+                        <span className={match.result === 'loss' ? 'text-red-400 font-bold' : ''}>
+                          {formatInningsScore(match.innings.find(inn => !inn.is_our_innings && !inn.is_super_over))}
+                        </span>
+                      </div>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {match.result_summary || match.match_type.charAt(0).toUpperCase() + match.match_type.slice(1)}
+                      </p>
+                    </Link>
+                    
+                    {/* Delete button */}
+                    <button
+                      onClick={(e) => deleteMatch(match.id, e)}
+                      disabled={deleting === match.id}
+                      className="p-2 text-muted-foreground hover:text-red-500 hover:bg-red-500/10 rounded-lg transition-colors disabled:opacity-50"
+                      title="Delete match"
+                    >
+                      {deleting === match.id ? (
+                        <svg className="w-5 h-5 animate-spin" fill="none" viewBox="0 0 24 24">
+                          <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                          <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                        </svg>
+                      ) : (
+                        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                        </svg>
+                      )}
+                    </button>
+                  </div>
                 </div>
               </div>
-            </div>
-          ))}
-        </div>
+            ))}
+          </div>
+        </>
       )}
     </div>
   )
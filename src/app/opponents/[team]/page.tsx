@@ -0,0 +1,136 @@
+import Link from 'next/link'
+import { getNemesisBowlers, getOpponentScouting } from '@/lib/services/stats-service'
+import { ballsToOvers, formatStat } from '@/lib/utils'
+
+export const dynamic = 'force-dynamic'
+
+export default async function OpponentScoutingPage({ params }: { params: { team: string } }) {
+  const teamName = decodeURIComponent(params.team)
+  const { batting, bowling } = await getOpponentScouting(teamName)
+  const nemesisBowlers = await getNemesisBowlers(teamName)
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <Link href="/opponents" className="text-sm text-muted-foreground hover:text-ucla-gold transition-colors">
+        ← All opponents
+      </Link>
+      <h1 className="text-3xl font-bold text-white mt-2 mb-2">
+        {teamName} <span className="text-ucla-gold">Scouting</span>
+      </h1>
+      <p className="text-muted-foreground mb-8">
+        How {teamName} players have performed against us
+      </p>
+
+      <div className="grid gap-8 lg:grid-cols-2">
+        <div className="bg-card rounded-lg border border-border overflow-hidden">
+          <div className="bg-ucla-blue px-4 py-3">
+            <h2 className="text-lg font-bold text-white">Batting</h2>
+          </div>
+
+          {batting.length === 0 ? (
+            <div className="p-8 text-center text-muted-foreground">
+              No batting recorded for {teamName}.
+            </div>
+          ) : (
+            <table className="w-full">
+              <thead>
+                <tr className="bg-muted text-muted-foreground text-sm">
+                  <th className="px-4 py-3 text-left font-medium">Batter</th>
+                  <th className="px-4 py-3 text-center font-medium">Inn</th>
+                  <th className="px-4 py-3 text-center font-medium">Runs</th>
+                  <th className="px-4 py-3 text-center font-medium">HS</th>
+                  <th className="px-4 py-3 text-center font-medium">Avg</th>
+                  <th className="px-4 py-3 text-center font-medium">SR</th>
+                </tr>
+              </thead>
+              <tbody>
+                {batting.map((batter) => (
+                  <tr
+                    key={batter.opponentPlayerId}
+                    className="border-b border-border hover:bg-muted/50 transition-colors"
+                  >
+                    <td className="px-4 py-3 font-medium text-white">{batter.playerName}</td>
+                    <td className="px-4 py-3 text-center">{batter.innings}</td>
+                    <td className="px-4 py-3 text-center font-bold text-ucla-gold">{batter.runs}</td>
+                    <td className="px-4 py-3 text-center">{batter.highScore}</td>
+                    <td className="px-4 py-3 text-center">{formatStat(batter.average)}</td>
+                    <td className="px-4 py-3 text-center">{formatStat(batter.strikeRate, 1)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="bg-card rounded-lg border border-border overflow-hidden">
+          <div className="bg-ucla-blue px-4 py-3">
+            <h2 className="text-lg font-bold text-white">Bowling</h2>
+          </div>
+
+          {bowling.length === 0 ? (
+            <div className="p-8 text-center text-muted-foreground">
+              No bowling recorded for {teamName}.
+            </div>
+          ) : (
+            <table className="w-full">
+              <thead>
+                <tr className="bg-muted text-muted-foreground text-sm">
+                  <th className="px-4 py-3 text-left font-medium">Bowler</th>
+                  <th className="px-4 py-3 text-center font-medium">M</th>
+                  <th className="px-4 py-3 text-center font-medium">O</th>
+                  <th className="px-4 py-3 text-center font-medium">R</th>
+                  <th className="px-4 py-3 text-center font-medium">W</th>
+                  <th className="px-4 py-3 text-center font-medium">Econ</th>
+                </tr>
+              </thead>
+              <tbody>
+                {bowling.map((bowler) => (
+                  <tr
+                    key={bowler.opponentPlayerId}
+                    className="border-b border-border hover:bg-muted/50 transition-colors"
+                  >
+                    <td className="px-4 py-3 font-medium text-white">{bowler.playerName}</td>
+                    <td className="px-4 py-3 text-center">{bowler.matches}</td>
+                    <td className="px-4 py-3 text-center">{ballsToOvers(bowler.balls)}</td>
+                    <td className="px-4 py-3 text-center">{bowler.runs}</td>
+                    <td className="px-4 py-3 text-center font-bold text-ucla-gold">{bowler.wickets}</td>
+                    <td className="px-4 py-3 text-center">{formatStat(bowler.economy)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+
+      {nemesisBowlers.length > 0 && (
+        <div className="bg-card rounded-lg border border-border overflow-hidden mt-8">
+          <div className="bg-ucla-blue px-4 py-3">
+            <h2 className="text-lg font-bold text-white">Who Gets Our Batters Out</h2>
+          </div>
+          <table className="w-full">
+            <thead>
+              <tr className="bg-muted text-muted-foreground text-sm">
+                <th className="px-4 py-3 text-left font-medium">Bowler</th>
+                <th className="px-4 py-3 text-center font-medium">Wkts</th>
+                <th className="px-4 py-3 text-left font-medium">Victims</th>
+              </tr>
+            </thead>
+            <tbody>
+              {nemesisBowlers.map((bowler) => (
+                <tr
+                  key={bowler.opponentPlayerId}
+                  className="border-b border-border hover:bg-muted/50 transition-colors"
+                >
+                  <td className="px-4 py-3 font-medium text-white">{bowler.playerName}</td>
+                  <td className="px-4 py-3 text-center font-bold text-ucla-gold">{bowler.wickets}</td>
+                  <td className="px-4 py-3 text-sm text-muted-foreground">{bowler.victims.join(', ')}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
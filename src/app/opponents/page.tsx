@@ -0,0 +1,110 @@
+import Link from 'next/link'
+import { getNemesisBowlers, getOpponentTeams } from '@/lib/services/stats-service'
+import { formatDate } from '@/lib/utils'
+
+export const dynamic = 'force-dynamic'
+
+export default async function OpponentsPage() {
+  const teams = await getOpponentTeams()
+  const nemesisBowlers = await getNemesisBowlers()
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <h1 className="text-3xl font-bold text-white mb-2">
+        Opponent <span className="text-ucla-gold">Scouting</span>
+      </h1>
+      <p className="text-muted-foreground mb-8">
+        Every team we have played, and the bowlers who trouble our batters
+      </p>
+
+      <div className="grid gap-8 lg:grid-cols-2">
+        <div className="bg-card rounded-lg border border-border overflow-hidden">
+          <div className="bg-ucla-blue px-4 py-3">
+            <h2 className="text-lg font-bold text-white">Teams</h2>
+          </div>
+
+          {teams.length === 0 ? (
+            <div className="p-8 text-center text-muted-foreground">
+              No opponents yet. Upload match scorecards to start scouting.
+            </div>
+          ) : (
+            <table className="w-full">
+              <thead>
+                <tr className="bg-muted text-muted-foreground text-sm">
+                  <th className="px-4 py-3 text-left font-medium">Team</th>
+                  <th className="px-4 py-3 text-center font-medium">M</th>
+                  <th className="px-4 py-3 text-center font-medium">W</th>
+                  <th className="px-4 py-3 text-center font-medium">L</th>
+                  <th className="px-4 py-3 text-right font-medium">Last Played</th>
+                </tr>
+              </thead>
+              <tbody>
+                {teams.map((team) => (
+                  <tr
+                    key={team.team}
+                    className="border-b border-border hover:bg-muted/50 transition-colors"
+                  >
+                    <td className="px-4 py-3">
+                      <Link
+                        href={`/opponents/${encodeURIComponent(team.team)}`}
+                        className="font-medium text-white hover:text-ucla-gold transition-colors"
+                      >
+                        {team.team}
+                      </Link>
+                    </td>
+                    <td className="px-4 py-3 text-center">{team.matches}</td>
+                    <td className="px-4 py-3 text-center text-green-400">{team.wins}</td>
+                    <td className="px-4 py-3 text-center text-red-400">{team.losses}</td>
+                    <td className="px-4 py-3 text-right text-muted-foreground">{formatDate(team.lastPlayed)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="bg-card rounded-lg border border-border overflow-hidden">
+          <div className="bg-ucla-blue px-4 py-3">
+            <h2 className="text-lg font-bold text-white">Most Dismissals of Our Batters</h2>
+          </div>
+
+          {nemesisBowlers.length === 0 ? (
+            <div className="p-8 text-center text-muted-foreground">
+              No opponent wickets recorded yet.
+            </div>
+          ) : (
+            <table className="w-full">
+              <thead>
+                <tr className="bg-muted text-muted-foreground text-sm">
+                  <th className="px-4 py-3 text-left font-medium">Bowler</th>
+                  <th className="px-4 py-3 text-center font-medium">Wkts</th>
+                  <th className="px-4 py-3 text-left font-medium">Victims</th>
+                </tr>
+              </thead>
+              <tbody>
+                {nemesisBowlers.slice(0, 15).map((bowler) => (
+                  <tr
+                    key={bowler.opponentPlayerId}
+                    className="border-b border-border hover:bg-muted/50 transition-colors"
+                  >
+                    <td className="px-4 py-3">
+                      <div className="font-medium text-white">{bowler.playerName}</div>
+                      <Link
+                        href={`/opponents/${encodeURIComponent(bowler.teamName)}`}
+                        className="text-xs text-muted-foreground hover:text-ucla-gold transition-colors"
+                      >
+                        {bowler.teamName}
+                      </Link>
+                    </td>
+                    <td className="px-4 py-3 text-center font-bold text-ucla-gold">{bowler.wickets}</td>
+                    <td className="px-4 py-3 text-sm text-muted-foreground">{bowler.victims.join(', ')}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,7 +1,9 @@
 import Link from 'next/link'
 import { StatsCard } from '@/components/ui/stats-card'
+import { PlayerAvatar } from '@/components/player-avatar'
 import { getSeasonStats, getTopPerformers, getRecentMatches } from '@/lib/services/stats-service'
-import { formatDate } from '@/lib/utils'
+import { formatDate, formatInningsScore } from '@/lib/utils'
+import type { Innings } from '@/types/models'
 
 export const dynamic = 'force-dynamic'
 
@@ -84,6 +86,7 @@ export default async function Dashboard() {
         <StatsCard
           title="Avg Team Score"
           value={seasonStats.avgTeamScore.toFixed(1)}
+          subtitle={`${seasonStats.avgOpponentScore.toFixed(1)} against`}
           icon="bar-chart"
         />
         <StatsCard
@@ -110,9 +113,11 @@ export default async function Dashboard() {
             </div>
             {topPerformers.topRunScorer ? (
               <div className="flex items-center gap-4">
-                <div className="w-14 h-14 rounded-full bg-ucla-blue flex items-center justify-center text-xl font-bold text-white">
-                  {topPerformers.topRunScorer.name.charAt(0)}
-                </div>
+                <PlayerAvatar
+                  name={topPerformers.topRunScorer.name}
+                  photoUrl={topPerformers.topRunScorer.photoUrl}
+                  className="w-14 h-14 text-xl bg-ucla-blue"
+                />
                 <div>
                   <p className="font-bold text-white">{topPerformers.topRunScorer.name}</p>
                   <p className="text-2xl font-bold text-ucla-gold">{topPerformers.topRunScorer.runs}</p>
@@ -132,9 +137,11 @@ export default async function Dashboard() {
             </div>
             {topPerformers.bestAverage ? (
               <div className="flex items-center gap-4">
-                <div className="w-14 h-14 rounded-full bg-ucla-blue flex items-center justify-center text-xl font-bold text-white">
-                  {topPerformers.bestAverage.name.charAt(0)}
-                </div>
+                <PlayerAvatar
+                  name={topPerformers.bestAverage.name}
+                  photoUrl={topPerformers.bestAverage.photoUrl}
+                  className="w-14 h-14 text-xl bg-ucla-blue"
+                />
                 <div>
                   <p className="font-bold text-white">{topPerformers.bestAverage.name}</p>
                   <p className="text-2xl font-bold text-ucla-gold">{topPerformers.bestAverage.average.toFixed(2)}</p>
@@ -154,9 +161,11 @@ export default async function Dashboard() {
             </div>
             {topPerformers.bestStrikeRate ? (
               <div className="flex items-center gap-4">
-                <div className="w-14 h-14 rounded-full bg-ucla-blue flex items-center justify-center text-xl font-bold text-white">
-                  {topPerformers.bestStrikeRate.name.charAt(0)}
-                </div>
+                <PlayerAvatar
+                  name={topPerformers.bestStrikeRate.name}
+                  photoUrl={topPerformers.bestStrikeRate.photoUrl}
+                  className="w-14 h-14 text-xl bg-ucla-blue"
+                />
                 <div>
                   <p className="font-bold text-white">{topPerformers.bestStrikeRate.name}</p>
                   <p className="text-2xl font-bold text-ucla-gold">{topPerformers.bestStrikeRate.strikeRate.toFixed(1)}</p>
@@ -184,9 +193,11 @@ export default async function Dashboard() {
             </div>
             {topPerformers.topWicketTaker ? (
               <div className="flex items-center gap-4">
-                <div className="w-14 h-14 rounded-full bg-green-700 flex items-center justify-center text-xl font-bold text-white">
-                  {topPerformers.topWicketTaker.name.charAt(0)}
-                </div>
+                <PlayerAvatar
+                  name={topPerformers.topWicketTaker.name}
+                  photoUrl={topPerformers.topWicketTaker.photoUrl}
+                  className="w-14 h-14 text-xl bg-green-700"
+                />
                 <div>
                   <p className="font-bold text-white">{topPerformers.topWicketTaker.name}</p>
                   <p className="text-2xl font-bold text-green-400">{topPerformers.topWicketTaker.wickets}</p>
@@ -206,9 +217,11 @@ export default async function Dashboard() {
             </div>
             {topPerformers.bestBowlingAverage ? (
               <div className="flex items-center gap-4">
-                <div className="w-14 h-14 rounded-full bg-green-700 flex items-center justify-center text-xl font-bold text-white">
-                  {topPerformers.bestBowlingAverage.name.charAt(0)}
-                </div>
+                <PlayerAvatar
+                  name={topPerformers.bestBowlingAverage.name}
+                  photoUrl={topPerformers.bestBowlingAverage.photoUrl}
+                  className="w-14 h-14 text-xl bg-green-700"
+                />
                 <div>
                   <p className="font-bold text-white">{topPerformers.bestBowlingAverage.name}</p>
                   <p className="text-2xl font-bold text-green-400">{topPerformers.bestBowlingAverage.average.toFixed(2)}</p>
@@ -228,9 +241,11 @@ export default async function Dashboard() {
             </div>
             {topPerformers.bestEconomy ? (
               <div className="flex items-center gap-4">
-                <div className="w-14 h-14 rounded-full bg-green-700 flex items-center justify-center text-xl font-bold text-white">
-                  {topPerformers.bestEconomy.name.charAt(0)}
-                </div>
+                <PlayerAvatar
+                  name={topPerformers.bestEconomy.name}
+                  photoUrl={topPerformers.bestEconomy.photoUrl}
+                  className="w-14 h-14 text-xl bg-green-700"
+                />
                 <div>
                   <p className="font-bold text-white">{topPerformers.bestEconomy.name}</p>
                   <p className="text-2xl font-bold text-green-400">{topPerformers.bestEconomy.economy.toFixed(2)}</p>
@@ -258,9 +273,11 @@ export default async function Dashboard() {
             </div>
             {topPerformers.topFielder ? (
               <div className="flex items-center gap-4">
-                <div className="w-14 h-14 rounded-full bg-purple-700 flex items-center justify-center text-xl font-bold text-white">
-                  {topPerformers.topFielder.name.charAt(0)}
-                </div>
+                <PlayerAvatar
+                  name={topPerformers.topFielder.name}
+                  photoUrl={topPerformers.topFielder.photoUrl}
+                  className="w-14 h-14 text-xl bg-purple-700"
+                />
                 <div>
                   <p className="font-bold text-white">{topPerformers.topFielder.name}</p>
                   <p className="text-2xl font-bold text-purple-400">{topPerformers.topFielder.dismissals}</p>
@@ -307,11 +324,11 @@ export default async function Dashboard() {
                   </div>
                   <div className="text-right font-mono text-sm">
                     <span className={match.result === 'win' ? 'text-ucla-gold' : ''}>
-                      {match.our_score || '-'}
+                      {formatInningsScore(match.innings.find((inn: Innings) => inn.is_our_innings && !inn.is_super_over))}
                     </span>
                     <span className="text-muted-foreground mx-1">vs</span>
                     <span className={match.result === 'loss' ? 'text-red-400' : ''}>
-                      {match.opponent_score || '-'}
+                      {formatInningsScore(match.innings.find((inn: Innings) => !inn.is_our_innings && !inn.is_super_over))}
                     </span>
                   </div>
                 </Link>
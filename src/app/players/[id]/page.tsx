@@ -4,7 +4,11 @@ import { useState, useEffect } from 'react'
 import Link from 'next/link'
 import { useRouter } from 'next/navigation'
 import { supabase } from '@/lib/supabase/client'
-import { formatScore, formatStat, formatDate, getInitials } from '@/lib/utils'
+import { formatScore, formatStat, formatDate } from '@/lib/utils'
+import { calculateDismissalBreakdown } from '@/lib/services/stats-service'
+import { DISMISSAL_LABELS } from '@/lib/parsers/dismissal-parser'
+import { PlayerAvatar } from '@/components/player-avatar'
+import type { DismissalKind, PlayerContactInfo } from '@/types/models'
 
 interface PlayerData {
   id: string
@@ -12,6 +16,8 @@ interface PlayerData {
   aliases: string[]
   year?: string
   major?: string
+  photo_url?: string
+  contact_info?: PlayerContactInfo
   battingSeasonStats: any[]
   bowlingSeasonStats: any[]
   fieldingSeasonStats: any[]
@@ -26,6 +32,10 @@ export default function PlayerProfilePage({ params }: { params: { id: string } }
   const [newAlias, setNewAlias] = useState('')
   const [addingAlias, setAddingAlias] = useState(false)
   const [editingAliases, setEditingAliases] = useState(false)
+  const [editingProfile, setEditingProfile] = useState(false)
+  const [profileForm, setProfileForm] = useState({ year: '', major: '', email: '', phone: '', instagram: '' })
+  const [savingProfile, setSavingProfile] = useState(false)
+  const [profileError, setProfileError] = useState<string | null>(null)
 
   useEffect(() => {
     loadPlayer()
@@ -116,19 +126,15 @@ export default function PlayerProfilePage({ params }: { params: { id: string } }
     
     setAddingAlias(true)
     try {
-      const { error } = await supabase
-        .from('player_aliases')
-        .insert({
-          player_id: player.id,
-          alias: newAlias.trim(),
-        })
+      const response = await fetch('/api/players/aliases', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ playerId: player.id, alias: newAlias }),
+      })
+      const data = await response.json()
       
-      if (error) {
-        if (error.code === '23505') {
-          alert('This alias already exists')
-        } else {
-          alert('Failed to add alias')
-        }
+      if (!data.success) {
+        alert(data.error || 'Failed to add alias')
       } else {
         setNewAlias('')
         loadPlayer()
@@ -146,14 +152,12 @@ export default function PlayerProfilePage({ params }: { params: { id: string } }
     if (!confirm(`Remove alias "${alias}"?`)) return
     
     try {
-      const { error } = await supabase
-        .from('player_aliases')
-        .delete()
-        .eq('player_id', player.id)
-        .eq('alias', alias)
+      const params = new URLSearchParams({ playerId: player.id, alias })
+      const response = await fetch(`/api/players/aliases?${params}`, { method: 'DELETE' })
+      const data = await response.json()
       
-      if (error) {
-        alert('Failed to remove alias')
+      if (!data.success) {
+        alert(data.error || 'Failed to remove alias')
       } else {
         loadPlayer()
       }
@@ -162,6 +166,83 @@ export default function PlayerProfilePage({ params }: { params: { id: string } }
     }
   }
 
+  function startEditingProfile() {
+    if (!player) return
+    
+    setProfileForm({
+      year: player.year || '',
+      major: player.major || '',
+      email: player.contact_info?.email || '',
+      phone: player.contact_info?.phone || '',
+      instagram: player.contact_info?.instagram || '',
+    })
+    setProfileError(null)
+    setEditingProfile(true)
+  }
+
+  async function saveProfile() {
+    if (!player) return
+    
+    setSavingProfile(true)
+    setProfileError(null)
+    try {
+      const { year, major, ...contactInfo } = profileForm
+      const response = await fetch(`/api/players/${player.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ year, major, contactInfo }),
+      })
+      const data = await response.json()
+      
+      if (data.success) {
+        setEditingProfile(false)
+        loadPlayer()
+      } else {
+        setProfileError(data.error || 'Failed to save profile')
+      }
+    } catch (err) {
+      setProfileError('Failed to save profile')
+    } finally {
+      setSavingProfile(false)
+    }
+  }
+
+  async function uploadPhoto(file: File) {
+    if (!player) return
+    
+    setSavingProfile(true)
+    setProfileError(null)
+    try {
+      const formData = new FormData()
+      formData.append('photo', file)
+      const response = await fetch(`/api/players/${player.id}/photo`, { method: 'POST', body: formData })
+      const data = await response.json()
+      
+      if (data.success) {
+        setPlayer({ ...player, photo_url: data.photoUrl })
+      } else {
+        setProfileError(data.error || 'Failed to upload photo')
+      }
+    } catch (err) {
+      setProfileError('Failed to upload photo')
+    } finally {
+      setSavingProfile(false)
+    }
+  }
+
+  async function removePhoto() {
+    if (!player || !confirm('Remove this photo?')) return
+    
+    const response = await fetch(`/api/players/${player.id}/photo`, { method: 'DELETE' })
+    const data = await response.json()
+    
+    if (data.success) {
+      setPlayer({ ...player, photo_url: undefined })
+    } else {
+      setProfileError(data.error || 'Failed to remove photo')
+    }
+  }
+
   if (loading) {
     return (
       <div className="container mx-auto px-4 py-8">
@@ -186,13 +267,41 @@ export default function PlayerProfilePage({ params }: { params: { id: string } }
   const currentBattingStats = player.battingSeasonStats?.[0]
   const currentBowlingStats = player.bowlingSeasonStats?.[0]
   const currentFieldingStats = player.fieldingSeasonStats?.[0]
+  
+  // Career dismissals by kind, most frequent first
+  const dismissalBreakdown = Object.entries(calculateDismissalBreakdown(player.battingPerformances))
+    .sort(([, a], [, b]) => (b || 0) - (a || 0)) as [DismissalKind, number][]
+  const totalDismissals = dismissalBreakdown.reduce((sum, [, count]) => sum + count, 0)
 
   return (
     <div className="container mx-auto px-4 py-8">
       {/* Header */}
       <div className="flex items-start gap-6 mb-8">
-        <div className="w-24 h-24 rounded-full bg-ucla-blue flex items-center justify-center text-4xl font-bold text-white">
-          {getInitials(player.name)}
+        <div className="flex flex-col items-center gap-2">
+          <PlayerAvatar name={player.name} photoUrl={player.photo_url} className="w-24 h-24 text-4xl" />
+          {editingProfile && (
+            <div className="flex flex-col items-center gap-1 text-xs">
+              <label className="text-ucla-blue hover:text-ucla-gold cursor-pointer">
+                {player.photo_url ? 'Change Photo' : 'Upload Photo'}
+                <input
+                  type="file"
+                  accept="image/jpeg,image/png,image/webp,image/gif"
+                  className="hidden"
+                  disabled={savingProfile}
+                  onChange={(e) => {
+                    const file = e.target.files?.[0]
+                    if (file) uploadPhoto(file)
+                    e.target.value = ''
+                  }}
+                />
+              </label>
+              {player.photo_url && (
+                <button onClick={removePhoto} className="text-red-400 hover:text-red-300">
+                  Remove Photo
+                </button>
+              )}
+            </div>
+          )}
         </div>
         <div className="flex-1">
           <h1 className="text-3xl font-bold text-white">{player.name}</h1>
@@ -226,6 +335,18 @@ export default function PlayerProfilePage({ params }: { params: { id: string } }
               >
                 {editingAliases ? 'Done' : '+ Manage Aliases'}
               </button>
+              <button
+                onClick={() => editingProfile ? setEditingProfile(false) : startEditingProfile()}
+                className="text-xs text-ucla-blue hover:text-ucla-gold"
+              >
+                {editingProfile ? 'Cancel Editing' : 'Edit Profile'}
+              </button>
+              <Link
+                href={`/players/${player.id}/split`}
+                className="text-xs text-ucla-blue hover:text-ucla-gold"
+              >
+                Split Player
+              </Link>
             </div>
             
             {/* Add Alias Form */}
@@ -250,11 +371,57 @@ export default function PlayerProfilePage({ params }: { params: { id: string } }
             )}
           </div>
           
-          {player.year && player.major && (
+          {(player.year || player.major) && (
             <p className="text-muted-foreground mt-2">
-              {player.year} • {player.major}
+              {[player.year, player.major].filter(Boolean).join(' • ')}
+            </p>
+          )}
+          
+          {player.contact_info && (
+            <p className="text-sm text-muted-foreground mt-1 flex flex-wrap gap-x-4">
+              {player.contact_info.email && (
+                <a href={`mailto:${player.contact_info.email}`} className="hover:text-ucla-gold">
+                  {player.contact_info.email}
+                </a>
+              )}
+              {player.contact_info.phone && <span>{player.contact_info.phone}</span>}
+              {player.contact_info.instagram && <span>@{player.contact_info.instagram.replace(/^@/, '')}</span>}
             </p>
           )}
+          
+          {/* Edit Profile Form */}
+          {editingProfile && (
+            <div className="mt-4 bg-card rounded-lg p-4 border border-border max-w-2xl">
+              {profileError && (
+                <p className="mb-3 text-sm text-red-400">{profileError}</p>
+              )}
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                {([
+                  ['year', 'Year (e.g., Junior, 2026)'],
+                  ['major', 'Major'],
+                  ['email', 'Email'],
+                  ['phone', 'Phone'],
+                  ['instagram', 'Instagram handle'],
+                ] as [keyof typeof profileForm, string][]).map(([field, placeholder]) => (
+                  <input
+                    key={field}
+                    type={field === 'email' ? 'email' : 'text'}
+                    value={profileForm[field]}
+                    onChange={(e) => setProfileForm({ ...profileForm, [field]: e.target.value })}
+                    placeholder={placeholder}
+                    className="px-3 py-1.5 bg-background border border-border rounded text-sm text-white placeholder:text-muted-foreground"
+                  />
+                ))}
+              </div>
+              <button
+                onClick={saveProfile}
+                disabled={savingProfile}
+                className="mt-3 px-3 py-1.5 bg-ucla-blue text-white rounded text-sm hover:bg-ucla-blue/90 disabled:opacity-50"
+              >
+                {savingProfile ? 'Saving...' : 'Save Profile'}
+              </button>
+            </div>
+          )}
         </div>
       </div>
 
@@ -291,6 +458,26 @@ export default function PlayerProfilePage({ params }: { params: { id: string } }
         </div>
       )}
 
+      {/* How Out */}
+      {totalDismissals > 0 && (
+        <div className="mb-8">
+          <h2 className="text-xl font-semibold text-white mb-4">How Out</h2>
+          <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-4">
+            {dismissalBreakdown.map(([kind, count]) => (
+              <div key={kind} className="bg-card rounded-lg p-4 border border-border">
+                <p className="text-sm text-muted-foreground">{DISMISSAL_LABELS[kind]}</p>
+                <p className="text-2xl font-bold text-white">
+                  {count}
+                  <span className="ml-2 text-sm font-normal text-muted-foreground">
+                    {formatStat((count / totalDismissals) * 100, 0)}%
+                  </span>
+                </p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Bowling Stats Summary */}
       {currentBowlingStats && currentBowlingStats.total_balls > 0 && (
         <div className="mb-8">
@@ -0,0 +1,251 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { supabase } from '@/lib/supabase/client'
+import { cn, formatDate } from '@/lib/utils'
+import { summarizePerformance } from '@/lib/services/player-service'
+
+type PerformanceType = 'batting' | 'bowling' | 'fielding'
+
+interface SplitRow {
+  id: string
+  label: string // Match and innings
+  figures: string
+}
+
+const PERFORMANCE_TABLES: Record<PerformanceType, string> = {
+  batting: 'batting_performances',
+  bowling: 'bowling_performances',
+  fielding: 'fielding_performances',
+}
+
+export default function SplitPlayerPage({ params }: { params: { id: string } }) {
+  const router = useRouter()
+  const [playerName, setPlayerName] = useState('')
+  const [rows, setRows] = useState<Record<PerformanceType, SplitRow[]>>({ batting: [], bowling: [], fielding: [] })
+  const [aliases, setAliases] = useState<{ id: string; alias: string }[]>([])
+  const [players, setPlayers] = useState<{ id: string; name: string }[]>([])
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [target, setTarget] = useState({ playerId: '', newName: '' })
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    loadData()
+  }, [params.id])
+
+  async function loadData() {
+    setLoading(true)
+
+    const { data: player } = await supabase
+      .from('players')
+      .select('id, name')
+      .eq('id', params.id)
+      .single()
+
+    if (!player) {
+      router.push('/players')
+      return
+    }
+
+    const loaded: Record<PerformanceType, SplitRow[]> = { batting: [], bowling: [], fielding: [] }
+    for (const type of Object.keys(PERFORMANCE_TABLES) as PerformanceType[]) {
+      const { data } = await supabase
+        .from(PERFORMANCE_TABLES[type])
+        .select(`
+          *,
+          match:matches(date, opponent)
+        `)
+        .eq('player_id', params.id)
+        .order('match(date)', { ascending: false })
+
+      loaded[type] = (data || []).map(row => ({
+        id: row.id,
+        label: `vs ${row.match?.opponent || 'Unknown'} • ${row.match ? formatDate(row.match.date) : ''}${row.innings_number > 2 ? ` (innings ${row.innings_number})` : ''}`,
+        figures: summarizePerformance(row),
+      }))
+    }
+
+    const { data: aliasData } = await supabase
+      .from('player_aliases')
+      .select('id, alias')
+      .eq('player_id', params.id)
+      .order('alias')
+
+    const { data: playerList } = await supabase
+      .from('players')
+      .select('id, name')
+      .neq('id', params.id)
+      .order('name')
+
+    setPlayerName(player.name)
+    setRows(loaded)
+    setAliases(aliasData || [])
+    setPlayers(playerList || [])
+    setSelected(new Set())
+    setLoading(false)
+  }
+
+  const toggle = (id: string) => {
+    const next = new Set(selected)
+    if (next.has(id)) {
+      next.delete(id)
+    } else {
+      next.add(id)
+    }
+    setSelected(next)
+  }
+
+  const handleSplit = async () => {
+    const destination = target.playerId
+      ? players.find(p => p.id === target.playerId)?.name
+      : target.newName.trim()
+    if (!confirm(`Move ${selected.size} item(s) from ${playerName} to ${destination}?`)) return
+
+    setSaving(true)
+    setError(null)
+
+    try {
+      const picked = (list: { id: string }[]) => list.filter(item => selected.has(item.id)).map(item => item.id)
+      const response = await fetch(`/api/players/${params.id}/split`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          batting: picked(rows.batting),
+          bowling: picked(rows.bowling),
+          fielding: picked(rows.fielding),
+          aliases: picked(aliases),
+          targetPlayerId: target.playerId || undefined,
+          newPlayerName: target.playerId ? undefined : target.newName.trim(),
+        }),
+      })
+      const data = await response.json()
+
+      if (data.success) {
+        router.push(`/players/${data.playerId}`)
+      } else {
+        setError(data.error || 'Failed to split player')
+      }
+    } catch (err) {
+      setError('Failed to split player')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="text-center py-12 text-muted-foreground">
+          Loading player...
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <Link href={`/players/${params.id}`} className="text-sm text-muted-foreground hover:text-ucla-gold">
+        ← Back to {playerName}
+      </Link>
+      <h1 className="text-3xl font-bold text-white mt-2 mb-2">
+        Split <span className="text-ucla-gold">{playerName}</span>
+      </h1>
+      <p className="text-muted-foreground mb-8">
+        Pick the performances and aliases that belong to someone else and move them in one go.
+        Season stats are recalculated for both players.
+      </p>
+
+      {error && (
+        <div className="mb-6 p-4 rounded-lg bg-red-900/50 text-red-300">
+          {error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {(Object.keys(PERFORMANCE_TABLES) as PerformanceType[]).map((type) => (
+          <div key={type} className="bg-card rounded-lg border border-border overflow-hidden">
+            <div className="p-4 border-b border-border">
+              <h2 className="text-lg font-semibold text-white capitalize">{type} ({rows[type].length})</h2>
+            </div>
+            {rows[type].length === 0 ? (
+              <p className="p-4 text-sm text-muted-foreground">No {type} performances</p>
+            ) : (
+              <div className="divide-y divide-border max-h-80 overflow-y-auto">
+                {rows[type].map((row) => (
+                  <label
+                    key={row.id}
+                    className={cn(
+                      'flex items-center gap-3 p-3 text-sm cursor-pointer hover:bg-muted/50',
+                      selected.has(row.id) && 'bg-ucla-blue/20'
+                    )}
+                  >
+                    <input type="checkbox" checked={selected.has(row.id)} onChange={() => toggle(row.id)} />
+                    <span className="flex-1 text-white">{row.label}</span>
+                    <span className="text-muted-foreground">{row.figures}</span>
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+
+        <div className="bg-card rounded-lg border border-border overflow-hidden">
+          <div className="p-4 border-b border-border">
+            <h2 className="text-lg font-semibold text-white">Aliases ({aliases.length})</h2>
+          </div>
+          {aliases.length === 0 ? (
+            <p className="p-4 text-sm text-muted-foreground">No aliases</p>
+          ) : (
+            <div className="divide-y divide-border">
+              {aliases.map((alias) => (
+                <label key={alias.id} className="flex items-center gap-3 p-3 text-sm cursor-pointer hover:bg-muted/50">
+                  <input type="checkbox" checked={selected.has(alias.id)} onChange={() => toggle(alias.id)} />
+                  <span className="text-white">{alias.alias}</span>
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Destination */}
+      <div className="bg-card rounded-lg p-6 border border-border mt-6">
+        <h2 className="text-lg font-semibold text-white mb-4">Move To</h2>
+        <div className="flex flex-wrap items-center gap-4">
+          <select
+            value={target.playerId}
+            onChange={(e) => setTarget({ playerId: e.target.value, newName: '' })}
+            className="bg-background border border-border rounded-md px-3 py-2 text-white"
+          >
+            <option value="">A new player...</option>
+            {players.map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.name}
+              </option>
+            ))}
+          </select>
+          {!target.playerId && (
+            <input
+              type="text"
+              value={target.newName}
+              onChange={(e) => setTarget({ ...target, newName: e.target.value })}
+              placeholder="New player's name"
+              className="bg-background border border-border rounded-md px-3 py-2 text-white"
+            />
+          )}
+          <Button
+            onClick={handleSplit}
+            disabled={saving || selected.size === 0 || (!target.playerId && !target.newName.trim())}
+          >
+            {saving ? 'Moving...' : `Move ${selected.size} Item(s)`}
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
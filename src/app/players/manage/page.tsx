@@ -1,8 +1,10 @@
 'use client'
 
 import { useState, useEffect } from 'react'
+import Link from 'next/link'
 import { Button } from '@/components/ui/button'
 import { cn } from '@/lib/utils'
+import type { PlayerMergeChoice, PlayerMergeConflict } from '@/types/models'
 
 interface Player {
   id: string
@@ -10,11 +12,21 @@ interface Player {
   aliases: string[]
 }
 
+interface MergePreview {
+  source: { id: string; name: string }
+  target: { id: string; name: string }
+  counts: Record<string, number>
+  conflicts: PlayerMergeConflict[]
+}
+
 export default function ManagePlayersPage() {
   const [players, setPlayers] = useState<Player[]>([])
   const [loading, setLoading] = useState(true)
   const [newPlayerName, setNewPlayerName] = useState('')
   const [newAlias, setNewAlias] = useState<{ playerId: string; alias: string } | null>(null)
+  const [merge, setMerge] = useState({ sourceId: '', targetId: '' })
+  const [mergePreview, setMergePreview] = useState<MergePreview | null>(null)
+  const [mergeChoices, setMergeChoices] = useState<Record<string, PlayerMergeChoice>>({})
   const [saving, setSaving] = useState(false)
   const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
 
@@ -97,6 +109,68 @@ export default function ManagePlayersPage() {
     }
   }
 
+  const updateMerge = (field: 'sourceId' | 'targetId', value: string) => {
+    setMerge({ ...merge, [field]: value })
+    setMergePreview(null)
+    setMergeChoices({})
+  }
+
+  const handleCheckMerge = async () => {
+    if (!merge.sourceId || !merge.targetId) return
+    
+    setSaving(true)
+    setMessage(null)
+    
+    try {
+      const params = new URLSearchParams(merge)
+      const response = await fetch(`/api/players/merge?${params}`)
+      const data = await response.json()
+      
+      if (data.success) {
+        setMergePreview(data)
+        setMergeChoices({})
+      } else {
+        setMessage({ type: 'error', text: data.error || 'Failed to check merge' })
+      }
+    } catch (error) {
+      setMessage({ type: 'error', text: 'Failed to check merge' })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleMerge = async () => {
+    if (!mergePreview) return
+    if (!confirm(`Merge ${mergePreview.source.name} into ${mergePreview.target.name}? ${mergePreview.source.name} will be deleted.`)) return
+    
+    setSaving(true)
+    setMessage(null)
+    
+    try {
+      const response = await fetch('/api/players/merge', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...merge, choices: mergeChoices }),
+      })
+      const data = await response.json()
+      
+      if (data.success) {
+        setMessage({ type: 'success', text: data.message })
+        setMerge({ sourceId: '', targetId: '' })
+        setMergePreview(null)
+        setMergeChoices({})
+        fetchPlayers()
+      } else {
+        if (data.conflicts) setMergePreview({ ...mergePreview, conflicts: data.conflicts })
+        setMessage({ type: 'error', text: data.error || 'Failed to merge players' })
+      }
+    } catch (error) {
+      setMessage({ type: 'error', text: 'Failed to merge players' })
+    } finally {
+      setSaving(false)
+    }
+  }
+
   if (loading) {
     return (
       <div className="container mx-auto px-4 py-8">
@@ -114,7 +188,14 @@ export default function ManagePlayersPage() {
         Manage <span className="text-ucla-gold">Players</span>
       </h1>
       <p className="text-muted-foreground mb-8">
-        Add players and manage their aliases for name resolution
+        Add players and manage their aliases for name resolution.{' '}
+        <Link href="/players/review" className="text-ucla-gold hover:underline">
+          Review unresolved scorecard names
+        </Link>
+        {' • '}
+        <Link href="/players/roster" className="text-ucla-gold hover:underline">
+          Import a roster
+        </Link>
       </p>
 
       {/* Message */}
@@ -145,6 +226,97 @@ export default function ManagePlayersPage() {
         </div>
       </div>
 
+      {/* Merge Players */}
+      <div className="bg-card rounded-lg p-6 border border-border mb-8">
+        <h2 className="text-xl font-semibold text-white mb-1">Merge Players</h2>
+        <p className="text-sm text-muted-foreground mb-4">
+          Combine a duplicate into the player to keep. Aliases, overrides and performances move across
+          and the duplicate&apos;s name becomes an alias.
+        </p>
+        <div className="flex flex-wrap items-center gap-4">
+          <select
+            value={merge.sourceId}
+            onChange={(e) => updateMerge('sourceId', e.target.value)}
+            className="bg-background border border-border rounded-md px-3 py-2 text-white"
+          >
+            <option value="">Duplicate to remove...</option>
+            {players.map((player) => (
+              <option key={player.id} value={player.id}>
+                {player.name}
+              </option>
+            ))}
+          </select>
+          <span className="text-muted-foreground">into</span>
+          <select
+            value={merge.targetId}
+            onChange={(e) => updateMerge('targetId', e.target.value)}
+            className="bg-background border border-border rounded-md px-3 py-2 text-white"
+          >
+            <option value="">Player to keep...</option>
+            {players
+              .filter(player => player.id !== merge.sourceId)
+              .map((player) => (
+                <option key={player.id} value={player.id}>
+                  {player.name}
+                </option>
+              ))}
+          </select>
+          <Button
+            variant="outline"
+            onClick={handleCheckMerge}
+            disabled={saving || !merge.sourceId || !merge.targetId}
+          >
+            Check Merge
+          </Button>
+        </div>
+
+        {mergePreview && (
+          <div className="mt-4">
+            <p className="text-sm text-white">
+              Moves {mergePreview.counts.batting} batting, {mergePreview.counts.bowling} bowling
+              and {mergePreview.counts.fielding} fielding performances, {mergePreview.counts.aliases} alias(es)
+              and {mergePreview.counts.overrides} override(s) from {mergePreview.source.name} to {mergePreview.target.name}.
+            </p>
+
+            {mergePreview.conflicts.length > 0 && (
+              <div className="mt-3 p-3 bg-orange-900/30 border border-orange-600/50 rounded">
+                <p className="text-sm font-medium text-orange-400 mb-2">
+                  Both players have a performance in these innings - choose which to keep
+                </p>
+                <div className="space-y-2">
+                  {mergePreview.conflicts.map((conflict) => (
+                    <div key={conflict.key} className="flex flex-wrap items-center gap-4 text-sm">
+                      <span className="text-white w-64">
+                        {conflict.matchLabel} • {conflict.type} (innings {conflict.inningsNumber})
+                      </span>
+                      {(['source', 'target'] as const).map((side) => (
+                        <label key={side} className="flex items-center gap-2 text-muted-foreground">
+                          <input
+                            type="radio"
+                            name={conflict.key}
+                            checked={mergeChoices[conflict.key] === side}
+                            onChange={() => setMergeChoices({ ...mergeChoices, [conflict.key]: side })}
+                          />
+                          {side === 'source' ? mergePreview.source.name : mergePreview.target.name}: {conflict[side]}
+                        </label>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <Button
+              className="mt-4"
+              onClick={handleMerge}
+              disabled={saving || mergePreview.conflicts.some(conflict => !mergeChoices[conflict.key])}
+            >
+              {saving ? 'Merging...' : `Merge into ${mergePreview.target.name}`}
+            </Button>
+          </div>
+        )}
+      </div>
+
       {/* Player List */}
       <div className="bg-card rounded-lg border border-border overflow-hidden">
         <div className="p-4 border-b border-border">
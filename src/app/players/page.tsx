@@ -1,11 +1,17 @@
 import Link from 'next/link'
-import { getSeasonLeaderboard } from '@/lib/services/stats-service'
-import { formatStat, getInitials } from '@/lib/utils'
+import { getCompetitionLeaderboards, getSeasonLeaderboard } from '@/lib/services/stats-service'
+import { getCompetitions } from '@/lib/services/competition-service'
+import { cn, formatStat } from '@/lib/utils'
+import { PlayerAvatar } from '@/components/player-avatar'
 
 export const dynamic = 'force-dynamic'
 
-export default async function PlayersPage() {
-  const leaderboard = await getSeasonLeaderboard()
+export default async function PlayersPage({ searchParams }: { searchParams: { competition?: string } }) {
+  const competitions = await getCompetitions()
+  const selectedCompetition = competitions.find(competition => competition.id === searchParams.competition)
+  const leaderboard = selectedCompetition
+    ? (await getCompetitionLeaderboards(selectedCompetition.id)).batting
+    : await getSeasonLeaderboard()
 
   return (
     <div className="container mx-auto px-4 py-8">
@@ -15,7 +21,7 @@ export default async function PlayersPage() {
             Batting <span className="text-ucla-gold">Leaderboard</span>
           </h1>
           <p className="text-muted-foreground">
-            Season batting statistics and rankings
+            {selectedCompetition ? `${selectedCompetition.name} batting statistics` : 'Season batting statistics and rankings'}
           </p>
         </div>
         
@@ -27,6 +33,34 @@ export default async function PlayersPage() {
         </Link>
       </div>
 
+      {competitions.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-6">
+          <Link
+            href="/players"
+            className={cn(
+              'px-3 py-1 rounded-full text-sm border transition-colors',
+              !selectedCompetition ? 'bg-ucla-blue border-ucla-blue text-white' : 'border-border text-muted-foreground hover:text-white'
+            )}
+          >
+            All competitions
+          </Link>
+          {competitions.map((competition) => (
+            <Link
+              key={competition.id}
+              href={`/players?competition=${competition.id}`}
+              className={cn(
+                'px-3 py-1 rounded-full text-sm border transition-colors',
+                selectedCompetition?.id === competition.id
+                  ? 'bg-ucla-blue border-ucla-blue text-white'
+                  : 'border-border text-muted-foreground hover:text-white'
+              )}
+            >
+              {competition.name}{competition.seasonName && ` (${competition.seasonName})`}
+            </Link>
+          ))}
+        </div>
+      )}
+
       {leaderboard.length === 0 ? (
         <div className="text-center py-12">
           <div className="text-5xl mb-4">📊</div>
@@ -71,9 +105,7 @@ export default async function PlayersPage() {
                         href={`/players/${stat.player_id}`}
                         className="flex items-center gap-3 hover:text-ucla-gold transition-colors"
                       >
-                        <div className="w-10 h-10 rounded-full bg-ucla-blue flex items-center justify-center text-white font-bold">
-                          {getInitials(stat.player?.name || 'UN')}
-                        </div>
+                        <PlayerAvatar name={stat.player?.name || 'UN'} photoUrl={stat.player?.photo_url} />
                         <span className="font-medium">{stat.player?.name}</span>
                       </Link>
                     </td>
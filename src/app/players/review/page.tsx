@@ -0,0 +1,226 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { cn, formatDate } from '@/lib/utils'
+import type { PlayerCandidate } from '@/types/models'
+
+interface NameReview {
+  id: string
+  scorecard_name: string
+  reason: 'ambiguous' | 'unmatched'
+  candidates: PlayerCandidate[]
+  match: { id: string; date: string; opponent: string } | null
+  player: { id: string; name: string } | null
+}
+
+export default function PlayerReviewPage() {
+  const [reviews, setReviews] = useState<NameReview[]>([])
+  const [players, setPlayers] = useState<{ id: string; name: string }[]>([])
+  const [loading, setLoading] = useState(true)
+  const [selected, setSelected] = useState<Record<string, string>>({}) // review id -> player id
+  const [newNames, setNewNames] = useState<Record<string, string>>({}) // review id -> full name
+  const [saving, setSaving] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  useEffect(() => {
+    loadData()
+  }, [])
+
+  const loadData = async () => {
+    try {
+      const [reviewsResponse, playersResponse] = await Promise.all([
+        fetch('/api/player-reviews').then(r => r.json()),
+        fetch('/api/players/list').then(r => r.json()),
+      ])
+      if (reviewsResponse.success) setReviews(reviewsResponse.reviews)
+      if (playersResponse.success) setPlayers(playersResponse.players)
+    } catch (error) {
+      console.error('Error loading name reviews:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const resolveReview = async (
+    review: NameReview,
+    body: { action: 'link'; playerId: string } | { action: 'create'; name?: string },
+    successText: string
+  ) => {
+    setSaving(true)
+    setMessage(null)
+
+    try {
+      const response = await fetch(`/api/player-reviews/${review.id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+      const data = await response.json()
+
+      if (data.success) {
+        setMessage({ type: 'success', text: successText })
+        loadData()
+      } else {
+        setMessage({ type: 'error', text: data.error || 'Failed to resolve name' })
+      }
+    } catch (error) {
+      setMessage({ type: 'error', text: 'Failed to resolve name' })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const linkTo = (review: NameReview, playerId: string) => {
+    const player = players.find(p => p.id === playerId)
+    resolveReview(
+      review,
+      { action: 'link', playerId },
+      `"${review.scorecard_name}" linked to ${player?.name || 'player'}`
+    )
+  }
+
+  if (loading) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="text-center py-12">
+          <div className="text-5xl mb-4 animate-spin">⏳</div>
+          <p className="text-muted-foreground">Loading names...</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <h1 className="text-3xl font-bold text-white mb-2">
+        Unresolved <span className="text-ucla-gold">Names</span>
+      </h1>
+      <p className="text-muted-foreground mb-8">
+        Scorecard names that could not be matched to a player with confidence.
+        Link each one to an existing player or keep it as a new player.
+      </p>
+
+      {/* Message */}
+      {message && (
+        <div className={cn(
+          'mb-6 p-4 rounded-lg',
+          message.type === 'success' ? 'bg-green-900/50 text-green-300' : 'bg-red-900/50 text-red-300'
+        )}>
+          {message.text}
+        </div>
+      )}
+
+      <div className="bg-card rounded-lg border border-border overflow-hidden">
+        <div className="p-4 border-b border-border flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-white">
+            Pending Names ({reviews.length})
+          </h2>
+          <Link href="/players/manage" className="text-sm text-ucla-gold hover:underline">
+            Manage players
+          </Link>
+        </div>
+
+        {reviews.length === 0 ? (
+          <div className="p-8 text-center text-muted-foreground">
+            Every scorecard name is linked to a player.
+          </div>
+        ) : (
+          <div className="divide-y divide-border">
+            {reviews.map((review) => (
+              <div key={review.id} className="p-4">
+                <div className="flex flex-wrap items-start justify-between gap-4">
+                  <div>
+                    <h3 className="font-semibold text-white">
+                      {review.scorecard_name}
+                      <span className={cn(
+                        'ml-2 text-xs px-2 py-0.5 rounded',
+                        review.reason === 'ambiguous' ? 'bg-orange-500/20 text-orange-400' : 'bg-muted text-muted-foreground'
+                      )}>
+                        {review.reason === 'ambiguous' ? 'Fits more than one player' : 'No match'}
+                      </span>
+                    </h3>
+                    {review.match && (
+                      <p className="text-sm text-muted-foreground mt-1">
+                        <Link href={`/matches/${review.match.id}`} className="hover:text-ucla-gold">
+                          vs {review.match.opponent} • {formatDate(review.match.date)}
+                        </Link>
+                      </p>
+                    )}
+                    {review.player && (
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Stored as new player &quot;{review.player.name}&quot; for now
+                      </p>
+                    )}
+                  </div>
+
+                  {/* Suggested players */}
+                  <div className="flex flex-wrap items-center gap-2">
+                    {review.candidates.map((candidate) => (
+                      <Button
+                        key={candidate.playerId}
+                        size="sm"
+                        onClick={() => linkTo(review, candidate.playerId)}
+                        disabled={saving}
+                      >
+                        {candidate.playerName} ({Math.round(candidate.score * 100)}%)
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-2 mt-4">
+                  <select
+                    value={selected[review.id] || ''}
+                    onChange={(e) => setSelected({ ...selected, [review.id]: e.target.value })}
+                    className="bg-background border border-border rounded-md px-3 py-1.5 text-sm text-white"
+                  >
+                    <option value="">Choose a player...</option>
+                    {players
+                      .filter(p => p.id !== review.player?.id)
+                      .map((p) => (
+                        <option key={p.id} value={p.id}>
+                          {p.name}
+                        </option>
+                      ))}
+                  </select>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => linkTo(review, selected[review.id])}
+                    disabled={saving || !selected[review.id]}
+                  >
+                    Link
+                  </Button>
+
+                  <span className="text-muted-foreground text-sm mx-2">or</span>
+
+                  <input
+                    type="text"
+                    value={newNames[review.id] ?? ''}
+                    onChange={(e) => setNewNames({ ...newNames, [review.id]: e.target.value })}
+                    placeholder={`Full name (default ${review.scorecard_name})`}
+                    className="bg-background border border-border rounded-md px-3 py-1.5 text-sm text-white"
+                  />
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => resolveReview(
+                      review,
+                      { action: 'create', name: newNames[review.id] },
+                      `"${review.scorecard_name}" kept as a new player`
+                    )}
+                    disabled={saving}
+                  >
+                    Keep as New Player
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,218 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { cn } from '@/lib/utils'
+import type { RosterDiff, RosterEntry } from '@/types/models'
+
+export default function RosterImportPage() {
+  const [file, setFile] = useState<File | null>(null)
+  const [entries, setEntries] = useState<RosterEntry[]>([])
+  const [diff, setDiff] = useState<RosterDiff | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  const handlePreview = async () => {
+    if (!file) return
+
+    setLoading(true)
+    setMessage(null)
+    setDiff(null)
+
+    try {
+      const formData = new FormData()
+      formData.append('file', file)
+      const response = await fetch('/api/players/roster/preview', { method: 'POST', body: formData })
+      const data = await response.json()
+
+      if (data.success) {
+        setEntries(data.entries)
+        setDiff(data.diff)
+      } else {
+        setMessage({ type: 'error', text: data.details ? `${data.error}. ${data.details}` : data.error })
+      }
+    } catch (error) {
+      setMessage({ type: 'error', text: 'Failed to read roster' })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleApply = async () => {
+    if (!diff || !confirm('Apply these roster changes?')) return
+
+    setLoading(true)
+    setMessage(null)
+
+    try {
+      const response = await fetch('/api/players/roster', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ entries }),
+      })
+      const data = await response.json()
+
+      if (data.success) {
+        setMessage({
+          type: 'success',
+          text: `Roster applied: ${data.created} player(s) created, ${data.aliasesAdded} alias(es) added, ` +
+            `${data.updated} player(s) updated${data.skipped ? `, ${data.skipped} collision(s) skipped` : ''}`,
+        })
+        setDiff(null)
+        setEntries([])
+        setFile(null)
+      } else {
+        setMessage({ type: 'error', text: data.details ? `${data.error}. ${data.details}` : data.error || 'Failed to apply roster' })
+      }
+    } catch (error) {
+      setMessage({ type: 'error', text: 'Failed to apply roster' })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const hasChanges = diff && (diff.newPlayers.length + diff.newAliases.length + diff.updatedPlayers.length) > 0
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <h1 className="text-3xl font-bold text-white mb-2">
+        Roster <span className="text-ucla-gold">Import</span>
+      </h1>
+      <p className="text-muted-foreground mb-8">
+        Upload the club roster as CSV or XLSX with a Name column and optional Aliases, Year and Major columns.
+        Several aliases can share a cell, separated by commas.{' '}
+        <Link href="/players/manage" className="text-ucla-gold hover:underline">
+          Manage players
+        </Link>
+      </p>
+
+      {/* Message */}
+      {message && (
+        <div className={cn(
+          'mb-6 p-4 rounded-lg',
+          message.type === 'success' ? 'bg-green-900/50 text-green-300' : 'bg-red-900/50 text-red-300'
+        )}>
+          {message.text}
+        </div>
+      )}
+
+      <div className="bg-card rounded-lg p-6 border border-border mb-8">
+        <div className="flex flex-wrap items-center gap-4">
+          <input
+            type="file"
+            accept=".csv,.xlsx"
+            onChange={(e) => {
+              setFile(e.target.files?.[0] || null)
+              setDiff(null)
+            }}
+            className="text-sm text-muted-foreground"
+          />
+          <Button onClick={handlePreview} disabled={loading || !file}>
+            {loading && !diff ? 'Reading...' : 'Preview Changes'}
+          </Button>
+        </div>
+      </div>
+
+      {diff && (
+        <div className="space-y-6">
+          <p className="text-sm text-muted-foreground">
+            {entries.length} player(s) in the file • {diff.unchanged} already up to date
+          </p>
+
+          {/* New players */}
+          <div className="bg-card rounded-lg border border-border overflow-hidden">
+            <div className="p-4 border-b border-border">
+              <h2 className="text-lg font-semibold text-white">New Players ({diff.newPlayers.length})</h2>
+            </div>
+            {diff.newPlayers.length === 0 ? (
+              <p className="p-4 text-sm text-muted-foreground">No new players</p>
+            ) : (
+              <div className="divide-y divide-border">
+                {diff.newPlayers.map((entry) => (
+                  <div key={entry.row} className="p-3 text-sm flex justify-between">
+                    <span className="text-white">{entry.name}</span>
+                    <span className="text-muted-foreground">
+                      {[entry.year, entry.major].filter(Boolean).join(' • ')}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* New aliases */}
+          <div className="bg-card rounded-lg border border-border overflow-hidden">
+            <div className="p-4 border-b border-border">
+              <h2 className="text-lg font-semibold text-white">New Aliases ({diff.newAliases.length})</h2>
+            </div>
+            {diff.newAliases.length === 0 ? (
+              <p className="p-4 text-sm text-muted-foreground">No new aliases</p>
+            ) : (
+              <div className="divide-y divide-border">
+                {diff.newAliases.map((alias) => (
+                  <div key={alias.alias} className="p-3 text-sm">
+                    <span className="text-ucla-gold">&quot;{alias.alias}&quot;</span>
+                    <span className="text-muted-foreground"> → </span>
+                    <span className="text-white">{alias.playerName}</span>
+                    {!alias.playerId && <span className="text-muted-foreground"> (new)</span>}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Year and major changes */}
+          {diff.updatedPlayers.length > 0 && (
+            <div className="bg-card rounded-lg border border-border overflow-hidden">
+              <div className="p-4 border-b border-border">
+                <h2 className="text-lg font-semibold text-white">Updated Details ({diff.updatedPlayers.length})</h2>
+              </div>
+              <div className="divide-y divide-border">
+                {diff.updatedPlayers.map((player) => (
+                  <div key={player.playerId} className="p-3 text-sm flex justify-between">
+                    <span className="text-white">{player.playerName}</span>
+                    <span className="text-muted-foreground">
+                      {[player.year, player.major].filter(Boolean).join(' • ')}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Collisions */}
+          {diff.collisions.length > 0 && (
+            <div className="bg-card rounded-lg border border-orange-500/50 overflow-hidden">
+              <div className="p-4 border-b border-border">
+                <h2 className="text-lg font-semibold text-orange-400">Collisions ({diff.collisions.length})</h2>
+                <p className="text-sm text-muted-foreground">
+                  These names already belong to someone else and will be skipped. Merge or rename the players first if needed.
+                </p>
+              </div>
+              <div className="divide-y divide-border">
+                {diff.collisions.map((collision) => (
+                  <div key={`${collision.row}:${collision.name}`} className="p-3 text-sm">
+                    <span className="text-muted-foreground">Row {collision.row}: </span>
+                    <span className="text-ucla-gold">&quot;{collision.name}&quot;</span>
+                    <span className="text-muted-foreground">
+                      {collision.kind === 'player_name' ? ' as a new player' : ` for ${collision.rosterPlayer}`}
+                      {' '}is already used by{' '}
+                    </span>
+                    <span className="text-white">{collision.existingPlayer}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="flex justify-end">
+            <Button onClick={handleApply} disabled={loading || !hasChanges}>
+              {loading ? 'Applying...' : hasChanges ? 'Apply Changes' : 'Nothing to Apply'}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
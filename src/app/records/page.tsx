@@ -0,0 +1,239 @@
+import Link from 'next/link'
+import {
+  getCaptaincyRecords,
+  getKeepingStats,
+  getPartnershipRecords,
+  getSuperOverRecords,
+} from '@/lib/services/stats-service'
+import { formatDate } from '@/lib/utils'
+
+export const dynamic = 'force-dynamic'
+
+export default async function RecordsPage() {
+  const partnershipRecords = await getPartnershipRecords()
+  const captaincyRecords = await getCaptaincyRecords()
+  const keepingStats = await getKeepingStats()
+  const superOverRecords = await getSuperOverRecords()
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <h1 className="text-3xl font-bold text-white mb-2">
+        Club <span className="text-ucla-gold">Records</span>
+      </h1>
+      <p className="text-muted-foreground mb-8">
+        All-time records across every imported match
+      </p>
+
+      <div className="bg-card rounded-lg border border-border overflow-hidden">
+        <div className="bg-ucla-blue px-4 py-3">
+          <h2 className="text-lg font-bold text-white">Highest Partnership by Wicket</h2>
+        </div>
+
+        {partnershipRecords.length === 0 ? (
+          <div className="p-8 text-center text-muted-foreground">
+            No partnerships yet. Partnerships are built from the fall of wickets on imported scorecards.
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="bg-muted text-muted-foreground text-sm">
+                  <th className="px-4 py-3 text-left font-medium">Wicket</th>
+                  <th className="px-4 py-3 text-center font-medium">Runs</th>
+                  <th className="px-4 py-3 text-left font-medium">Batters</th>
+                  <th className="px-4 py-3 text-left font-medium">Match</th>
+                </tr>
+              </thead>
+              <tbody>
+                {partnershipRecords.map((record) => (
+                  <tr
+                    key={record.id}
+                    className="border-b border-border hover:bg-muted/50 transition-colors"
+                  >
+                    <td className="px-4 py-3 text-muted-foreground">{record.wicket_number}</td>
+                    <td className="px-4 py-3 text-center font-bold text-ucla-gold">
+                      {record.runs}{record.unbroken && '*'}
+                    </td>
+                    <td className="px-4 py-3">
+                      {record.batter1_id ? (
+                        <Link href={`/players/${record.batter1_id}`} className="hover:text-ucla-gold transition-colors">
+                          {record.batter1_name}
+                        </Link>
+                      ) : record.batter1_name}
+                      {' & '}
+                      {record.batter2_id ? (
+                        <Link href={`/players/${record.batter2_id}`} className="hover:text-ucla-gold transition-colors">
+                          {record.batter2_name}
+                        </Link>
+                      ) : record.batter2_name}
+                    </td>
+                    <td className="px-4 py-3">
+                      <Link
+                        href={`/matches/${record.match?.id}`}
+                        className="text-muted-foreground hover:text-ucla-gold transition-colors"
+                      >
+                        vs {record.match?.opponent} • {formatDate(record.match?.date)}
+                      </Link>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-card rounded-lg border border-border overflow-hidden mt-8">
+        <div className="bg-ucla-blue px-4 py-3">
+          <h2 className="text-lg font-bold text-white">Captaincy Record</h2>
+        </div>
+
+        {captaincyRecords.length === 0 ? (
+          <div className="p-8 text-center text-muted-foreground">
+            No captains yet. Captains are read from the * marker on imported scorecards.
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="bg-muted text-muted-foreground text-sm">
+                  <th className="px-4 py-3 text-left font-medium">Captain</th>
+                  <th className="px-4 py-3 text-center font-medium">M</th>
+                  <th className="px-4 py-3 text-center font-medium">W</th>
+                  <th className="px-4 py-3 text-center font-medium">L</th>
+                  <th className="px-4 py-3 text-center font-medium">T</th>
+                  <th className="px-4 py-3 text-center font-medium">NR</th>
+                  <th className="px-4 py-3 text-center font-medium">Win %</th>
+                </tr>
+              </thead>
+              <tbody>
+                {captaincyRecords.map((record) => (
+                  <tr
+                    key={record.playerId}
+                    className="border-b border-border hover:bg-muted/50 transition-colors"
+                  >
+                    <td className="px-4 py-3">
+                      <Link href={`/players/${record.playerId}`} className="hover:text-ucla-gold transition-colors">
+                        {record.playerName}
+                      </Link>
+                    </td>
+                    <td className="px-4 py-3 text-center">{record.matches}</td>
+                    <td className="px-4 py-3 text-center text-green-400">{record.wins}</td>
+                    <td className="px-4 py-3 text-center text-red-400">{record.losses}</td>
+                    <td className="px-4 py-3 text-center text-muted-foreground">{record.ties}</td>
+                    <td className="px-4 py-3 text-center text-muted-foreground">{record.noResults}</td>
+                    <td className="px-4 py-3 text-center font-bold text-ucla-gold">
+                      {record.winPercentage.toFixed(1)}%
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-card rounded-lg border border-border overflow-hidden mt-8">
+        <div className="bg-ucla-blue px-4 py-3">
+          <h2 className="text-lg font-bold text-white">Wicket Keeping</h2>
+        </div>
+
+        {keepingStats.length === 0 ? (
+          <div className="p-8 text-center text-muted-foreground">
+            No wicket keepers yet. Keepers are read from the † marker on imported scorecards.
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="bg-muted text-muted-foreground text-sm">
+                  <th className="px-4 py-3 text-left font-medium">Keeper</th>
+                  <th className="px-4 py-3 text-center font-medium">M</th>
+                  <th className="px-4 py-3 text-center font-medium">Ct</th>
+                  <th className="px-4 py-3 text-center font-medium">St</th>
+                  <th className="px-4 py-3 text-center font-medium">Dis</th>
+                  <th className="px-4 py-3 text-center font-medium">Byes</th>
+                  <th className="px-4 py-3 text-center font-medium">Byes/M</th>
+                </tr>
+              </thead>
+              <tbody>
+                {keepingStats.map((keeper) => (
+                  <tr
+                    key={keeper.playerId}
+                    className="border-b border-border hover:bg-muted/50 transition-colors"
+                  >
+                    <td className="px-4 py-3">
+                      <Link href={`/players/${keeper.playerId}`} className="hover:text-ucla-gold transition-colors">
+                        {keeper.playerName}
+                      </Link>
+                    </td>
+                    <td className="px-4 py-3 text-center">{keeper.matches}</td>
+                    <td className="px-4 py-3 text-center">{keeper.catches}</td>
+                    <td className="px-4 py-3 text-center">{keeper.stumpings}</td>
+                    <td className="px-4 py-3 text-center font-bold text-ucla-gold">
+                      {keeper.catches + keeper.stumpings}
+                    </td>
+                    <td className="px-4 py-3 text-center text-muted-foreground">{keeper.byesConceded}</td>
+                    <td className="px-4 py-3 text-center text-muted-foreground">
+                      {keeper.byesPerMatch.toFixed(1)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-card rounded-lg border border-border overflow-hidden mt-8">
+        <div className="bg-ucla-blue px-4 py-3">
+          <h2 className="text-lg font-bold text-white">Super Overs</h2>
+        </div>
+
+        {superOverRecords.length === 0 ? (
+          <div className="p-8 text-center text-muted-foreground">
+            No super overs yet. Super over figures are kept out of the season averages and listed here.
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="bg-muted text-muted-foreground text-sm">
+                  <th className="px-4 py-3 text-left font-medium">Player</th>
+                  <th className="px-4 py-3 text-center font-medium">SO</th>
+                  <th className="px-4 py-3 text-center font-medium">Runs</th>
+                  <th className="px-4 py-3 text-center font-medium">Balls</th>
+                  <th className="px-4 py-3 text-center font-medium">Out</th>
+                  <th className="px-4 py-3 text-center font-medium">Balls Bowled</th>
+                  <th className="px-4 py-3 text-center font-medium">Runs Conceded</th>
+                  <th className="px-4 py-3 text-center font-medium">Wkts</th>
+                </tr>
+              </thead>
+              <tbody>
+                {superOverRecords.map((record) => (
+                  <tr
+                    key={record.playerId}
+                    className="border-b border-border hover:bg-muted/50 transition-colors"
+                  >
+                    <td className="px-4 py-3">
+                      <Link href={`/players/${record.playerId}`} className="hover:text-ucla-gold transition-colors">
+                        {record.playerName}
+                      </Link>
+                    </td>
+                    <td className="px-4 py-3 text-center">{record.superOvers}</td>
+                    <td className="px-4 py-3 text-center font-bold text-ucla-gold">{record.runs}</td>
+                    <td className="px-4 py-3 text-center text-muted-foreground">{record.ballsFaced}</td>
+                    <td className="px-4 py-3 text-center text-muted-foreground">{record.dismissals}</td>
+                    <td className="px-4 py-3 text-center text-muted-foreground">{record.ballsBowled}</td>
+                    <td className="px-4 py-3 text-center text-muted-foreground">{record.runsConceded}</td>
+                    <td className="px-4 py-3 text-center font-bold text-ucla-gold">{record.wickets}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
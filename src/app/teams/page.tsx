@@ -0,0 +1,308 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { supabase } from '@/lib/supabase/client'
+import { cn, formatDate } from '@/lib/utils'
+
+interface TeamIdentity {
+  id: string
+  name: string
+  season_id: string | null
+  competition_name: string | null
+  season: { name: string } | null
+}
+
+interface ImportReview {
+  id: string
+  reason: string
+  teams: string[]
+  filenames: string[]
+  created_at: string
+}
+
+export default function TeamsPage() {
+  const [teams, setTeams] = useState<TeamIdentity[]>([])
+  const [reviews, setReviews] = useState<ImportReview[]>([])
+  const [seasons, setSeasons] = useState<{ id: string; name: string }[]>([])
+  const [loading, setLoading] = useState(true)
+  const [newTeam, setNewTeam] = useState({ name: '', seasonId: '', competitionName: '' })
+  const [rememberTeam, setRememberTeam] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [message, setMessage] = useState<{
+    type: 'success' | 'error'
+    text: string
+    matchId?: string
+    competitionId?: string
+  } | null>(null)
+
+  useEffect(() => {
+    loadData()
+  }, [])
+
+  const loadData = async () => {
+    try {
+      const [teamsResponse, reviewsResponse, { data: seasonData }] = await Promise.all([
+        fetch('/api/teams').then(r => r.json()),
+        fetch('/api/import-reviews').then(r => r.json()),
+        supabase.from('seasons').select('id, name').order('start_date', { ascending: false }),
+      ])
+      if (teamsResponse.success) setTeams(teamsResponse.teams)
+      if (reviewsResponse.success) setReviews(reviewsResponse.reviews)
+      setSeasons(seasonData || [])
+    } catch (error) {
+      console.error('Error loading teams:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleAddTeam = async () => {
+    if (!newTeam.name.trim()) return
+
+    setSaving(true)
+    setMessage(null)
+
+    try {
+      const response = await fetch('/api/teams', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(newTeam),
+      })
+      const data = await response.json()
+
+      if (data.success) {
+        setMessage({ type: 'success', text: `Team name "${newTeam.name}" added!` })
+        setNewTeam({ name: '', seasonId: '', competitionName: '' })
+        loadData()
+      } else {
+        setMessage({ type: 'error', text: data.error || 'Failed to add team name' })
+      }
+    } catch (error) {
+      setMessage({ type: 'error', text: 'Failed to add team name' })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleRemoveTeam = async (team: TeamIdentity) => {
+    if (!confirm(`Remove "${team.name}" from our team names?`)) return
+
+    const response = await fetch(`/api/teams/${team.id}`, { method: 'DELETE' })
+    const data = await response.json()
+
+    if (data.success) {
+      setTeams(prev => prev.filter(t => t.id !== team.id))
+    } else {
+      setMessage({ type: 'error', text: data.error || 'Failed to remove team name' })
+    }
+  }
+
+  const resolveReview = async (
+    review: ImportReview,
+    body: { action: 'import' | 'standings' | 'dismiss'; ourTeamName?: string }
+  ) => {
+    setSaving(true)
+    setMessage(null)
+
+    try {
+      const response = await fetch(`/api/import-reviews/${review.id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...body, remember: rememberTeam }),
+      })
+      const data = await response.json()
+
+      if (data.success) {
+        setMessage({
+          type: 'success',
+          text: body.action === 'dismiss' ? 'Import dismissed' : data.message,
+          matchId: data.matchId,
+          competitionId: data.competitionId,
+        })
+        loadData()
+      } else {
+        setMessage({ type: 'error', text: data.error || 'Failed to resolve import' })
+      }
+    } catch (error) {
+      setMessage({ type: 'error', text: 'Failed to resolve import' })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="text-center py-12">
+          <div className="text-5xl mb-4 animate-spin">⏳</div>
+          <p className="text-muted-foreground">Loading teams...</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <h1 className="text-3xl font-bold text-white mb-2">
+        Our <span className="text-ucla-gold">Teams</span>
+      </h1>
+      <p className="text-muted-foreground mb-8">
+        The names we play under, used to find our innings on every scorecard
+      </p>
+
+      {/* Message */}
+      {message && (
+        <div className={cn(
+          'mb-6 p-4 rounded-lg',
+          message.type === 'success' ? 'bg-green-900/50 text-green-300' : 'bg-red-900/50 text-red-300'
+        )}>
+          {message.text}
+          {message.matchId && (
+            <Link href={`/matches/${message.matchId}`} className="ml-2 underline">
+              View match
+            </Link>
+          )}
+          {message.competitionId && (
+            <Link href={`/competitions/${message.competitionId}`} className="ml-2 underline">
+              View points table
+            </Link>
+          )}
+        </div>
+      )}
+
+      {/* Held imports */}
+      {reviews.length > 0 && (
+        <div className="bg-card rounded-lg border border-orange-500/50 overflow-hidden mb-8">
+          <div className="p-4 border-b border-border flex items-center justify-between">
+            <h2 className="text-xl font-semibold text-white">
+              Imports Needing Review ({reviews.length})
+            </h2>
+            <label className="flex items-center gap-2 text-sm text-muted-foreground">
+              <input
+                type="checkbox"
+                checked={rememberTeam}
+                onChange={(e) => setRememberTeam(e.target.checked)}
+              />
+              Remember the team I pick
+            </label>
+          </div>
+
+          <div className="divide-y divide-border">
+            {reviews.map((review) => (
+              <div key={review.id} className="p-4">
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <h3 className="font-semibold text-white">{review.teams.join(' vs ')}</h3>
+                    <p className="text-sm text-orange-400 mt-1">{review.reason}</p>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {review.filenames.join(', ')} • uploaded {formatDate(review.created_at)}
+                    </p>
+                  </div>
+
+                  <div className="flex flex-wrap items-center gap-2">
+                    {review.teams.map((team) => (
+                      <Button
+                        key={team}
+                        size="sm"
+                        onClick={() => resolveReview(review, { action: 'import', ourTeamName: team })}
+                        disabled={saving}
+                      >
+                        We were {team}
+                      </Button>
+                    ))}
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => resolveReview(review, { action: 'standings' })}
+                      disabled={saving}
+                    >
+                      Not our match (points table only)
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => resolveReview(review, { action: 'dismiss' })}
+                      disabled={saving}
+                    >
+                      Dismiss
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Add Team Name */}
+      <div className="bg-card rounded-lg p-6 border border-border mb-8">
+        <h2 className="text-xl font-semibold text-white mb-4">Add Team Name</h2>
+        <div className="flex flex-wrap gap-4">
+          <input
+            type="text"
+            value={newTeam.name}
+            onChange={(e) => setNewTeam({ ...newTeam, name: e.target.value })}
+            placeholder="Team name as shown on CricClubs (e.g., Bruins CC)"
+            className="flex-1 min-w-[240px] bg-background border border-border rounded-md px-3 py-2 text-white"
+            onKeyDown={(e) => e.key === 'Enter' && handleAddTeam()}
+          />
+          <select
+            value={newTeam.seasonId}
+            onChange={(e) => setNewTeam({ ...newTeam, seasonId: e.target.value })}
+            className="bg-background border border-border rounded-md px-3 py-2 text-white"
+          >
+            <option value="">All seasons</option>
+            {seasons.map((season) => (
+              <option key={season.id} value={season.id}>
+                {season.name}
+              </option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={newTeam.competitionName}
+            onChange={(e) => setNewTeam({ ...newTeam, competitionName: e.target.value })}
+            placeholder="All competitions"
+            className="bg-background border border-border rounded-md px-3 py-2 text-white"
+          />
+          <Button onClick={handleAddTeam} disabled={saving || !newTeam.name.trim()}>
+            {saving ? 'Adding...' : 'Add Team Name'}
+          </Button>
+        </div>
+      </div>
+
+      {/* Team Names */}
+      <div className="bg-card rounded-lg border border-border overflow-hidden">
+        <div className="p-4 border-b border-border">
+          <h2 className="text-xl font-semibold text-white">
+            Team Names ({teams.length})
+          </h2>
+        </div>
+
+        {teams.length === 0 ? (
+          <div className="p-8 text-center text-muted-foreground">
+            No team names yet. Every import will be held for review until one is added.
+          </div>
+        ) : (
+          <div className="divide-y divide-border">
+            {teams.map((team) => (
+              <div key={team.id} className="p-4 flex items-center justify-between hover:bg-muted/50 transition-colors">
+                <div>
+                  <h3 className="font-semibold text-white">{team.name}</h3>
+                  <p className="text-sm text-muted-foreground mt-1">
+                    {team.season?.name || 'All seasons'} • {team.competition_name || 'All competitions'}
+                  </p>
+                </div>
+                <Button size="sm" variant="outline" onClick={() => handleRemoveTeam(team)}>
+                  Remove
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
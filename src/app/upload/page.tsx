@@ -1,23 +1,29 @@
 'use client'
 
 import { useState, useCallback, useEffect } from 'react'
-import { useRouter } from 'next/navigation'
+import Link from 'next/link'
 import { useDropzone } from 'react-dropzone'
 import { Button } from '@/components/ui/button'
 import { cn } from '@/lib/utils'
+import type { MergeConflict, PlayerMappings, PlayerResolution, ScorecardWarning } from '@/types/models'
 
 interface ParsedFile {
   id: string // unique ID for each file
   filename: string
   matchInfo: {
+    pageType?: string
     date: string
     teams: [string, string]
     competition?: string
     result?: string
     battingEntries?: number
     bowlingEntries?: number
+    deliveries?: number
+    overs?: number
+    venue?: string
   } | null
   status: 'pending' | 'parsing' | 'parsed' | 'error'
+  warnings?: ScorecardWarning[] // Numbers on the scorecard that do not add up
   error?: string
   errorCode?: string
   errorDetails?: string
@@ -35,15 +41,44 @@ interface MatchGroup {
     ourTeamName: string
     notes: string
   }
+  // Dry run of the import; players can be changed before it is committed
+  preview?: {
+    ourTeam: string
+    opponent: string
+    players: PlayerResolution[]
+    conflicts: MergeConflict[] // Fields on which the group's pages disagree
+  }
+  mappings: PlayerMappings // Scorecard name -> picked player id, or null for a new player
+  previewError?: string
+  result?: { success: boolean; message: string; matchId?: string; conflicts?: MergeConflict[] }
+}
+
+const MATCH_METHOD_LABELS: Record<PlayerResolution['method'], string> = {
+  override: 'Match override',
+  alias: 'Alias',
+  exact: 'Exact name',
+  fuzzy: 'Fuzzy match',
+  new: 'No match',
 }
 
+// Player select value for storing the name as a new player
+const NEW_PLAYER = 'new'
+
 export default function UploadPage() {
-  const router = useRouter()
   const [files, setFiles] = useState<ParsedFile[]>([])
   const [matchGroups, setMatchGroups] = useState<MatchGroup[]>([])
+  const [players, setPlayers] = useState<{ id: string; name: string }[]>([])
+  const [previewing, setPreviewing] = useState(false)
   const [importing, setImporting] = useState(false)
   const [importResult, setImportResult] = useState<{ success: boolean; message: string } | null>(null)
 
+  useEffect(() => {
+    fetch('/api/players/list')
+      .then(r => r.json())
+      .then(data => data.success && setPlayers(data.players))
+      .catch(error => console.error('Error loading players:', error))
+  }, [])
+
   // Auto-group files when they're all parsed
   useEffect(() => {
     const allParsed = files.length > 0 && files.every(f => f.status === 'parsed' || f.status === 'error')
@@ -87,7 +122,7 @@ export default function UploadPage() {
         if (result.success) {
           setFiles(prev => prev.map(f => 
             f.id === fileId 
-              ? { ...f, status: 'parsed', matchInfo: result.data, content }
+              ? { ...f, status: 'parsed', matchInfo: result.data, warnings: result.warnings, content }
               : f
           ))
         } else {
@@ -141,56 +176,137 @@ export default function UploadPage() {
       metadata: {
         matchType: 'league',
         competitionName: groupFiles[0].matchInfo?.competition || '',
-        ourTeamName: 'UCLA',
+        ourTeamName: '',
         notes: '',
       },
+      mappings: {},
     }))
     
     setMatchGroups(newMatchGroups)
   }
 
   const updateMatchMetadata = (key: string, field: string, value: string) => {
+    // Details can change which side is ours, so the preview has to be run again
     setMatchGroups(prev => prev.map(g => 
       g.key === key 
-        ? { ...g, metadata: { ...g.metadata, [field]: value } }
+        ? { ...g, metadata: { ...g.metadata, [field]: value }, preview: undefined, previewError: undefined, mappings: {} }
         : g
     ))
   }
 
+  const updatePlayerMapping = (key: string, scorecardName: string, value: string) => {
+    setMatchGroups(prev => prev.map(g => {
+      if (g.key !== key) return g
+      // An empty value leaves the name to be matched on import
+      const mappings = { ...g.mappings }
+      if (value) mappings[scorecardName] = value === NEW_PLAYER ? null : value
+      else delete mappings[scorecardName]
+      return { ...g, mappings }
+    }))
+  }
+
+  // Pages saved for a match, sent together so the server can merge them
+  const importBody = (group: MatchGroup) => ({
+    files: group.files.filter(f => f.content).map(f => ({ html: f.content, filename: f.filename })),
+    metadata: {
+      ...group.metadata,
+      date: group.date,
+      teams: group.teams,
+    },
+  })
+
+  const hasScorecard = (group: MatchGroup) =>
+    group.files.some(f => f.content && f.matchInfo?.pageType === 'Full Scorecard')
+
+  const handlePreview = async () => {
+    setPreviewing(true)
+    setImportResult(null)
+    
+    const previewed = await Promise.all(matchGroups.map(async (group): Promise<MatchGroup> => {
+      if (!hasScorecard(group)) {
+        return { ...group, preview: undefined, previewError: 'Add the Full Scorecard page to import this match' }
+      }
+      
+      try {
+        const response = await fetch('/api/matches/preview', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(importBody(group)),
+        })
+        const result = await response.json()
+        
+        if (!result.success) {
+          return { ...group, preview: undefined, previewError: result.details ? `${result.error}: ${result.details}` : result.error }
+        }
+        
+        return {
+          ...group,
+          preview: {
+            ourTeam: result.ourTeam,
+            opponent: result.opponent,
+            players: result.players,
+            conflicts: result.conflicts || [],
+          },
+          previewError: undefined,
+          mappings: {},
+        }
+      } catch (error) {
+        return { ...group, preview: undefined, previewError: 'Network error: Failed to preview import' }
+      }
+    }))
+    
+    setMatchGroups(previewed)
+    setPreviewing(false)
+  }
+
   const handleImport = async () => {
+    const warningCount = matchGroups.reduce(
+      (sum, group) => sum + group.files.reduce((count, f) => count + (f.warnings?.length || 0), 0),
+      0
+    )
+    if (warningCount > 0 && !confirm(`${warningCount} scorecard check(s) failed. Import anyway?`)) return
+    
     setImporting(true)
     setImportResult(null)
     
-    // Redirect to dashboard immediately - import happens in background
-    router.push('/')
+    let imported = 0
     
     try {
       for (const group of matchGroups) {
-        // Find the main file (one with content)
-        const mainFile = group.files.find(f => f.content)
-        if (!mainFile?.content) continue
+        if (!group.preview || group.result?.success) continue
         
+        // Only the picks are sent; other names are matched again and queued for review if unsure
         const response = await fetch('/api/matches/import', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            html: mainFile.content,
-            metadata: {
-              ...group.metadata,
-              date: group.date,
-              teams: group.teams,
-            },
-          }),
+          body: JSON.stringify({ ...importBody(group), playerMappings: group.mappings }),
         })
         
         const result = await response.json()
         
-        if (!result.success) {
-          console.error('Import error:', result.error)
-        }
+        if (result.success) imported++
+        
+        setMatchGroups(prev => prev.map(g =>
+          g.key === group.key
+            ? {
+                ...g,
+                result: {
+                  success: !!result.success,
+                  message: result.message || result.error,
+                  matchId: result.matchId,
+                  conflicts: result.conflicts,
+                },
+              }
+            : g
+        ))
       }
+      
+      setImportResult({ success: imported > 0, message: `Imported ${imported} match(es)` })
     } catch (error) {
-      console.error('Import failed:', error instanceof Error ? error.message : 'Unknown error')
+      setImportResult({
+        success: false,
+        message: `Import failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      })
     } finally {
       setImporting(false)
     }
@@ -212,12 +328,12 @@ export default function UploadPage() {
         Drag and drop CricClubs HTML files to import match data
       </p>
       <div className="bg-ucla-blue/20 border border-ucla-blue/40 rounded-lg p-4 mb-8">
-        <p className="text-sm text-ucla-gold font-medium">💡 Important: Only upload "Full Scorecard" pages</p>
+        <p className="text-sm text-ucla-gold font-medium">💡 Important: Every match needs its "Full Scorecard" page</p>
         <p className="text-xs text-muted-foreground mt-1">
           Go to CricClubs → Match → Click the <strong>"Full Scorecard"</strong> tab → Save page (Cmd+S or Ctrl+S)
         </p>
         <p className="text-xs text-muted-foreground">
-          Other tabs (Info, Ball by Ball, Over by Over, Charts) will not work.
+          You can also add the <strong>"Info"</strong>, <strong>"Ball by Ball"</strong> and <strong>"Over by Over Score"</strong> pages for the same match. The Charts tab will not work.
         </p>
       </div>
 
@@ -264,13 +380,37 @@ export default function UploadPage() {
                   {file.matchInfo && (
                     <p className="text-sm text-muted-foreground">
                       {file.matchInfo.teams[0]} vs {file.matchInfo.teams[1]} • {file.matchInfo.date}
-                      {file.matchInfo.battingEntries !== undefined && (
+                      {file.matchInfo.pageType === 'Ball by Ball' ? (
+                        <span className="ml-2 text-green-400">
+                          (Ball by Ball, {file.matchInfo.deliveries} deliveries)
+                        </span>
+                      ) : file.matchInfo.pageType === 'Info' ? (
+                        <span className="ml-2 text-green-400">
+                          (Info{file.matchInfo.venue ? `, ${file.matchInfo.venue}` : ''})
+                        </span>
+                      ) : file.matchInfo.pageType === 'Over by Over Score' ? (
+                        <span className="ml-2 text-green-400">
+                          (Over by Over, {file.matchInfo.overs} overs)
+                        </span>
+                      ) : file.matchInfo.battingEntries !== undefined && (
                         <span className="ml-2 text-green-400">
                           ({file.matchInfo.battingEntries} batters, {file.matchInfo.bowlingEntries} bowlers)
                         </span>
                       )}
                     </p>
                   )}
+                  {file.warnings && file.warnings.length > 0 && (
+                    <div className="mt-1 p-2 bg-yellow-900/30 border border-yellow-600/50 rounded">
+                      <p className="text-sm font-medium text-yellow-400">
+                        ⚠️ The scorecard does not add up - check it before importing
+                      </p>
+                      <ul className="text-xs text-yellow-300/80 mt-1 space-y-0.5">
+                        {file.warnings.map((warning, idx) => (
+                          <li key={idx}>{warning.message}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
                   {file.error && (
                     <div className="mt-1 p-2 bg-red-900/30 border border-red-600/50 rounded">
                       <p className="text-sm font-medium text-red-400">
@@ -346,13 +486,13 @@ export default function UploadPage() {
                   
                   <div>
                     <label className="block text-sm font-medium text-muted-foreground mb-1">
-                      Our Team Name (if not UCLA)
+                      Our Team Name (if not a registered team name)
                     </label>
                     <input
                       type="text"
                       value={group.metadata.ourTeamName}
                       onChange={(e) => updateMatchMetadata(group.key, 'ourTeamName', e.target.value)}
-                      placeholder="UCLA"
+                      placeholder="From registered team names"
                       className="w-full bg-background border border-border rounded-md px-3 py-2 text-white"
                     />
                   </div>
@@ -370,18 +510,131 @@ export default function UploadPage() {
                     />
                   </div>
                 </div>
+
+                {group.previewError && (
+                  <div className="mt-4 p-3 bg-red-900/30 border border-red-600/50 rounded text-sm text-red-400">
+                    {group.previewError}
+                  </div>
+                )}
+
+                {/* Disagreements between the pages, before the import... */}
+                {group.preview && !group.result && group.preview.conflicts.length > 0 && (
+                  <MergeConflictList conflicts={group.preview.conflicts} />
+                )}
+
+                {/* Player Review */}
+                {group.preview && (
+                  <div className="mt-6">
+                    <h4 className="font-semibold text-white mb-1">
+                      Players for {group.preview.ourTeam}
+                    </h4>
+                    <p className="text-sm text-muted-foreground mb-3">
+                      Check who each scorecard name will be stored as against {group.preview.opponent}
+                    </p>
+                    <div className="overflow-x-auto">
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="text-left text-muted-foreground border-b border-border">
+                            <th className="py-2 pr-4">Scorecard Name</th>
+                            <th className="py-2 pr-4">Appears In</th>
+                            <th className="py-2 pr-4">Matched By</th>
+                            <th className="py-2 pr-4">Confidence</th>
+                            <th className="py-2">Player</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {group.preview.players.map((player) => {
+                            const picked = group.mappings[player.scorecardName]
+                            const chosen = picked === null ? NEW_PLAYER : picked ?? player.playerId ?? ''
+                            return (
+                              <tr key={player.scorecardName} className="border-b border-border/50">
+                                <td className="py-2 pr-4 text-white">{player.scorecardName}</td>
+                                <td className="py-2 pr-4 text-muted-foreground">
+                                  {player.roles.map(role => role.replace(/_/g, ' ')).join(', ')}
+                                </td>
+                                <td className={cn('py-2 pr-4', player.ambiguous ? 'text-orange-400' : 'text-muted-foreground')}>
+                                  {player.ambiguous ? 'Ambiguous - pick a player' : MATCH_METHOD_LABELS[player.method]}
+                                </td>
+                                <td className={cn(
+                                  'py-2 pr-4',
+                                  player.confidence >= 1 ? 'text-green-400' : player.confidence > 0 ? 'text-yellow-400' : 'text-muted-foreground'
+                                )}>
+                                  {Math.round(player.confidence * 100)}%
+                                </td>
+                                <td className="py-2">
+                                  <select
+                                    value={chosen}
+                                    onChange={(e) => updatePlayerMapping(group.key, player.scorecardName, e.target.value)}
+                                    className="w-full bg-background border border-border rounded-md px-2 py-1 text-white"
+                                  >
+                                    {!player.playerId && <option value="">Pick later (queued for review)</option>}
+                                    <option value={NEW_PLAYER}>New player: {player.scorecardName}</option>
+                                    {player.candidates && player.candidates.length > 0 && (
+                                      <optgroup label="Suggested">
+                                        {player.candidates.map((candidate) => (
+                                          <option key={candidate.playerId} value={candidate.playerId}>
+                                            {candidate.playerName} ({Math.round(candidate.score * 100)}%)
+                                          </option>
+                                        ))}
+                                      </optgroup>
+                                    )}
+                                    <optgroup label="All players">
+                                      {players.map((p) => (
+                                        <option key={p.id} value={p.id}>
+                                          {p.name}
+                                        </option>
+                                      ))}
+                                    </optgroup>
+                                  </select>
+                                </td>
+                              </tr>
+                            )
+                          })}
+                        </tbody>
+                      </table>
+                    </div>
+                  </div>
+                )}
+
+                {group.result && (
+                  <p className={cn(
+                    'mt-4 text-sm',
+                    group.result.success ? 'text-green-500' : 'text-red-500'
+                  )}>
+                    {group.result.message}
+                    {group.result.matchId && (
+                      <Link href={`/matches/${group.result.matchId}`} className="ml-2 underline">
+                        View match
+                      </Link>
+                    )}
+                  </p>
+                )}
+
+                {/* ...and what the import kept */}
+                {group.result?.conflicts && group.result.conflicts.length > 0 && (
+                  <MergeConflictList conflicts={group.result.conflicts} />
+                )}
               </div>
             ))}
           </div>
 
           {/* Import Button */}
           <div className="mt-6 flex items-center gap-4">
+            <Button
+              variant="outline"
+              onClick={handlePreview}
+              disabled={previewing || importing}
+            >
+              {previewing ? 'Checking players...' : 'Preview Import'}
+            </Button>
             <Button
               onClick={handleImport}
-              disabled={importing}
+              disabled={importing || previewing || !matchGroups.some(g => g.preview && !g.result?.success)}
               className="px-8"
             >
-              {importing ? 'Importing...' : `Import ${matchGroups.length} Match(es)`}
+              {importing
+                ? 'Importing...'
+                : `Import ${matchGroups.filter(g => g.preview && !g.result?.success).length} Match(es)`}
             </Button>
             
             {importResult && (
@@ -399,3 +652,24 @@ export default function UploadPage() {
   )
 }
 
+/**
+ * Fields on which a match's pages disagree, with the value kept and the values dropped
+ */
+function MergeConflictList({ conflicts }: { conflicts: MergeConflict[] }) {
+  return (
+    <div className="mt-4 p-3 bg-yellow-900/30 border border-yellow-600/50 rounded text-sm">
+      <p className="font-medium text-yellow-400 mb-2">
+        ⚠️ The pages for this match disagree on {conflicts.length} field(s)
+      </p>
+      <ul className="space-y-1 text-yellow-200/80">
+        {conflicts.map((conflict) => (
+          <li key={conflict.field}>
+            <span className="font-mono">{conflict.field}</span>: kept &quot;{conflict.chosen.value}&quot; from{' '}
+            {conflict.chosen.source}, dropped{' '}
+            {conflict.discarded.map(d => `"${d.value}" from ${d.source}`).join(', ')}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,82 @@
+'use client'
+
+import { useState } from 'react'
+import { cn } from '@/lib/utils'
+
+interface AttachMatchPagesProps {
+  matchId: string
+  onUpdate: () => void
+}
+
+/**
+ * Add Info, Ball by Ball or Over by Over Score pages to a match that is already imported
+ */
+export function AttachMatchPages({ matchId, onUpdate }: AttachMatchPagesProps) {
+  const [uploading, setUploading] = useState(false)
+  const [messages, setMessages] = useState<{ type: 'success' | 'error'; text: string }[]>([])
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files?.length) return
+
+    setUploading(true)
+    const results: { type: 'success' | 'error'; text: string }[] = []
+
+    for (const file of Array.from(files)) {
+      try {
+        const response = await fetch('/api/matches/attach', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ matchId, html: await file.text(), filename: file.name }),
+        })
+        const data = await response.json()
+
+        results.push(data.success
+          ? { type: 'success', text: `${file.name}: ${data.message}` }
+          : { type: 'error', text: `${file.name}: ${data.details || data.error}` })
+      } catch (error) {
+        results.push({ type: 'error', text: `${file.name}: Failed to attach page` })
+      }
+    }
+
+    setMessages(results)
+    setUploading(false)
+    if (results.some(result => result.type === 'success')) onUpdate()
+  }
+
+  return (
+    <div className="bg-card rounded-lg border border-border overflow-hidden mt-8">
+      <div className="px-4 py-3 border-b border-border">
+        <h2 className="text-lg font-bold text-white">Add Pages</h2>
+        <p className="text-sm text-muted-foreground">
+          Attach the saved Info, Ball by Ball or Over by Over Score pages for this match
+        </p>
+      </div>
+
+      <div className="p-4 space-y-3">
+        <input
+          type="file"
+          accept=".html,.htm"
+          multiple
+          disabled={uploading}
+          onChange={(e) => {
+            handleFiles(e.target.files)
+            e.target.value = ''
+          }}
+          className="text-sm text-muted-foreground"
+        />
+        {uploading && <p className="text-sm text-muted-foreground">Attaching...</p>}
+        {messages.map((message, index) => (
+          <div
+            key={index}
+            className={cn(
+              'p-3 rounded text-sm',
+              message.type === 'success' ? 'bg-green-900/50 text-green-300' : 'bg-red-900/50 text-red-300'
+            )}
+          >
+            {message.text}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
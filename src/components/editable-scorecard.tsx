@@ -1,7 +1,8 @@
 'use client'
 
 import { useState, useEffect, useRef } from 'react'
-import { formatStat, getInitials, cn } from '@/lib/utils'
+import { formatInningsScore, formatStat, getInitials, cn } from '@/lib/utils'
+import type { Innings } from '@/types/models'
 
 interface Player {
   id: string
@@ -45,16 +46,11 @@ interface EditableScorecardProps {
   matchId: string
   ourTeam: string
   opponent: string
-  ourScore: string | null
-  opponentScore: string | null
+  ourInnings: Innings | null
+  opponentInnings: Innings | null
   battingPerformances: BattingPerformance[]
   bowlingPerformances: BowlingPerformance[]
   fieldingPerformances: FieldingPerformance[]
-  extrasTotal?: number
-  extrasWides?: number
-  extrasNoBalls?: number
-  extrasByes?: number
-  extrasLegByes?: number
   onUpdate: () => void
 }
 
@@ -66,27 +62,15 @@ function isUnclaimed(name: string | undefined): boolean {
   return name?.toLowerCase().startsWith('unclaimed') || false
 }
 
-// Parse score string like "156/7" to get total
-function parseScoreTotal(score: string | null): number | null {
-  if (!score) return null
-  const match = score.match(/^(\d+)/)
-  return match ? parseInt(match[1]) : null
-}
-
 export function EditableScorecard({
   matchId,
   ourTeam,
   opponent,
-  ourScore,
-  opponentScore,
+  ourInnings,
+  opponentInnings,
   battingPerformances,
   bowlingPerformances,
   fieldingPerformances,
-  extrasTotal = 0,
-  extrasWides = 0,
-  extrasNoBalls = 0,
-  extrasByes = 0,
-  extrasLegByes = 0,
   onUpdate,
 }: EditableScorecardProps) {
   const [players, setPlayers] = useState<Player[]>([])
@@ -193,10 +177,14 @@ export function EditableScorecard({
     wickets: battingPerformances.filter(p => !p.not_out).length,
   }
 
-  // Use passed extras or calculate from score difference
-  const teamTotal = parseScoreTotal(ourScore)
+  // Use the innings extras, or the gap between the total and the batters' runs
+  const teamTotal = ourInnings ? ourInnings.total : null
   const calculatedExtras = teamTotal !== null ? teamTotal - battingTotals.runs : 0
-  const displayExtrasTotal = extrasTotal > 0 ? extrasTotal : calculatedExtras
+  const displayExtrasTotal = ourInnings?.extras_total || calculatedExtras
+  const extrasWides = ourInnings?.extras_wides || 0
+  const extrasNoBalls = ourInnings?.extras_no_balls || 0
+  const extrasByes = ourInnings?.extras_byes || 0
+  const extrasLegByes = ourInnings?.extras_leg_byes || 0
 
   // Format extras breakdown string
   const extrasBreakdownParts = []
@@ -375,7 +363,7 @@ export function EditableScorecard({
         <div className="bg-ucla-blue px-4 py-3">
           <h2 className="text-lg font-bold text-white">
             {ourTeam} Batting
-            {ourScore && <span className="ml-2 text-ucla-gold">{ourScore}</span>}
+            {ourInnings && <span className="ml-2 text-ucla-gold">{formatInningsScore(ourInnings, true)}</span>}
           </h2>
         </div>
         
@@ -475,7 +463,7 @@ export function EditableScorecard({
       <div className="bg-card rounded-lg border border-border overflow-hidden">
         <div className="bg-green-700 px-4 py-3">
           <h2 className="text-lg font-bold text-white">
-            {ourTeam} Bowling vs {opponent}&apos;s {opponentScore || '-'}
+            {ourTeam} Bowling vs {opponent}&apos;s {formatInningsScore(opponentInnings, true)}
           </h2>
         </div>
         
@@ -0,0 +1,169 @@
+'use client'
+
+import {
+  ResponsiveContainer,
+  LineChart,
+  Line,
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+} from 'recharts'
+
+export interface OverPoint {
+  innings_number: number
+  batting_team: string
+  over_number: number // 1-based
+  runs: number
+  wickets: number
+  total_runs: number
+  total_wickets: number
+}
+
+interface DeliveryRow {
+  innings_number: number
+  batting_team: string
+  over_number: number // completed overs before this ball
+  runs: number
+  extras: number
+  is_wicket: boolean
+}
+
+interface MatchChartsProps {
+  overs: OverPoint[]
+}
+
+const INNINGS_COLORS = ['#2D68C4', '#FFB81C']
+
+/**
+ * Build per-over points from a ball-by-ball stream
+ * Used when a match has deliveries but no Over by Over Score page
+ */
+export function oversFromDeliveries(deliveries: DeliveryRow[]): OverPoint[] {
+  const byOver = new Map<string, OverPoint>()
+
+  deliveries.forEach(d => {
+    const key = `${d.innings_number}_${d.over_number}`
+    const point = byOver.get(key) || {
+      innings_number: d.innings_number,
+      batting_team: d.batting_team,
+      over_number: d.over_number + 1,
+      runs: 0,
+      wickets: 0,
+      total_runs: 0,
+      total_wickets: 0,
+    }
+    point.runs += d.runs + d.extras
+    point.wickets += d.is_wicket ? 1 : 0
+    byOver.set(key, point)
+  })
+
+  // Running totals within each innings
+  const points = Array.from(byOver.values())
+    .sort((a, b) => a.innings_number - b.innings_number || a.over_number - b.over_number)
+  points.forEach((point, i) => {
+    const previous = i > 0 && points[i - 1].innings_number === point.innings_number ? points[i - 1] : null
+    point.total_runs = (previous?.total_runs || 0) + point.runs
+    point.total_wickets = (previous?.total_wickets || 0) + point.wickets
+  })
+
+  return points
+}
+
+/**
+ * Worm (cumulative runs) and Manhattan (runs per over) charts for both innings
+ */
+export function MatchCharts({ overs }: MatchChartsProps) {
+  if (overs.length === 0) return null
+
+  const innings = Array.from(new Set(overs.map(o => o.innings_number))).sort()
+  const teams = new Map(overs.map(o => [o.innings_number, o.batting_team]))
+  const maxOver = Math.max(...overs.map(o => o.over_number))
+
+  // One row per over with a column per innings
+  const data = Array.from({ length: maxOver }, (_, i) => {
+    const row: Record<string, number | undefined> = { over: i + 1 }
+    innings.forEach(inn => {
+      const point = overs.find(o => o.innings_number === inn && o.over_number === i + 1)
+      row[`runs${inn}`] = point?.runs
+      row[`total${inn}`] = point?.total_runs
+      row[`wickets${inn}`] = point?.wickets
+    })
+    return row
+  })
+
+  const tooltipStyle = {
+    backgroundColor: 'hsl(var(--card))',
+    border: '1px solid hsl(var(--border))',
+    color: '#fff',
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+      <div className="bg-card rounded-lg border border-border overflow-hidden">
+        <div className="bg-ucla-blue px-4 py-3">
+          <h2 className="text-lg font-bold text-white">Worm</h2>
+        </div>
+        <div className="p-4 h-72">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={data}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+              <XAxis dataKey="over" stroke="#9ca3af" />
+              <YAxis stroke="#9ca3af" />
+              <Tooltip contentStyle={tooltipStyle} labelFormatter={over => `Over ${over}`} />
+              <Legend />
+              {innings.map((inn, i) => (
+                <Line
+                  key={inn}
+                  type="monotone"
+                  dataKey={`total${inn}`}
+                  name={teams.get(inn)}
+                  stroke={INNINGS_COLORS[i % INNINGS_COLORS.length]}
+                  strokeWidth={2}
+                  dot={false}
+                  connectNulls
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      <div className="bg-card rounded-lg border border-border overflow-hidden">
+        <div className="bg-ucla-blue px-4 py-3">
+          <h2 className="text-lg font-bold text-white">Manhattan</h2>
+        </div>
+        <div className="p-4 h-72">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={data}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+              <XAxis dataKey="over" stroke="#9ca3af" />
+              <YAxis stroke="#9ca3af" allowDecimals={false} />
+              <Tooltip
+                contentStyle={tooltipStyle}
+                labelFormatter={over => `Over ${over}`}
+                formatter={(value, name, item) => {
+                  const inn = String(item.dataKey).replace('runs', '')
+                  const wickets = item.payload[`wickets${inn}`]
+                  return [wickets ? `${value} (${wickets} wkt)` : value, name]
+                }}
+              />
+              <Legend />
+              {innings.map((inn, i) => (
+                <Bar
+                  key={inn}
+                  dataKey={`runs${inn}`}
+                  name={teams.get(inn)}
+                  fill={INNINGS_COLORS[i % INNINGS_COLORS.length]}
+                />
+              ))}
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+    </div>
+  )
+}
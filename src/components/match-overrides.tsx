@@ -0,0 +1,171 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import { cn } from '@/lib/utils'
+
+interface Override {
+  id: string
+  displayed_name: string
+  notes: string | null
+  player: { id: string; name: string } | null
+}
+
+interface MatchOverridesProps {
+  matchId: string
+  scorecardNames: string[] // Names on this match's scorecard, offered as suggestions
+  onUpdate: () => void
+}
+
+/**
+ * Match-specific overrides: "X played under Y's name in this match"
+ */
+export function MatchOverrides({ matchId, scorecardNames, onUpdate }: MatchOverridesProps) {
+  const [overrides, setOverrides] = useState<Override[]>([])
+  const [players, setPlayers] = useState<{ id: string; name: string }[]>([])
+  const [form, setForm] = useState({ displayedName: '', playerId: '', notes: '' })
+  const [saving, setSaving] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  useEffect(() => {
+    loadOverrides()
+    fetch('/api/players/list')
+      .then(r => r.json())
+      .then(data => data.success && setPlayers(data.players))
+      .catch(error => console.error('Error loading players:', error))
+  }, [matchId])
+
+  const loadOverrides = async () => {
+    try {
+      const response = await fetch(`/api/matches/${matchId}/overrides`)
+      const data = await response.json()
+      if (data.success) setOverrides(data.overrides)
+    } catch (error) {
+      console.error('Error loading overrides:', error)
+    }
+  }
+
+  const handleSave = async () => {
+    if (!form.displayedName.trim() || !form.playerId) return
+
+    setSaving(true)
+    setMessage(null)
+
+    try {
+      const response = await fetch(`/api/matches/${matchId}/overrides`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(form),
+      })
+      const data = await response.json()
+
+      if (data.success) {
+        const player = players.find(p => p.id === form.playerId)
+        setMessage({ type: 'success', text: `${player?.name} now plays as "${form.displayedName.trim()}" in this match` })
+        setForm({ displayedName: '', playerId: '', notes: '' })
+        loadOverrides()
+        onUpdate()
+      } else {
+        setMessage({ type: 'error', text: data.error || 'Failed to save override' })
+      }
+    } catch (error) {
+      setMessage({ type: 'error', text: 'Failed to save override' })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleRemove = async (override: Override) => {
+    if (!confirm(`Remove the override for "${override.displayed_name}"? Performances stay where they are.`)) return
+
+    const response = await fetch(`/api/matches/${matchId}/overrides?overrideId=${override.id}`, { method: 'DELETE' })
+    const data = await response.json()
+
+    if (data.success) {
+      setOverrides(prev => prev.filter(o => o.id !== override.id))
+    } else {
+      setMessage({ type: 'error', text: data.error || 'Failed to remove override' })
+    }
+  }
+
+  return (
+    <div className="bg-card rounded-lg border border-border overflow-hidden mt-8">
+      <div className="px-4 py-3 border-b border-border">
+        <h2 className="text-lg font-bold text-white">Player Overrides</h2>
+        <p className="text-sm text-muted-foreground">
+          When someone played under another player&apos;s name, their performances in this match move to them
+        </p>
+      </div>
+
+      {message && (
+        <div className={cn(
+          'mx-4 mt-4 p-3 rounded text-sm',
+          message.type === 'success' ? 'bg-green-900/50 text-green-300' : 'bg-red-900/50 text-red-300'
+        )}>
+          {message.text}
+        </div>
+      )}
+
+      {overrides.length > 0 && (
+        <div className="divide-y divide-border">
+          {overrides.map((override) => (
+            <div key={override.id} className="px-4 py-3 flex items-center justify-between text-sm">
+              <div>
+                <span className="text-white">{override.player?.name || 'Unknown player'}</span>
+                <span className="text-muted-foreground"> played as </span>
+                <span className="text-ucla-gold">&quot;{override.displayed_name}&quot;</span>
+                {override.notes && <span className="text-muted-foreground"> • {override.notes}</span>}
+              </div>
+              <Button size="sm" variant="ghost" onClick={() => handleRemove(override)}>
+                Remove
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="p-4 flex flex-wrap items-center gap-2">
+        <select
+          value={form.playerId}
+          onChange={(e) => setForm({ ...form, playerId: e.target.value })}
+          className="bg-background border border-border rounded-md px-3 py-1.5 text-sm text-white"
+        >
+          <option value="">Player who played...</option>
+          {players.map((player) => (
+            <option key={player.id} value={player.id}>
+              {player.name}
+            </option>
+          ))}
+        </select>
+        <span className="text-muted-foreground text-sm">under the name</span>
+        <input
+          type="text"
+          list={`scorecard-names-${matchId}`}
+          value={form.displayedName}
+          onChange={(e) => setForm({ ...form, displayedName: e.target.value })}
+          placeholder="Name on the scorecard"
+          className="bg-background border border-border rounded-md px-3 py-1.5 text-sm text-white"
+        />
+        <datalist id={`scorecard-names-${matchId}`}>
+          {scorecardNames.map((name) => (
+            <option key={name} value={name} />
+          ))}
+        </datalist>
+        <input
+          type="text"
+          value={form.notes}
+          onChange={(e) => setForm({ ...form, notes: e.target.value })}
+          placeholder="Notes (optional)"
+          className="bg-background border border-border rounded-md px-3 py-1.5 text-sm text-white"
+        />
+        <Button
+          size="sm"
+          onClick={handleSave}
+          disabled={saving || !form.displayedName.trim() || !form.playerId}
+        >
+          {saving ? 'Saving...' : 'Save Override'}
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -9,6 +9,10 @@ const navItems = [
   { href: '/bowling', label: 'Bowling', icon: '🎯' },
   { href: '/fielding', label: 'Fielding', icon: '🧤' },
   { href: '/matches', label: 'Matches', icon: '📋' },
+  { href: '/competitions', label: 'Competitions', icon: '🏟️' },
+  { href: '/opponents', label: 'Opponents', icon: '🔍' },
+  { href: '/records', label: 'Records', icon: '🏆' },
+  { href: '/teams', label: 'Teams', icon: '👥' },
   { href: '/upload', label: 'Upload', icon: '📤' },
 ]
 
@@ -0,0 +1,32 @@
+import { cn, getInitials } from '@/lib/utils'
+
+interface PlayerAvatarProps {
+  name: string
+  photoUrl?: string | null
+  className?: string // Size, text size and fallback background
+}
+
+/**
+ * A player's photo, or their initials when no photo has been uploaded
+ */
+export function PlayerAvatar({ name, photoUrl, className }: PlayerAvatarProps) {
+  if (photoUrl) {
+    return (
+      // eslint-disable-next-line @next/next/no-img-element
+      <img
+        src={photoUrl}
+        alt={name}
+        className={cn('w-10 h-10 rounded-full object-cover shrink-0', className)}
+      />
+    )
+  }
+
+  return (
+    <div className={cn(
+      'w-10 h-10 rounded-full bg-ucla-blue flex items-center justify-center text-white font-bold shrink-0',
+      className
+    )}>
+      {getInitials(name)}
+    </div>
+  )
+}
@@ -0,0 +1,72 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { parseBallByBall } from './ball-by-ball-parser'
+import { ParseError } from './cricclubs-parser'
+
+// A saved Ball by Ball page; each innings lists its commentary latest ball first, as CricClubs does
+function ballByBallPage(innings: { header: string; balls: string[] }[]): string {
+  return `<!-- saved from url=(0066)https://cricclubs.com/UCLA/ballbyball.do?matchId=101&clubId=1 -->
+    <html>
+      <head><title>League: UCLA vs Royal Strikers - Los Angeles Cricket Academy</title></head>
+      <body>
+        <div class="ms-league-name">League <span>01/20/2024</span></div>
+        ${innings.map(({ header, balls }, index) => `
+          <div id="ballByBallTeam${index + 1}">
+            <table>
+              <tr><th>${header}</th></tr>
+              ${[...balls].reverse().map(ball => `<tr><td>${ball}</td></tr>`).join('')}
+            </table>
+          </div>`).join('')}
+      </body>
+    </html>`
+}
+
+test('reads deliveries in match order with runs, extras and wickets', () => {
+  const data = parseBallByBall(ballByBallPage([{
+    header: 'Royal Strikers innings',
+    balls: [
+      '0.1 Tanmay D to Naman S, FOUR',
+      '0.2 Tanmay D to Naman S, 2 wides',
+      '0.2 Tanmay D to Naman S, no ball, 1 run',
+      '0.2 Tanmay D to Naman S, 2 leg byes',
+      '0.3 Tanmay D to Raj P, OUT, c Arjun K b Tanmay D',
+    ],
+  }]))
+
+  const [innings] = data.innings
+  assert.equal(data.source, 'Ball by Ball')
+  assert.equal(innings.team, 'Royal Strikers')
+  assert.deepEqual(
+    innings.deliveries!.map(d => [d.over, d.ball, d.runs, d.extras, d.extrasType, d.isWicket]),
+    [
+      [0, 1, 4, 0, undefined, false],
+      [0, 2, 0, 2, 'wide', false],
+      [0, 2, 1, 1, 'no_ball', false],
+      [0, 2, 0, 2, 'leg_bye', false],
+      [0, 3, 0, 0, undefined, true],
+    ]
+  )
+  assert.equal(innings.total, 10)
+  assert.equal(innings.wickets, 1)
+  assert.equal(innings.overs, 0.3)
+  assert.deepEqual(innings.extrasBreakdown, { total: 5, wides: 2, noBalls: 1, byes: 0, legByes: 2 })
+})
+
+test('names the batter out, including a non-striker run out', () => {
+  const data = parseBallByBall(ballByBallPage([{
+    header: 'UCLA innings',
+    balls: [
+      '3.1 Dev M to Raj P, OUT, c Arjun K b Dev M',
+      '3.2 Dev M to Naman S, OUT, Tanmay D run out (Dev M)',
+    ],
+  }]))
+
+  assert.deepEqual(data.innings[0].deliveries!.map(d => d.playerOut), ['Raj P', 'Tanmay D'])
+})
+
+test('rejects a page without commentary', () => {
+  assert.throws(
+    () => parseBallByBall(ballByBallPage([{ header: 'UCLA innings', balls: [] }])),
+    (error: unknown) => error instanceof ParseError && error.code === 'NO_DELIVERY_DATA'
+  )
+})
@@ -0,0 +1,216 @@
+import * as cheerio from 'cheerio'
+import type { ParsedMatchData, ParsedDelivery, ExtrasType } from '@/types/models'
+import { ParseError, assertHtmlContent, detectPageType, parseMatchHeader } from './cricclubs-parser'
+import { ballsToOvers } from '@/lib/utils'
+
+/**
+ * Parse a CricClubs Ball by Ball page into a per-delivery event stream
+ * @throws {ParseError} When the HTML cannot be parsed
+ */
+export function parseBallByBall(html: string): ParsedMatchData {
+  assertHtmlContent(html)
+
+  const pageType = detectPageType(html)
+  if (pageType.type !== 'Ball by Ball') {
+    throw new ParseError(
+      `Wrong page type: "${pageType.type}"`,
+      'WRONG_PAGE_TYPE',
+      `Expected the "Ball by Ball" page but got "${pageType.type}".`
+    )
+  }
+
+  const $ = cheerio.load(html)
+  const { teams, date, competition } = parseMatchHeader($)
+
+  if (teams[0] === 'Unknown' && teams[1] === 'Unknown') {
+    throw new ParseError(
+      'Could not find team names in the ball by ball page',
+      'NO_TEAMS_FOUND',
+      'The parser could not extract team names. Make sure you uploaded a valid CricClubs Ball by Ball page.'
+    )
+  }
+
+  const innings: ParsedMatchData['innings'] = []
+
+  // Same container ids as the Full Scorecard tab
+  const inningsDivs = ['#ballByBallTeam1', '#ballByBallTeam2']
+
+  inningsDivs.forEach((divId, index) => {
+    const inningsDiv = $(divId)
+    if (!inningsDiv.length) return
+
+    const teamNameHeader = inningsDiv
+      .find('th:contains("innings"), h3:contains("innings"), h4:contains("innings")')
+      .first()
+      .text()
+    // "Royal Strikers innings", "Royal Strikers 2nd innings"
+    const teamNameMatch = teamNameHeader.match(/^\s*(.+?)\s+(?:\d+(?:st|nd|rd|th)\s+)?innings/i)
+    const teamName = teamNameMatch ? teamNameMatch[1].trim() : teams[index]
+
+    const deliveries = parseDeliveryRows($, inningsDiv)
+    if (deliveries.length === 0) return
+
+    const legalBalls = deliveries.filter(isLegalDelivery).length
+    const total = deliveries.reduce((sum, d) => sum + d.runs + d.extras, 0)
+    const extrasBreakdown = {
+      total: deliveries.reduce((sum, d) => sum + d.extras, 0),
+      wides: sumExtras(deliveries, 'wide'),
+      noBalls: sumExtras(deliveries, 'no_ball'),
+      byes: sumExtras(deliveries, 'bye'),
+      legByes: sumExtras(deliveries, 'leg_bye'),
+    }
+
+    innings.push({
+      team: teamName,
+      battingEntries: [],
+      bowlingEntries: [],
+      fieldingEntries: [],
+      total,
+      wickets: deliveries.filter(d => d.isWicket).length,
+      overs: ballsToOvers(legalBalls),
+      extras: extrasBreakdown.total,
+      extrasBreakdown,
+      deliveries,
+    })
+  })
+
+  if (innings.length === 0) {
+    throw new ParseError(
+      'No deliveries found in the ball by ball page',
+      'NO_DELIVERY_DATA',
+      'The parser could not find any ball by ball commentary. Make sure the page finished loading before you saved it.'
+    )
+  }
+
+  return {
+    source: 'Ball by Ball',
+    date,
+    teams,
+    competition,
+    innings,
+  }
+}
+
+/**
+ * Read every commentary row in an innings container
+ * Rows start with the ball label ("12.3") followed by "Bowler to Batter, outcome"
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function parseDeliveryRows($: any, inningsDiv: any): ParsedDelivery[] {
+  const deliveries: ParsedDelivery[] = []
+
+  inningsDiv.find('tr, li').each((_: number, row: any) => {
+    const $row = $(row)
+    // Only leaf rows - nested lists would otherwise be read twice
+    if ($row.find('tr, li').length) return
+
+    const text = $row.text().replace(/\s+/g, ' ').trim()
+    const labelMatch = text.match(/^(\d+)\.(\d+)\s+(.+)$/)
+    if (!labelMatch) return
+
+    const delivery = parseCommentary(labelMatch[3])
+    if (!delivery) return
+
+    deliveries.push({
+      over: parseInt(labelMatch[1]),
+      ball: parseInt(labelMatch[2]),
+      ...delivery,
+    })
+  })
+
+  // CricClubs lists the latest ball first - put the stream in match order
+  if (deliveries.length > 1 && compareBalls(deliveries[0], deliveries[deliveries.length - 1]) > 0) {
+    deliveries.reverse()
+  }
+
+  return deliveries
+}
+
+/**
+ * Parse "Bowler to Batter, outcome" commentary
+ * Examples: "Tanmay D to Naman S, FOUR", "Tanmay D to Naman S, 2 wides",
+ * "Tanmay D to Naman S, no ball, 1 run", "Tanmay D to Naman S, OUT, c Arjun b Tanmay D"
+ */
+function parseCommentary(text: string): Omit<ParsedDelivery, 'over' | 'ball'> | null {
+  // Drop a leading outcome badge ("4", "W", "1wd", "2lb") rendered before the commentary
+  const commentary = text.replace(/^(?:\d+(?:wd|nb|lb|b)?|w|wd|nb|lb|b)\s+/i, '').trim()
+
+  const playersMatch = commentary.match(/^(.+?)\s+to\s+(.+?),\s*(.*)$/i)
+  if (!playersMatch) return null
+
+  const bowlerName = playersMatch[1].trim()
+  const batterName = playersMatch[2].trim()
+  const outcomeText = playersMatch[3]
+  const outcome = outcomeText.toLowerCase()
+
+  let runs = 0
+  let extras = 0
+  let extrasType: ExtrasType | undefined
+
+  const runsMatch = outcome.match(/(\d+)\s*runs?\b/)
+  const boundary = /\bsix\b/.test(outcome) ? 6 : /\bfour\b/.test(outcome) ? 4 : 0
+
+  const widesMatch = outcome.match(/(?:(\d+)\s*)?wides?\b/)
+  const noBall = /no[\s-]?ball/.test(outcome)
+  const legByesMatch = outcome.match(/(?:(\d+)\s*)?leg[\s-]?byes?\b/)
+  const byesMatch = outcome.match(/(?:(\d+)\s*)?\bbyes?\b/)
+
+  if (widesMatch) {
+    extrasType = 'wide'
+    extras = parseInt(widesMatch[1]) || 1
+  } else if (noBall) {
+    // One-run penalty plus whatever came off the bat
+    extrasType = 'no_ball'
+    extras = 1
+    runs = boundary || (runsMatch ? parseInt(runsMatch[1]) : 0)
+  } else if (legByesMatch) {
+    extrasType = 'leg_bye'
+    extras = parseInt(legByesMatch[1]) || (runsMatch ? parseInt(runsMatch[1]) : 1)
+  } else if (byesMatch) {
+    extrasType = 'bye'
+    extras = parseInt(byesMatch[1]) || (runsMatch ? parseInt(runsMatch[1]) : 1)
+  } else {
+    runs = boundary || (runsMatch ? parseInt(runsMatch[1]) : 0)
+  }
+
+  const isWicket = /\bout\b/.test(outcome.replace(/not out/g, '')) || /\bwicket\b/.test(outcome)
+
+  return {
+    bowlerName,
+    batterName,
+    runs,
+    extras,
+    extrasType,
+    isWicket,
+    playerOut: isWicket ? dismissedBatter(outcomeText, batterName) : undefined,
+    commentary,
+  }
+}
+
+/**
+ * The batter out on a wicket ball
+ * The commentary names them before the dismissal ("OUT, Raj P run out (Dev M)"), which is how a
+ * non-striker run out is told apart; the striker is assumed when no name is given ("OUT, c Arjun b Dev")
+ */
+function dismissedBatter(outcome: string, striker: string): string {
+  // Drop "OUT!" and "WICKET" so the batter's name starts a clause ("run out" is kept)
+  const dismissal = outcome.replace(/(?<!run\s*)\b(?:out|wicket)\b[!,.:\s-]*/gi, ', ')
+  const named = dismissal.match(
+    /(?:^|[,!.:-]\s*)([A-Z][\w.'-]*(?:\s+[A-Z][\w.'-]*)*)\s+(?:run\s*out|c\s*&\s*b\s|c\s|b\s|lbw\b|st\s|hit\s+wicket|retired|obstructing)/
+  )
+  return named ? named[1] : striker
+}
+
+function isLegalDelivery(delivery: ParsedDelivery): boolean {
+  return delivery.extrasType !== 'wide' && delivery.extrasType !== 'no_ball'
+}
+
+function sumExtras(deliveries: ParsedDelivery[], type: ExtrasType): number {
+  return deliveries
+    .filter(d => d.extrasType === type)
+    .reduce((sum, d) => sum + d.extras, 0)
+}
+
+function compareBalls(a: ParsedDelivery, b: ParsedDelivery): number {
+  return a.over !== b.over ? a.over - b.over : a.ball - b.ball
+}
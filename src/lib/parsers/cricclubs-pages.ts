@@ -0,0 +1,25 @@
+import type { ParsedMatchData } from '@/types/models'
+import { detectPageType, parseCricClubsScorecard } from './cricclubs-parser'
+import { parseBallByBall } from './ball-by-ball-parser'
+import { parseOverByOver } from './over-by-over-parser'
+import { parseInfoPage } from './info-parser'
+
+/**
+ * Parse any supported CricClubs match page, routing on the detected tab
+ * Unsupported tabs fall through to the scorecard parser, which reports them
+ * @throws {ParseError} When the HTML cannot be parsed
+ */
+export function parseCricClubsPage(html: string): ParsedMatchData {
+  const pageType = detectPageType(html)
+
+  switch (pageType.type) {
+    case 'Ball by Ball':
+      return parseBallByBall(html)
+    case 'Over by Over Score':
+      return parseOverByOver(html)
+    case 'Info':
+      return parseInfoPage(html)
+    default:
+      return parseCricClubsScorecard(html)
+  }
+}
@@ -0,0 +1,134 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { ParseError, parseCricClubsScorecard } from './cricclubs-parser'
+
+const BATTING_HEADER = '<tr><th colspan="2">Batter</th><th>R</th><th>B</th><th>4s</th><th>6s</th><th>SR</th></tr>'
+const BOWLING_HEADER = '<tr><th>Bowling</th><th>O</th><th>M</th><th>Dot</th><th>R</th><th>W</th><th>Econ</th></tr>'
+
+function row(name: string, cells: (string | number)[]): string {
+  const link = `<a href="viewPlayer.do?playerId=${encodeURIComponent(name)}"><b>${name}</b></a>`
+  return `<tr><td>${link}</td>${cells.map(cell => `<td>${cell}</td>`).join('')}</tr>`
+}
+
+function innings(
+  number: number,
+  header: string,
+  batting: string[],
+  bowling: string[],
+  { battingHeader = BATTING_HEADER, bowlingHeader = BOWLING_HEADER } = {}
+): string {
+  return `
+    <div id="ballByBallTeam${number}">
+      <div class="match-table-innings">
+        <table>
+          <thead><tr><th colspan="7">${header}</th></tr>${battingHeader}</thead>
+          <tbody>${batting.join('')}</tbody>
+        </table>
+      </div>
+      <div class="match-innings-bottom-all">
+        <table><thead>${bowlingHeader}</thead><tbody>${bowling.join('')}</tbody></table>
+      </div>
+    </div>`
+}
+
+// A saved Full Scorecard page for "<team1> vs <team2>"
+function scorecard(team1: string, team2: string, inningsHtml: string[]): string {
+  return `<!-- saved from url=(0070)https://cricclubs.com/UCLA/fullScorecard.do?matchId=101&clubId=1 -->
+    <html>
+      <head><title>League: ${team1} vs ${team2} - Los Angeles Cricket Academy</title></head>
+      <body>
+        <div class="ms-league-name">League <span>01/20/2024</span></div>
+        ${inningsHtml.join('')}
+      </body>
+    </html>`
+}
+
+test('takes multi-word team names from the innings headers, in batting order', () => {
+  const data = parseCricClubsScorecard(scorecard('UCLA', 'Royal Strikers', [
+    innings(1, 'Royal Strikers innings 120/2 (20.0 overs)', [
+      row('Arjun K', ['b Naman S', 70, 50, 6, 2, '140.0']),
+      row('Tanmay D', ['c Raj P b Dev M', 50, 40, 4, 1, '125.0']),
+    ], [
+      row('Naman S', [4, 0, 10, 60, 1, '15.0']),
+      row('Dev M', [4, 0, 12, 60, 1, '15.0']),
+    ]),
+    innings(2, 'UCLA innings 121/1 (18.0 overs)', [
+      row('Naman S', ['b Arjun K', 21, 20, 2, 0, '105.0']),
+      row('Raj P', ['not out', 100, 88, 10, 3, '113.6']),
+    ], [
+      row('Arjun K', [4, 0, 10, 61, 1, '15.3']),
+      row('Tanmay D', [4, 0, 9, 60, 0, '15.0']),
+    ]),
+  ]))
+
+  assert.deepEqual(data.teams, ['UCLA', 'Royal Strikers'])
+  assert.deepEqual(data.innings.map(inn => inn.team), ['Royal Strikers', 'UCLA'])
+  assert.deepEqual(data.innings[0].battingEntries.map(entry => entry.playerName), ['Arjun K', 'Tanmay D'])
+})
+
+test('keeps multi-word names on second innings and super over headers', () => {
+  const data = parseCricClubsScorecard(scorecard('Bruins CC', 'Royal Strikers', [
+    innings(1, 'Royal Strikers 2nd innings 90/1 (12.0 overs)', [row('Arjun K', ['not out', 90, 70, 8, 2, '128.5'])], []),
+    innings(2, 'Bruins CC Super Over innings 12/0 (1.0 overs)', [row('Raj P', ['not out', 12, 6, 1, 1, '200.0'])], []),
+  ]))
+
+  assert.deepEqual(data.innings.map(inn => inn.team), ['Royal Strikers', 'Bruins CC'])
+})
+
+test('reads batting figures under a header cell spanning the name and dismissal columns', () => {
+  const data = parseCricClubsScorecard(scorecard('UCLA', 'Royal Strikers', [
+    innings(1, 'UCLA innings 45/1 (5.0 overs)', [row('Raj P', ['c Arjun K b Dev M', 45, 30, 4, 2, '150.0'])], [], {
+      battingHeader: '<tr><th colspan="2">Batter</th><th>R</th><th>B</th><th>4s</th><th>6s</th><th>SR</th></tr>',
+    }),
+  ]))
+
+  const [entry] = data.innings[0].battingEntries
+  assert.deepEqual([entry.runs, entry.balls, entry.fours, entry.sixes], [45, 30, 4, 2])
+})
+
+test('follows the header when columns are reordered or added', () => {
+  const data = parseCricClubsScorecard(scorecard('UCLA', 'Royal Strikers', [
+    innings(1, 'UCLA innings 45/1 (5.0 overs)', [row('Raj P', ['c Arjun K b Dev M', 30, 45, 52, 4, 2, '150.0'])], [
+      row('Arjun K', [2, 0, 18, 1, 3, 1, '9.0']),
+    ], {
+      battingHeader: '<tr><th>Batter</th><th></th><th>B</th><th>R</th><th>M</th><th>4s</th><th>6s</th><th>SR</th></tr>',
+      bowlingHeader: '<tr><th>Bowling</th><th>O</th><th>M</th><th>R</th><th>W</th><th>Wd</th><th>NB</th><th>Econ</th></tr>',
+    }),
+  ]))
+
+  const [batting] = data.innings[0].battingEntries
+  assert.deepEqual([batting.runs, batting.balls, batting.fours, batting.sixes], [45, 30, 4, 2])
+  const [bowling] = data.innings[0].bowlingEntries
+  assert.deepEqual(
+    [bowling.overs, bowling.maidens, bowling.runs, bowling.wickets, bowling.wides, bowling.noBalls],
+    [2, 0, 18, 1, 3, 1]
+  )
+})
+
+test('rejects a table whose header has no runs or balls column', () => {
+  const html = scorecard('UCLA', 'Royal Strikers', [
+    innings(1, 'UCLA innings 45/1 (5.0 overs)', [row('Raj P', ['c Arjun K b Dev M', '45 (30)'])], [], {
+      battingHeader: '<tr><th>Batter</th><th>Dismissal</th><th>Score</th></tr>',
+    }),
+  ])
+
+  assert.throws(
+    () => parseCricClubsScorecard(html),
+    (error: unknown) => error instanceof ParseError && error.code === 'UNKNOWN_TABLE_LAYOUT'
+  )
+})
+
+test('flags fielders credited only as substitutes', () => {
+  const data = parseCricClubsScorecard(scorecard('UCLA', 'Royal Strikers', [
+    innings(1, 'Royal Strikers innings 40/3 (6.0 overs)', [
+      row('Arjun K', ['c (sub) Vikram S b Naman S', 20, 12, 2, 1, '166.6']),
+      row('Tanmay D', ['run out (Raj P)', 10, 8, 1, 0, '125.0']),
+      row('Dev M', ['c Raj P b Naman S', 10, 9, 1, 0, '111.1']),
+    ], []),
+  ]))
+
+  assert.deepEqual(
+    data.innings[0].fieldingEntries.map(entry => [entry.playerName, entry.catches, entry.runOuts, entry.isSubstitute]),
+    [['Vikram S', 1, 0, true], ['Raj P', 1, 1, false]]
+  )
+})
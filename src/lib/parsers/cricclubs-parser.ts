@@ -1,12 +1,56 @@
 import * as cheerio from 'cheerio'
-import type { ParsedMatchData, ParsedBattingEntry, ParsedBowlingEntry, ParsedFieldingEntry } from '@/types/models'
+import type {
+  ParsedMatchData,
+  ParsedBattingEntry,
+  ParsedBowlingEntry,
+  ParsedFieldingEntry,
+  ParsedFallOfWicket,
+  ParsedDidNotBatEntry,
+  ParsedStage,
+  CricClubsPageType,
+  MergeConflict,
+  MergedMatchData,
+} from '@/types/models'
 import { createHash } from 'crypto'
+import { parseDismissal, isDismissed } from './dismissal-parser'
+
+// Label of the line listing players who did not get to bat
+const DID_NOT_BAT_LABEL = /did not bat|yet to bat|dnb\s*:/i
+
+// Header labels of the batting table columns, compared without case, spaces or punctuation
+const BATTING_COLUMNS = {
+  runs: ['r', 'runs'],
+  balls: ['b', 'balls'],
+  fours: ['4s', 'fours'],
+  sixes: ['6s', 'sixes'],
+  strikeRate: ['sr', 's/r', 'strikerate'],
+}
+
+// Header labels of the bowling table columns
+const BOWLING_COLUMNS = {
+  overs: ['o', 'ov', 'overs'],
+  maidens: ['m', 'maidens'],
+  dots: ['dot', 'dots', '0s'],
+  runs: ['r', 'runs'],
+  wickets: ['w', 'wkts', 'wickets'],
+  wides: ['wd', 'wides'],
+  noBalls: ['nb', 'noballs'],
+  economy: ['econ', 'eco', 'er', 'economy'],
+}
 
 // Custom error class for parsing errors
 export class ParseError extends Error {
   constructor(
     message: string,
-    public code: 'WRONG_PAGE_TYPE' | 'NO_BATTING_DATA' | 'NO_TEAMS_FOUND' | 'INVALID_HTML' | 'PARSE_FAILED',
+    public code:
+      | 'WRONG_PAGE_TYPE'
+      | 'NO_BATTING_DATA'
+      | 'NO_DELIVERY_DATA'
+      | 'NO_TEAMS_FOUND'
+      | 'INVALID_HTML'
+      | 'UNKNOWN_TABLE_LAYOUT'
+      | 'INVALID_ROSTER'
+      | 'PARSE_FAILED',
     public details?: string
   ) {
     super(message)
@@ -17,7 +61,7 @@ export class ParseError extends Error {
 /**
  * Detect the page type from CricClubs HTML
  */
-function detectPageType(html: string): { type: string; isFullScorecard: boolean } {
+export function detectPageType(html: string): { type: CricClubsPageType; isFullScorecard: boolean } {
   // Check the URL in the saved HTML comment
   const urlMatch = html.match(/saved from url=\([^)]+\)([^\s"]+)/)
   const url = urlMatch ? urlMatch[1] : ''
@@ -43,11 +87,9 @@ function detectPageType(html: string): { type: string; isFullScorecard: boolean
 }
 
 /**
- * Parse CricClubs HTML scorecard
- * @throws {ParseError} When the HTML cannot be parsed
+ * Throw if the uploaded content is too small to be a saved CricClubs page
  */
-export function parseCricClubsScorecard(html: string): ParsedMatchData {
-  // Validate HTML is not empty
+export function assertHtmlContent(html: string): void {
   if (!html || html.trim().length < 100) {
     throw new ParseError(
       'Invalid HTML content - file appears to be empty or too small',
@@ -55,22 +97,20 @@ export function parseCricClubsScorecard(html: string): ParsedMatchData {
       'The uploaded file does not contain valid HTML content.'
     )
   }
+}
 
-  // Detect page type
-  const pageType = detectPageType(html)
-  if (!pageType.isFullScorecard) {
-    throw new ParseError(
-      `Wrong page type: "${pageType.type}"`,
-      'WRONG_PAGE_TYPE',
-      `You uploaded the "${pageType.type}" page. Please download and upload the "Full Scorecard" page from CricClubs instead. Go to the match → click "Full Scorecard" tab → save the page.`
-    )
-  }
-
-  const $ = cheerio.load(html)
-  
-  // Extract match metadata
+/**
+ * Parse the match header shared by every CricClubs match page
+ * (teams from the title, date, competition and the match type label)
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function parseMatchHeader($: any): {
+  teams: [string, string]
+  date: string
+  competition: string
+  matchTypeText: string
+} {
   const title = $('title').text() // "Semi Final: UCSD vs UCLA - Los Angeles Cricket Academy"
-  const metaDescription = $('meta[name="description"]').attr('content') || ''
   
   // Parse teams from title
   const teamsMatch = title.match(/:\s*(.+?)\s*vs\s*(.+?)\s*-/)
@@ -86,37 +126,71 @@ export function parseCricClubsScorecard(html: string): ParsedMatchData {
   // Parse competition name
   const competition = $('.match-summary h3 strong').first().text().trim()
   
-  // Parse match type (Semi Final, Final, League, etc.)
+  // Match type label (Semi Final, Final, League, etc.)
   const matchTypeText = $('.ms-league-name').text().split(/\d/)[0].trim()
+  
+  return { teams, date, competition, matchTypeText }
+}
+
+/**
+ * Parse CricClubs HTML scorecard
+ * @throws {ParseError} When the HTML cannot be parsed
+ */
+export function parseCricClubsScorecard(html: string): ParsedMatchData {
+  // Validate HTML is not empty
+  assertHtmlContent(html)
+
+  // Detect page type
+  const pageType = detectPageType(html)
+  if (!pageType.isFullScorecard) {
+    throw new ParseError(
+      `Wrong page type: "${pageType.type}"`,
+      'WRONG_PAGE_TYPE',
+      `You uploaded the "${pageType.type}" page. Please download and upload the "Full Scorecard" page from CricClubs instead. Go to the match → click "Full Scorecard" tab → save the page.`
+    )
+  }
+
+  const $ = cheerio.load(html)
+  
+  // Extract match metadata
+  const { teams, date, competition, matchTypeText } = parseMatchHeader($)
   const matchType = inferMatchType(matchTypeText)
+  const stage = inferStage(`${$('title').text().split(':')[0]} ${$('.ms-league-name').text()}`)
   
   // Parse result
-  const resultText = $('.score-top h3').last().text().trim()
+  const resultText = $('.score-top h3').last().text().replace(/\s+/g, ' ').trim()
   const result = inferResult(resultText, teams)
+  const oversLimit = inferOversLimit(`${$('title').text()} ${competition} ${matchTypeText}`)
   
-  // Parse both innings
+  // Parse every innings
   const innings: ParsedMatchData['innings'] = []
   
-  // Find innings tables - they're in #ballByBallTeam1 and #ballByBallTeam2
-  const inningsDivs = ['#ballByBallTeam1', '#ballByBallTeam2']
+  // Find innings tables - they're in #ballByBallTeam1, #ballByBallTeam2, ... in batting order
+  // (two-innings matches and super overs add #ballByBallTeam3 onwards)
+  const inningsNumber = (div: any) => parseInt(($(div).attr('id') || '').replace('ballByBallTeam', ''))
+  const inningsDivs = $('[id^="ballByBallTeam"]')
+    .toArray()
+    .filter((div: any) => /^ballByBallTeam\d+$/.test($(div).attr('id') || ''))
+    .sort((a: any, b: any) => inningsNumber(a) - inningsNumber(b))
   
-  inningsDivs.forEach((divId, index) => {
-    const inningsDiv = $(divId)
-    if (!inningsDiv.length) return
+  inningsDivs.forEach((div: any, index: number) => {
+    const inningsDiv = $(div)
     
     // Get team name from the innings header
     const teamNameHeader = inningsDiv.find('th:contains("innings")').first().text()
-    const teamNameMatch = teamNameHeader.match(/^(\w+)\s+innings/)
-    const teamName = teamNameMatch ? teamNameMatch[1] : teams[index]
+    // "Royal Strikers innings", "Royal Strikers 2nd innings", "Royal Strikers Super Over innings"
+    const teamNameMatch = teamNameHeader.match(/^\s*(.+?)\s+(?:\d+(?:st|nd|rd|th)\s+|super\s*over\s+)?innings/i)
+    const teamName = teamNameMatch ? teamNameMatch[1].trim() : teams[index % 2]
     
     const battingEntries: ParsedBattingEntry[] = []
     let position = 1
     
-    // Parse batting table rows
+    // Parse batting table rows, reading the stats by their column headers
     const battingTable = inningsDiv.find('.match-table-innings table').first()
+    const battingColumns = mapTableColumns($, battingTable, BATTING_COLUMNS, ['runs', 'balls'], `${teamName} batting`)
     battingTable.find('tbody tr').each((_: number, row: any) => {
       const $row = $(row)
-      const cells = $row.find('th')
+      const cells = $row.find('td, th')
       
       // Skip extras and total rows
       const firstCellText = cells.first().text().trim()
@@ -124,37 +198,35 @@ export function parseCricClubsScorecard(html: string): ParsedMatchData {
         return
       }
       
+      // The did not bat line is parsed separately
+      if (DID_NOT_BAT_LABEL.test(firstCellText)) {
+        return
+      }
+      
       // Get player name from the link
       const playerLink = cells.first().find('a[href*="viewPlayer"]').first()
       if (!playerLink.length) return
       
-      let playerName = playerLink.find('b').text().trim()
-      if (!playerName) {
-        playerName = playerLink.text().trim()
-      }
-      
-      // Remove asterisk from name (indicates captain/keeper)
-      playerName = playerName.replace(/\*$/, '').trim()
+      // Split the captain (*) and wicket keeper (†) markers off the name
+      const { playerName, isCaptain, isWicketKeeper } = parsePlayerRoles(
+        playerLink.find('b').text().trim() || playerLink.text().trim()
+      )
       
       // Check for "not out" indicator
       const dismissalCell = cells.eq(1)
       const dismissalText = dismissalCell.text().trim()
-      const notOut = dismissalText.toLowerCase() === 'not out' || 
-                     playerName.endsWith('*') ||
+      const dismissal = parseDismissal(dismissalText)
+      const notOut = !isDismissed(dismissal.kind) || 
                      cells.first().text().includes('not out')
       
-      // Clean player name
-      playerName = playerName.replace(/\*$/, '').trim()
-      
-      // Parse stats - find the cells with numbers
-      const statCells = cells.slice(2) // Skip name and dismissal columns
-      const runs = parseInt(statCells.eq(0).text().trim()) || 0
-      const balls = parseInt(statCells.eq(1).text().trim()) || 0
-      const fours = parseInt(statCells.eq(2).text().trim()) || 0
-      const sixes = parseInt(statCells.eq(3).text().trim()) || 0
+      // Parse stats from their columns
+      const runs = cellNumber(cells, battingColumns.runs)
+      const balls = cellNumber(cells, battingColumns.balls)
+      const fours = cellNumber(cells, battingColumns.fours)
+      const sixes = cellNumber(cells, battingColumns.sixes)
       
       // Check if bowled or LBW
-      const isBowledOrLBW = checkBowledOrLBW(dismissalText)
+      const isBowledOrLBW = dismissal.kind === 'bowled' || dismissal.kind === 'lbw'
       
       battingEntries.push({
         playerName,
@@ -164,8 +236,11 @@ export function parseCricClubsScorecard(html: string): ParsedMatchData {
         sixes,
         notOut,
         dismissalText,
+        dismissal: notOut && dismissal.kind === 'unknown' ? { kind: 'not_out' } : dismissal,
         battingPosition: position++,
         isBowledOrLBW,
+        isCaptain,
+        isWicketKeeper,
       })
     })
     
@@ -207,8 +282,19 @@ export function parseCricClubsScorecard(html: string): ParsedMatchData {
       legByes: legByesMatch ? parseInt(legByesMatch[1]) : 0,
     }
     
+    // Parse fall of wickets ("1-12 (Naman S, 2.3 ov), 2-45 ...")
+    const fallOfWickets = parseFallOfWickets($, inningsDiv)
+    
+    // Players who did not bat ("Did not bat: Raj P, Dev M")
+    const didNotBat = parseDidNotBat($, inningsDiv)
+    
+    // A limited-overs match has no second innings, so anything after the first two is a super over
+    const isSuperOver = /super\s*over/i.test(teamNameHeader) ||
+      (index >= 2 && (oversLimit !== undefined || overs <= 1))
+    
     innings.push({
       team: teamName,
+      isSuperOver,
       battingEntries,
       bowlingEntries,
       fieldingEntries,
@@ -217,6 +303,8 @@ export function parseCricClubsScorecard(html: string): ParsedMatchData {
       overs,
       extras: extrasTotal,
       extrasBreakdown,
+      fallOfWickets,
+      didNotBat,
     })
   })
   
@@ -240,12 +328,16 @@ export function parseCricClubsScorecard(html: string): ParsedMatchData {
   }
   
   return {
+    source: 'Full Scorecard',
     date,
     teams,
     venue: undefined, // Could parse from page if available
     competition,
     matchType,
+    stage,
     result,
+    resultText: resultText || undefined,
+    oversLimit,
     innings,
   }
 }
@@ -294,6 +386,8 @@ function parseBowlingTable($: any, inningsDiv: any): ParsedBowlingEntry[] {
   
   if (!bowlingTable.length) return bowlingEntries
   
+  const columns = mapTableColumns($, bowlingTable, BOWLING_COLUMNS, ['overs', 'runs', 'wickets'], 'bowling')
+  
   // Parse rows - try tbody first, then all tr
   let rows = bowlingTable.find('tbody tr')
   if (!rows.length) {
@@ -301,7 +395,7 @@ function parseBowlingTable($: any, inningsDiv: any): ParsedBowlingEntry[] {
   }
   
   rows.each((_: number, row: any) => {
-    const entry = parseBowlingRow($, $(row))
+    const entry = parseBowlingRow($, $(row), columns)
     if (entry) bowlingEntries.push(entry)
   })
   
@@ -310,86 +404,46 @@ function parseBowlingTable($: any, inningsDiv: any): ParsedBowlingEntry[] {
 
 /**
  * Parse a single bowling row from CricClubs
- * Row structure varies but typically includes: Name, O, M, Dot/R, R/Dot, W, Econ
+ * Stats are read from the columns mapped from the table header
  */
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-function parseBowlingRow($: any, $row: any): ParsedBowlingEntry | null {
+function parseBowlingRow($: any, $row: any, columns: TableColumns<keyof typeof BOWLING_COLUMNS>): ParsedBowlingEntry | null {
   const cells = $row.find('td, th')
-  if (cells.length < 5) return null
+  if (cells.length < 4) return null
   
   // Find the cell with the player link - check multiple positions
-  let playerName = ''
-  let dataStartIndex = 0
+  let rawName = ''
   
   for (let i = 0; i < Math.min(cells.length, 4); i++) {
     const cell = cells.eq(i)
     // Try multiple ways to find player name
     const playerLink = cell.find('a[href*="viewPlayer"], a[href*="player"]').first()
     if (playerLink.length) {
-      playerName = playerLink.find('b').text().trim() || playerLink.text().trim()
-      dataStartIndex = i + 1
+      rawName = playerLink.find('b').text().trim() || playerLink.text().trim()
       break
     }
     // Try looking for just a bolded name
     const boldName = cell.find('b').first()
     if (boldName.length && !cell.text().toLowerCase().includes('bowling')) {
-      playerName = boldName.text().trim()
-      dataStartIndex = i + 1
+      rawName = boldName.text().trim()
       break
     }
   }
   
   // Skip header rows and empty rows
-  if (!playerName || playerName.toLowerCase() === 'bowling' || playerName.toLowerCase() === 'bowler') {
+  if (!rawName || rawName.toLowerCase() === 'bowling' || rawName.toLowerCase() === 'bowler') {
     return null
   }
   
-  // Clean player name (remove asterisk for captain, etc.)
-  playerName = playerName.replace(/\*$/, '').replace(/†/g, '').trim()
-  
-  // Get the data cells starting after the name
-  const dataCells = cells.slice(dataStartIndex)
-  if (dataCells.length < 4) return null
+  // Split the captain/keeper markers off the name
+  const { playerName, isCaptain, isWicketKeeper } = parsePlayerRoles(rawName)
   
-  // Extract all numeric values from the remaining cells
-  const numericValues: number[] = []
-  dataCells.each((_: number, cell: any) => {
-    const text = $(cell).text().trim().replace(/[<>]/g, '')
-    const num = parseFloat(text)
-    if (!isNaN(num)) {
-      numericValues.push(num)
-    }
-  })
-  
-  if (numericValues.length < 4) return null
-  
-  // CricClubs typical column order: O, M, Dot, R, W, Econ
-  // But sometimes it's: O, M, R, W, Econ (no dots)
-  // Try to detect based on number of columns
-  let overs = 0, maidens = 0, dots = 0, runs = 0, wickets = 0, economy = 0
-  
-  if (numericValues.length >= 6) {
-    // Full format: O, M, Dot, R, W, Econ
-    overs = numericValues[0]
-    maidens = numericValues[1]
-    dots = numericValues[2]
-    runs = numericValues[3]
-    wickets = numericValues[4]
-    economy = numericValues[5]
-  } else if (numericValues.length >= 5) {
-    // Without dots: O, M, R, W, Econ
-    overs = numericValues[0]
-    maidens = numericValues[1]
-    runs = numericValues[2]
-    wickets = numericValues[3]
-    economy = numericValues[4]
-  } else {
-    // Minimal: O, R, W, Econ (or O, M, R, W)
-    overs = numericValues[0]
-    runs = numericValues[1]
-    wickets = numericValues[2]
-    economy = numericValues[3] || 0
-  }
+  const overs = cellNumber(cells, columns.overs)
+  const maidens = cellNumber(cells, columns.maidens)
+  const dots = cellNumber(cells, columns.dots)
+  const runs = cellNumber(cells, columns.runs)
+  const wickets = cellNumber(cells, columns.wickets)
+  let economy = cellNumber(cells, columns.economy)
   
   // Convert overs to balls (4.2 overs = 4*6 + 2 = 26 balls)
   const oversStr = String(overs)
@@ -403,16 +457,18 @@ function parseBowlingRow($: any, $row: any): ParsedBowlingEntry | null {
     economy = runs / overs
   }
   
-  // Look for wides and no-balls in any remaining cells
-  let wides = 0
-  let noBalls = 0
-  dataCells.each((_: number, cell: any) => {
-    const text = $(cell).text().trim().toLowerCase()
-    const widesMatch = text.match(/(\d+)\s*w(?:\)|$|\s)/i)
-    const nbMatch = text.match(/(\d+)\s*nb/i)
-    if (widesMatch) wides = parseInt(widesMatch[1]) || 0
-    if (nbMatch) noBalls = parseInt(nbMatch[1]) || 0
-  })
+  // Wides and no-balls have their own columns, or are noted like "(2w, 1nb)" on older pages
+  let wides = cellNumber(cells, columns.wides)
+  let noBalls = cellNumber(cells, columns.noBalls)
+  if (columns.wides === undefined || columns.noBalls === undefined) {
+    cells.each((_: number, cell: any) => {
+      const text = $(cell).text().trim().toLowerCase()
+      const widesMatch = text.match(/(\d+)\s*w(?:\)|$|\s)/i)
+      const nbMatch = text.match(/(\d+)\s*nb/i)
+      if (widesMatch && columns.wides === undefined) wides = parseInt(widesMatch[1]) || 0
+      if (nbMatch && columns.noBalls === undefined) noBalls = parseInt(nbMatch[1]) || 0
+    })
+  }
   
   return {
     playerName,
@@ -425,103 +481,227 @@ function parseBowlingRow($: any, $row: any): ParsedBowlingEntry | null {
     wides,
     noBalls,
     economy,
+    isCaptain,
+    isWicketKeeper,
   }
 }
 
 /**
- * Parse fielding contributions from dismissal texts
- * Extract catches, run outs, and stumpings
+ * Column positions of a scorecard table by field, e.g. { runs: 2, balls: 3 }
+ * Fields without a column are undefined
+ */
+type TableColumns<F extends string> = Record<F, number | undefined>
+
+/**
+ * Map the columns of a scorecard table from its header row
+ * The header row is the first row with every required label; columns spanning several
+ * cells are counted once per cell so positions line up with the data rows
+ * @throws {ParseError} When the table has player rows but no header row with the required labels
+ */
+function mapTableColumns<L extends Record<string, string[]>>(
+  $: cheerio.CheerioAPI,
+  table: ReturnType<cheerio.CheerioAPI>,
+  labels: L,
+  required: (keyof L & string)[],
+  tableName: string
+): TableColumns<keyof L & string> {
+  type Field = keyof L & string
+  const fields = Object.keys(labels) as Field[]
+  const countFound = (columns: TableColumns<Field>) => fields.filter(field => columns[field] !== undefined).length
+  const empty = Object.fromEntries(fields.map(field => [field, undefined])) as TableColumns<Field>
+  const best = { columns: empty, headers: [] as string[], labels: [] as string[] }
+  
+  table.find('tr').each((_, row) => {
+    // Player rows are data, not headers
+    if ($(row).find('a[href*="viewPlayer"]').length) return
+    
+    const headers: string[] = []
+    const rowLabels: string[] = []
+    $(row).find('td, th').each((_, cell) => {
+      const text = $(cell).text().trim()
+      const span = parseInt($(cell).attr('colspan') || '') || 1
+      for (let i = 0; i < span; i++) headers.push(normalizeColumnLabel(text))
+      if (text) rowLabels.push(text)
+    })
+    
+    const columns = { ...empty }
+    fields.forEach(field => {
+      const index = headers.findIndex(header => labels[field].includes(header))
+      if (index !== -1) columns[field] = index
+    })
+    
+    // Keep the likeliest header row to report when the layout is not recognised
+    const found = countFound(columns) - countFound(best.columns)
+    if (found > 0 || (found === 0 && headers.length > best.headers.length)) {
+      best.columns = columns
+      best.headers = headers
+      best.labels = rowLabels
+    }
+    
+    // Stop at the first row that has every required column
+    if (required.every(field => columns[field] !== undefined)) return false
+  })
+  
+  const missing = required.filter(field => best.columns[field] === undefined)
+  if (missing.length === 0) return best.columns
+  
+  // A table without any players (e.g. an innings that never started) has nothing to misread
+  if (!table.find('a[href*="viewPlayer"]').length) return empty
+  
+  throw new ParseError(
+    `Unrecognised ${tableName} table layout`,
+    'UNKNOWN_TABLE_LAYOUT',
+    `Could not find the ${missing.map(field => labels[field][0].toUpperCase()).join(', ')} ` +
+      `column${missing.length === 1 ? '' : 's'} in the ${tableName} table header` +
+      `${best.labels.length > 0 ? ` (found: ${best.labels.join(', ')})` : ''}. ` +
+      'Make sure you saved the "Full Scorecard" page from CricClubs.'
+  )
+}
+
+function normalizeColumnLabel(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9/]/g, '')
+}
+
+/**
+ * Number in a mapped column, or 0 when the column is missing or empty
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function cellNumber(cells: any, index: number | undefined): number {
+  if (index === undefined) return 0
+  return parseFloat(cells.eq(index).text().trim().replace(/[<>]/g, '')) || 0
+}
+
+/**
+ * Split captain and wicket keeper markers off a scorecard name
+ * Handles "Naman S*", "†Arjun K", "Arjun K (wk)" and "Naman S (c & wk)"
+ */
+function parsePlayerRoles(rawName: string): { playerName: string; isCaptain: boolean; isWicketKeeper: boolean } {
+  const bracketed = rawName.match(/\((c|wk|c\s*(?:&|and)\s*wk)\)/i)?.[1].toLowerCase() || ''
+  const isCaptain = rawName.includes('*') || bracketed.startsWith('c')
+  const isWicketKeeper = rawName.includes('†') || bracketed.includes('wk')
+  
+  const playerName = rawName
+    .replace(/\((c|wk|c\s*(?:&|and)\s*wk)\)/gi, '')
+    .replace(/[*†]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+  
+  return { playerName, isCaptain, isWicketKeeper }
+}
+
+/**
+ * Credit catches, run outs and stumpings from the parsed dismissals
+ * Fielders marked "sub" on every dismissal are flagged as substitutes
  */
 function parseFieldingFromDismissals(battingEntries: ParsedBattingEntry[]): ParsedFieldingEntry[] {
   const fieldingMap = new Map<string, ParsedFieldingEntry>()
   
   battingEntries.forEach(entry => {
-    const dismissal = entry.dismissalText.toLowerCase()
-    
-    // Parse catches: "c PlayerName b Bowler" or "c & b Bowler"
-    const catchMatch = dismissal.match(/^c\s+(?:&\s+b\s+)?([a-z\s]+?)(?:\s+b\s+|$)/i) ||
-                       dismissal.match(/^c\s+([a-z\s]+?)\s+b\s+/i)
+    const { kind, fielderName, isSubstitute } = entry.dismissal
+    if (!fielderName) return
     
-    if (catchMatch) {
-      let catcher = catchMatch[1].trim()
-      // Handle "c & b" (caught and bowled)
-      if (dismissal.includes('c & b') || dismissal.includes('c&b')) {
-        const bowlerMatch = dismissal.match(/c\s*&\s*b\s+([a-z\s]+)/i)
-        if (bowlerMatch) catcher = bowlerMatch[1].trim()
-      }
-      
-      if (catcher && catcher !== 'sub' && catcher !== 'sub)') {
-        // Clean catcher name
-        catcher = cleanFielderName(catcher)
-        if (catcher) {
-          const existing = fieldingMap.get(catcher) || {
-            playerName: catcher,
-            catches: 0,
-            runOuts: 0,
-            stumpings: 0,
-          }
-          existing.catches++
-          fieldingMap.set(catcher, existing)
-        }
-      }
+    const existing = fieldingMap.get(fielderName) || {
+      playerName: fielderName,
+      catches: 0,
+      runOuts: 0,
+      stumpings: 0,
+      isSubstitute: true,
     }
     
-    // Parse run outs: "run out (PlayerName)" or "run out PlayerName"
-    const runOutMatch = dismissal.match(/run\s*out\s*\(?([a-z\s]+?)\)?(?:\s|$)/i)
-    if (runOutMatch) {
-      let fielder = cleanFielderName(runOutMatch[1].trim())
-      if (fielder && fielder !== 'sub') {
-        const existing = fieldingMap.get(fielder) || {
-          playerName: fielder,
-          catches: 0,
-          runOuts: 0,
-          stumpings: 0,
-        }
-        existing.runOuts++
-        fieldingMap.set(fielder, existing)
-      }
-    }
+    if (kind === 'caught' || kind === 'caught_and_bowled') existing.catches++
+    else if (kind === 'run_out') existing.runOuts++
+    else if (kind === 'stumped') existing.stumpings++
+    else return
     
-    // Parse stumpings: "st PlayerName b Bowler"
-    const stumpingMatch = dismissal.match(/^st\s+([a-z\s]+?)\s+b\s+/i)
-    if (stumpingMatch) {
-      let keeper = cleanFielderName(stumpingMatch[1].trim())
-      if (keeper) {
-        const existing = fieldingMap.get(keeper) || {
-          playerName: keeper,
-          catches: 0,
-          runOuts: 0,
-          stumpings: 0,
-        }
-        existing.stumpings++
-        fieldingMap.set(keeper, existing)
-      }
-    }
+    existing.isSubstitute = existing.isSubstitute && !!isSubstitute
+    fieldingMap.set(fielderName, existing)
   })
   
   return Array.from(fieldingMap.values())
 }
 
 /**
- * Clean fielder name from dismissal text
+ * Parse the fall of wickets line of an innings
+ * Handles "1-12 (Naman S, 2.3 ov)" and the "12/1 (Naman S, 2.3)" score-first form
  */
-function cleanFielderName(name: string): string {
-  return name
-    .replace(/[()]/g, '') // Remove parentheses
-    .replace(/\s+/g, ' ') // Normalize spaces
-    .replace(/^(sub|wk|†)\s*/i, '') // Remove sub/wk markers
-    .trim()
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function parseFallOfWickets($: any, inningsDiv: any): ParsedFallOfWicket[] {
+  // Deepest element carrying the "Fall of wickets" label
+  const label = inningsDiv
+    .find('*')
+    .filter((_: number, el: any) => /fall of wickets?/i.test($(el).text()))
+    .last()
+  if (!label.length) return []
+  
+  // The entries sit in the label element itself or in one of its containers
+  let container = label
+  let fowText = ''
+  while (container.length) {
+    const text = container.text().replace(/\s+/g, ' ')
+    fowText = text.slice(text.search(/fall of wickets?/i))
+    if (/\d+\s*[-/]\s*\d+\s*\(/.test(fowText) || container.is(inningsDiv)) break
+    container = container.parent()
+  }
+  
+  const entries: { first: number; second: number; batterName: string; over?: number }[] = []
+  const entryRegex = /(\d+)\s*[-/]\s*(\d+)\s*\(\s*([^,()]+?)\s*(?:,\s*(\d+(?:\.\d+)?)\s*(?:ov|overs?)?\s*)?\)/gi
+  let match
+  while ((match = entryRegex.exec(fowText)) !== null) {
+    entries.push({
+      first: parseInt(match[1]),
+      second: parseInt(match[2]),
+      batterName: match[3].replace(/[*†]/g, '').trim(),
+      over: match[4] ? parseFloat(match[4]) : undefined,
+    })
+  }
+  
+  // Wicket-first lists count 1, 2, 3...; otherwise the score comes first
+  const wicketFirst = entries.every((e, i) => e.first === i + 1)
+  
+  return entries.map(e => ({
+    wicket: wicketFirst ? e.first : e.second,
+    score: wicketFirst ? e.second : e.first,
+    over: e.over,
+    batterName: e.batterName,
+  }))
 }
 
 /**
- * Check if dismissal is bowled or LBW
+ * Parse the "Did not bat" / "Yet to bat" line of an innings
+ * Names are taken from the player links, or from the comma separated text
  */
-function checkBowledOrLBW(dismissalText: string): boolean {
-  const lower = dismissalText.toLowerCase()
-  return lower.startsWith('b ') || 
-         lower === 'bowled' || 
-         lower.includes('lbw') ||
-         lower.startsWith('lbw ')
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function parseDidNotBat($: any, inningsDiv: any): ParsedDidNotBatEntry[] {
+  // Deepest element carrying the label
+  const label = inningsDiv
+    .find('*')
+    .filter((_: number, el: any) => DID_NOT_BAT_LABEL.test($(el).text()))
+    .last()
+  if (!label.length) return []
+  
+  // The names sit in the label element itself or in its row
+  let container = label
+  while (!container.is('tr')) {
+    const text = container.text().replace(/\s+/g, ' ')
+    const afterLabel = text.slice(text.search(DID_NOT_BAT_LABEL)).replace(DID_NOT_BAT_LABEL, '')
+    if (container.find('a[href*="viewPlayer"]').length || /\w/.test(afterLabel)) break
+    if (container.parent().is(inningsDiv)) return []
+    container = container.parent()
+  }
+  
+  const linkedNames: string[] = container
+    .find('a[href*="viewPlayer"]')
+    .map((_: number, el: any) => $(el).text().trim())
+    .get()
+  
+  const text = container.text().replace(/\s+/g, ' ')
+  const names: string[] = linkedNames.length > 0
+    ? linkedNames
+    : text.slice(text.search(DID_NOT_BAT_LABEL)).replace(DID_NOT_BAT_LABEL, '').split(',')
+  
+  return names
+    .map(name => parsePlayerRoles(name.replace(/^\s*:/, '')))
+    .filter(entry => entry.playerName.length > 0)
 }
 
 /**
@@ -566,6 +746,29 @@ function inferResult(text: string, teams: [string, string]): string {
   return 'no_result'
 }
 
+/**
+ * Tournament stage from labels like "Semi Final 1" or "Group B"
+ * Knockout rounds are checked first, so "Semi Final" is not read as the final
+ */
+function inferStage(text: string): ParsedStage | undefined {
+  if (/quarter[\s-]*finals?/i.test(text)) return { type: 'quarter_final', name: 'Quarter Final' }
+  if (/semi[\s-]*finals?/i.test(text)) return { type: 'semi_final', name: 'Semi Final' }
+  if (/\bfinals?\b/i.test(text)) return { type: 'final', name: 'Final' }
+  const group = text.match(/\b(?:group|pool)\s+([A-Z0-9]{1,2})\b/i)
+  if (group) return { type: 'group', name: `Group ${group[1].toUpperCase()}` }
+  return undefined
+}
+
+/**
+ * Overs per side from labels like "T20", "40 overs" or "20 Over League"
+ */
+function inferOversLimit(text: string): number | undefined {
+  const tMatch = text.match(/\bT(10|20)\b/i)
+  if (tMatch) return parseInt(tMatch[1])
+  const oversMatch = text.match(/\b(\d{1,2})\s*[- ]?\s*overs?\b/i)
+  return oversMatch ? parseInt(oversMatch[1]) : undefined
+}
+
 /**
  * Generate content hash for duplicate detection
  */
@@ -599,17 +802,139 @@ export function detectMatchGroup(parsedData: ParsedMatchData[]): Map<string, Par
   return groups
 }
 
+// Which page to trust first when pages disagree on a match-level field
+const DEFAULT_SOURCE_PRIORITY: CricClubsPageType[] = [
+  'Full Scorecard', 'Info', 'Ball by Ball', 'Over by Over Score', 'Charts', 'Unknown',
+]
+const INFO_SOURCE_PRIORITY: CricClubsPageType[] = [
+  'Info', 'Full Scorecard', 'Ball by Ball', 'Over by Over Score', 'Charts', 'Unknown',
+]
+
+const MERGED_FIELDS: { field: MergedField; priority: CricClubsPageType[] }[] = [
+  { field: 'date', priority: DEFAULT_SOURCE_PRIORITY },
+  { field: 'teams', priority: DEFAULT_SOURCE_PRIORITY },
+  { field: 'competition', priority: DEFAULT_SOURCE_PRIORITY },
+  { field: 'matchType', priority: DEFAULT_SOURCE_PRIORITY },
+  { field: 'stage', priority: DEFAULT_SOURCE_PRIORITY },
+  { field: 'result', priority: DEFAULT_SOURCE_PRIORITY },
+  { field: 'resultText', priority: DEFAULT_SOURCE_PRIORITY },
+  { field: 'oversLimit', priority: DEFAULT_SOURCE_PRIORITY },
+  { field: 'venue', priority: INFO_SOURCE_PRIORITY },
+  { field: 'toss', priority: INFO_SOURCE_PRIORITY },
+  { field: 'umpires', priority: INFO_SOURCE_PRIORITY },
+  { field: 'scorers', priority: INFO_SOURCE_PRIORITY },
+  { field: 'startTime', priority: INFO_SOURCE_PRIORITY },
+  { field: 'playerOfMatch', priority: INFO_SOURCE_PRIORITY },
+]
+
+type MergedField = Exclude<keyof ParsedMatchData, 'source' | 'innings'>
+
 /**
- * Merge multiple parsed files for the same match
+ * Merge the pages saved for one match (Full Scorecard, Info, Ball by Ball,
+ * Over by Over Score) into a single ParsedMatchData
+ * Each field comes from its most trusted page; disagreements are returned as conflicts
  */
-export function mergeParsedMatchData(files: ParsedMatchData[]): ParsedMatchData {
-  // Use the file with the most batting entries as the primary
-  const primary = files.reduce((best, current) => {
-    const currentEntries = current.innings.reduce((sum, inn) => sum + inn.battingEntries.length, 0)
-    const bestEntries = best.innings.reduce((sum, inn) => sum + inn.battingEntries.length, 0)
-    return currentEntries > bestEntries ? current : best
+export function mergeParsedMatchData(files: ParsedMatchData[]): MergedMatchData {
+  if (files.length === 0) {
+    throw new ParseError('No pages to merge', 'PARSE_FAILED', 'Upload at least one CricClubs page for the match.')
+  }
+
+  const sourceOf = (file: ParsedMatchData): CricClubsPageType => file.source || 'Unknown'
+  const ranked = (priority: CricClubsPageType[]) =>
+    [...files].sort((a, b) => priority.indexOf(sourceOf(a)) - priority.indexOf(sourceOf(b)))
+
+  const conflicts: MergeConflict[] = []
+  const recordConflict = (
+    field: string,
+    chosen: { file: ParsedMatchData; value: unknown },
+    others: { file: ParsedMatchData; value: unknown }[]
+  ) => {
+    const discarded = others.filter(o => normalizeMergeValue(o.value) !== normalizeMergeValue(chosen.value))
+    if (discarded.length === 0) return
+    conflicts.push({
+      field,
+      chosen: { source: sourceOf(chosen.file), value: formatMergeValue(chosen.value) },
+      discarded: discarded.map(o => ({ source: sourceOf(o.file), value: formatMergeValue(o.value) })),
+    })
+  }
+
+  // Step 1: match-level fields from the most trusted page that has them
+  const base = ranked(DEFAULT_SOURCE_PRIORITY)[0]
+  const merged: ParsedMatchData = { ...base, innings: [] }
+
+  MERGED_FIELDS.forEach(({ field, priority }) => {
+    const candidates = ranked(priority)
+      .filter(file => hasMergeValue(field, file[field]))
+      .map(file => ({ file, value: file[field] }))
+    if (candidates.length === 0) return
+
+    Object.assign(merged, { [field]: candidates[0].value })
+    recordConflict(field, candidates[0], candidates.slice(1))
   })
-  
-  return primary
+
+  // Step 2: innings from the scorecard, enriched by the other pages
+  const inningsSources = ranked(DEFAULT_SOURCE_PRIORITY).filter(file => file.innings.length > 0)
+  const [primary, ...others] = inningsSources
+
+  merged.innings = (primary?.innings || []).map(inn => ({ ...inn }))
+
+  others.forEach(file => {
+    file.innings.forEach((inn, index) => {
+      // A team bats more than once in two-innings matches and super overs, so the same position wins
+      const sameTeam = (m: ParsedMatchData['innings'][number]) => m.team.toLowerCase() === inn.team.toLowerCase()
+      const target = (merged.innings[index] && sameTeam(merged.innings[index]) ? merged.innings[index] : undefined)
+        || merged.innings.find(sameTeam)
+        || merged.innings[index]
+
+      if (!target) {
+        merged.innings.push({ ...inn })
+        return
+      }
+
+      const inningsNumber = merged.innings.indexOf(target) + 1
+      const primaryFile = primary || file
+      recordConflict(`innings[${inningsNumber}].total`, { file: primaryFile, value: target.total }, [{ file, value: inn.total }])
+      recordConflict(`innings[${inningsNumber}].wickets`, { file: primaryFile, value: target.wickets }, [{ file, value: inn.wickets }])
+
+      if (!target.deliveries?.length && inn.deliveries?.length) target.deliveries = inn.deliveries
+      if (!target.overSummaries?.length && inn.overSummaries?.length) target.overSummaries = inn.overSummaries
+      if (!target.extrasBreakdown && inn.extrasBreakdown) target.extrasBreakdown = inn.extrasBreakdown
+    })
+  })
+
+  return {
+    data: merged,
+    sources: files.map(sourceOf),
+    conflicts,
+  }
+}
+
+function hasMergeValue(field: MergedField, value: unknown): boolean {
+  if (value === undefined || value === null || value === '') return false
+  if (Array.isArray(value)) {
+    // Header parsing falls back to "Unknown" team names
+    return value.length > 0 && !(field === 'teams' && value.every(v => v === 'Unknown'))
+  }
+  return true
+}
+
+/**
+ * Comparable form of a field value - case, whitespace and order insensitive
+ */
+function normalizeMergeValue(value: unknown): string {
+  if (typeof value === 'string') return value.trim().toLowerCase()
+  if (Array.isArray(value)) return JSON.stringify(value.map(normalizeMergeValue).sort())
+  if (value && typeof value === 'object') {
+    return JSON.stringify(
+      Object.keys(value).sort().map(key => [key, normalizeMergeValue((value as Record<string, unknown>)[key])])
+    )
+  }
+  return String(value)
+}
+
+function formatMergeValue(value: unknown): string {
+  if (Array.isArray(value)) return value.join(', ')
+  if (value && typeof value === 'object') return JSON.stringify(value)
+  return String(value)
 }
 
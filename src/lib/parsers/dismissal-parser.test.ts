@@ -0,0 +1,37 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import type { ParsedDismissal } from '@/types/models'
+import { isDismissed, parseDismissal } from './dismissal-parser'
+
+// Dismissal text as it appears on saved CricClubs scorecards
+const DISMISSALS: [string, ParsedDismissal][] = [
+  ['c Naman S b Tanmay D', { kind: 'caught', fielderName: 'Naman S', bowlerName: 'Tanmay D', isSubstitute: false }],
+  ['c †Arjun K b Dev M', { kind: 'caught', fielderName: 'Arjun K', bowlerName: 'Dev M', isSubstitute: false }],
+  ['c (sub) Vikram S b Dev M', { kind: 'caught', fielderName: 'Vikram S', bowlerName: 'Dev M', isSubstitute: true }],
+  ['c & b Tanmay D', { kind: 'caught_and_bowled', fielderName: 'Tanmay D', bowlerName: 'Tanmay D' }],
+  ['st †Arjun K b Dev M', { kind: 'stumped', fielderName: 'Arjun K', bowlerName: 'Dev M' }],
+  ['run out (Raj P/Dev M)', { kind: 'run_out', fielderName: 'Raj P', isSubstitute: false }],
+  ['run out (sub Vikram S)', { kind: 'run_out', fielderName: 'Vikram S', isSubstitute: true }],
+  ['lbw b Dev M', { kind: 'lbw', bowlerName: 'Dev M' }],
+  ['b Tanmay D', { kind: 'bowled', bowlerName: 'Tanmay D' }],
+  ['hit wicket b Dev M', { kind: 'hit_wicket', bowlerName: 'Dev M' }],
+  ['retired hurt', { kind: 'retired_hurt' }],
+  ['retired out', { kind: 'retired_out' }],
+  ['timed out', { kind: 'timed_out' }],
+  ['obstructing the field', { kind: 'obstructing_the_field' }],
+  ['not out', { kind: 'not_out' }],
+  ['', { kind: 'unknown' }],
+]
+
+test('parses each kind of scorecard dismissal', () => {
+  for (const [text, expected] of DISMISSALS) {
+    assert.deepEqual(parseDismissal(text), expected, text)
+  }
+})
+
+test('only counts dismissals against the batter', () => {
+  assert.equal(isDismissed('caught'), true)
+  assert.equal(isDismissed('retired_out'), true)
+  assert.equal(isDismissed('retired_hurt'), false)
+  assert.equal(isDismissed('not_out'), false)
+})
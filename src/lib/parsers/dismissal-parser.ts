@@ -0,0 +1,104 @@
+import type { DismissalKind, ParsedDismissal } from '@/types/models'
+
+export const DISMISSAL_LABELS: Record<DismissalKind, string> = {
+  bowled: 'Bowled',
+  caught: 'Caught',
+  caught_and_bowled: 'Caught & Bowled',
+  lbw: 'LBW',
+  stumped: 'Stumped',
+  run_out: 'Run Out',
+  hit_wicket: 'Hit Wicket',
+  retired_hurt: 'Retired Hurt',
+  retired_out: 'Retired Out',
+  obstructing_the_field: 'Obstructing the Field',
+  timed_out: 'Timed Out',
+  not_out: 'Not Out',
+  unknown: 'Unknown',
+}
+
+/**
+ * Parse scorecard dismissal text into a typed dismissal
+ * Examples: "c Naman S b Tanmay D", "c & b Tanmay D", "st †Arjun b Dev",
+ * "run out (Raj P/Dev M)", "lbw b Dev", "retired hurt"
+ */
+export function parseDismissal(text: string | null | undefined): ParsedDismissal {
+  const dismissal = (text || '').replace(/\s+/g, ' ').trim()
+  const lower = dismissal.toLowerCase()
+
+  if (!dismissal) return { kind: 'unknown' }
+  if (lower === 'not out') return { kind: 'not_out' }
+
+  // Retirements first - "retired not out" is a retired hurt
+  if (/^(retired|rtd)\s*(hurt|not out|ill)/.test(lower)) return { kind: 'retired_hurt' }
+  if (/^(retired|rtd)(\s*out)?$/.test(lower)) return { kind: 'retired_out' }
+  if (/^timed\s*out/.test(lower)) return { kind: 'timed_out' }
+  if (/^obstruct/.test(lower)) return { kind: 'obstructing_the_field' }
+
+  const hitWicket = dismissal.match(/^(?:hit\s*wicket|hw)(?:\s+b\s+(.+))?$/i)
+  if (hitWicket) return { kind: 'hit_wicket', bowlerName: cleanName(hitWicket[1]) }
+
+  const lbw = dismissal.match(/^lbw(?:\s+b\s+(.+))?$/i)
+  if (lbw) return { kind: 'lbw', bowlerName: cleanName(lbw[1]) }
+
+  const caughtAndBowled = dismissal.match(/^c\s*(?:&|and)\s*b\s+(.+)$/i)
+  if (caughtAndBowled) {
+    const bowlerName = cleanName(caughtAndBowled[1])
+    return { kind: 'caught_and_bowled', bowlerName, fielderName: bowlerName }
+  }
+
+  const caught = dismissal.match(/^c\s+(.+?)(?:\s+b\s+(.+))?$/i)
+  if (caught) {
+    return {
+      kind: 'caught',
+      fielderName: cleanName(caught[1]),
+      bowlerName: cleanName(caught[2]),
+      isSubstitute: isSubstitute(caught[1]),
+    }
+  }
+
+  const stumped = dismissal.match(/^st\s+(.+?)(?:\s+b\s+(.+))?$/i)
+  if (stumped) {
+    return { kind: 'stumped', fielderName: cleanName(stumped[1]), bowlerName: cleanName(stumped[2]) }
+  }
+
+  // "run out (Raj P)", "run out Raj P", "run out (Raj P/Dev M)" - the first fielder is credited
+  const runOut = dismissal.match(/^run\s*out\s*\(?\s*([^)]*?)\s*\)?$/i)
+  if (runOut) {
+    const fielder = runOut[1].split('/')[0]
+    return {
+      kind: 'run_out',
+      fielderName: cleanName(fielder),
+      isSubstitute: isSubstitute(fielder),
+    }
+  }
+
+  const bowled = dismissal.match(/^(?:b|bowled)(?:\s+(.+))?$/i)
+  if (bowled) return { kind: 'bowled', bowlerName: cleanName(bowled[1]) }
+
+  return { kind: 'unknown' }
+}
+
+/**
+ * Whether a dismissal counts against the batter (retired hurt and not out do not)
+ */
+export function isDismissed(kind: DismissalKind): boolean {
+  return kind !== 'not_out' && kind !== 'retired_hurt'
+}
+
+/**
+ * Remove substitute/keeper markers and brackets from a name in dismissal text
+ */
+function cleanName(name: string | undefined): string | undefined {
+  if (!name) return undefined
+  const cleaned = name
+    .replace(/[()[\]]/g, '') // Remove brackets
+    .replace(/[†*]/g, '') // Remove keeper/captain markers
+    .replace(/^(sub|wk)\b\s*/i, '') // Remove sub/wk prefixes
+    .replace(/\s+/g, ' ')
+    .trim()
+  return cleaned || undefined
+}
+
+function isSubstitute(name: string | undefined): boolean {
+  return /^\s*\(?\s*sub\b/i.test(name || '')
+}
@@ -0,0 +1,58 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { parseInfoPage } from './info-parser'
+import { ParseError } from './cricclubs-parser'
+
+// A saved Info page with the given match details
+function infoPage(details: string): string {
+  return `<!-- saved from url=(0060)https://cricclubs.com/UCLA/info.do?matchId=101&clubId=1 -->
+    <html>
+      <head><title>League: UCLA vs Royal Strikers - Los Angeles Cricket Academy</title></head>
+      <body>
+        <div class="ms-league-name">League <span>01/20/2024</span></div>
+        ${details}
+      </body>
+    </html>`
+}
+
+test('reads the ground, toss, officials and player of the match from the details table', () => {
+  const data = parseInfoPage(infoPage(`
+    <table>
+      <tr><th>Ground:</th><td>Drake Stadium</td></tr>
+      <tr><th>Toss</th><td>Royal Strikers won the toss and elected to bowl</td></tr>
+      <tr><th>Umpires</th><td>Vikram S, Anil R</td></tr>
+      <tr><th>Scorer</th><td>Meera J</td></tr>
+      <tr><th>Start Time</th><td>01/20/2024 2:30 PM</td></tr>
+      <tr><th>Player of the Match</th><td>Raj P</td></tr>
+    </table>`))
+
+  assert.equal(data.source, 'Info')
+  assert.equal(data.date, '2024-01-20')
+  assert.equal(data.venue, 'Drake Stadium')
+  assert.deepEqual(data.toss, { winner: 'Royal Strikers', decision: 'bowl' })
+  assert.deepEqual(data.umpires, ['Vikram S', 'Anil R'])
+  assert.deepEqual(data.scorers, ['Meera J'])
+  assert.equal(data.startTime, '14:30')
+  assert.equal(data.playerOfMatch, 'Raj P')
+})
+
+test('reads labelled lines and a separate toss decision', () => {
+  const data = parseInfoPage(infoPage(`
+    <ul>
+      <li>Venue: Spieker Field</li>
+      <li>Toss: UCLA</li>
+      <li>Decision: Batting</li>
+      <li>Umpire: TBD</li>
+    </ul>`))
+
+  assert.equal(data.venue, 'Spieker Field')
+  assert.deepEqual(data.toss, { winner: 'UCLA', decision: 'bat' })
+  assert.equal(data.umpires, undefined)
+})
+
+test('rejects a page without match details', () => {
+  assert.throws(
+    () => parseInfoPage(infoPage('<p>Match details are not available</p>')),
+    (error: unknown) => error instanceof ParseError && error.code === 'PARSE_FAILED'
+  )
+})
@@ -0,0 +1,139 @@
+import * as cheerio from 'cheerio'
+import type { ParsedMatchData, ParsedToss } from '@/types/models'
+import { ParseError, assertHtmlContent, detectPageType, parseMatchHeader } from './cricclubs-parser'
+
+/**
+ * Parse a CricClubs Info page into ground, toss, officials and player of the match
+ * @throws {ParseError} When the HTML cannot be parsed
+ */
+export function parseInfoPage(html: string): ParsedMatchData {
+  assertHtmlContent(html)
+
+  const pageType = detectPageType(html)
+  if (pageType.type !== 'Info') {
+    throw new ParseError(
+      `Wrong page type: "${pageType.type}"`,
+      'WRONG_PAGE_TYPE',
+      `Expected the "Info" page but got "${pageType.type}".`
+    )
+  }
+
+  const $ = cheerio.load(html)
+  const { teams, date, competition } = parseMatchHeader($)
+
+  if (teams[0] === 'Unknown' && teams[1] === 'Unknown') {
+    throw new ParseError(
+      'Could not find team names in the info page',
+      'NO_TEAMS_FOUND',
+      'The parser could not extract team names. Make sure you uploaded a valid CricClubs Info page.'
+    )
+  }
+
+  const pairs = collectInfoPairs($)
+  const valuesFor = (pattern: RegExp) =>
+    pairs.filter(pair => pattern.test(pair.label)).map(pair => pair.value)
+
+  const venue = valuesFor(/^(ground|venue|location)$/)[0]
+  const toss = parseToss(valuesFor(/^toss$/)[0], valuesFor(/^(toss )?decision$/)[0])
+  const umpires = splitNames(valuesFor(/umpire/))
+  const scorers = splitNames(valuesFor(/scorer/))
+  const startTime = parseStartTime(valuesFor(/^(start time|match time|time|date (and|&) time)$/)[0])
+  const playerOfMatch = valuesFor(/^(player|man) of the match$/)[0]
+
+  if (!venue && !toss && umpires.length === 0 && scorers.length === 0 && !startTime && !playerOfMatch) {
+    throw new ParseError(
+      'No match information found in the info page',
+      'PARSE_FAILED',
+      'The parser could not find the ground, toss or officials. Make sure the page finished loading before you saved it.'
+    )
+  }
+
+  return {
+    source: 'Info',
+    date,
+    teams,
+    competition,
+    venue,
+    toss,
+    umpires: umpires.length ? umpires : undefined,
+    scorers: scorers.length ? scorers : undefined,
+    startTime,
+    playerOfMatch,
+    innings: [],
+  }
+}
+
+/**
+ * Read "Label | Value" table rows, definition lists and "Label: value" lines
+ * Labels are lower-cased with the trailing colon removed
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function collectInfoPairs($: any): { label: string; value: string }[] {
+  const pairs: { label: string; value: string }[] = []
+  const clean = (text: string) => text.replace(/\s+/g, ' ').trim()
+  const add = (label: string, value: string) => {
+    const normalized = clean(label).replace(/:$/, '').toLowerCase()
+    const cleanValue = clean(value)
+    if (normalized && cleanValue) pairs.push({ label: normalized, value: cleanValue })
+  }
+
+  $('tr').each((_: number, row: any) => {
+    const cells = $(row).find('th, td')
+    if (cells.length < 2) return
+    add(cells.first().text(), cells.slice(1).map((__: number, cell: any) => $(cell).text()).get().join(' '))
+  })
+
+  $('dt').each((_: number, term: any) => {
+    add($(term).text(), $(term).next('dd').text())
+  })
+
+  $('li, p').each((_: number, line: any) => {
+    const labelMatch = clean($(line).text()).match(/^([A-Za-z &]{2,30}):\s*(.+)$/)
+    if (labelMatch) add(labelMatch[1], labelMatch[2])
+  })
+
+  return pairs
+}
+
+/**
+ * Parse "UCLA won the toss and elected to bat"
+ * A separate decision row is used when the toss row only names the winner
+ */
+function parseToss(text: string | undefined, decisionText: string | undefined): ParsedToss | undefined {
+  if (!text) return undefined
+
+  const wonMatch = text.match(/^(.+?)\s+won the toss/i)
+  const winner = (wonMatch ? wonMatch[1] : text.split(/[,(]/)[0]).trim()
+  if (!winner) return undefined
+
+  const decisionMatch = `${text} ${decisionText || ''}`.match(/\b(bat|batting|bowl|bowling|field|fielding)\b/i)
+  if (!decisionMatch) return undefined
+
+  return {
+    winner,
+    decision: decisionMatch[1].toLowerCase().startsWith('bat') ? 'bat' : 'bowl',
+  }
+}
+
+/**
+ * "14:30" from "10/05/2024 2:30 PM" and similar
+ */
+function parseStartTime(text: string | undefined): string | undefined {
+  const timeMatch = text?.match(/(\d{1,2}):(\d{2})\s*(am|pm)?/i)
+  if (!timeMatch) return undefined
+
+  let hours = parseInt(timeMatch[1])
+  const meridiem = timeMatch[3]?.toLowerCase()
+  if (meridiem === 'pm' && hours < 12) hours += 12
+  if (meridiem === 'am' && hours === 12) hours = 0
+
+  return `${hours.toString().padStart(2, '0')}:${timeMatch[2]}`
+}
+
+function splitNames(values: string[]): string[] {
+  const names = values
+    .flatMap(value => value.split(/\s*(?:,|&|\band\b)\s*/i))
+    .map(name => name.trim())
+    .filter(name => name && !/^(n\/?a|tbd|-)$/i.test(name))
+  return Array.from(new Set(names))
+}
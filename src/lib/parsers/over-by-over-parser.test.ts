@@ -0,0 +1,66 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { parseOverByOver } from './over-by-over-parser'
+import { ParseError } from './cricclubs-parser'
+
+// A saved Over by Over Score page with one table per innings
+function overByOverPage(innings: { header: string; rows: string[][] }[]): string {
+  return `<!-- saved from url=(0076)https://cricclubs.com/UCLA/overbyoverscoreview.do?matchId=101&clubId=1 -->
+    <html>
+      <head><title>League: UCLA vs Royal Strikers - Los Angeles Cricket Academy</title></head>
+      <body>
+        <div class="ms-league-name">League <span>01/20/2024</span></div>
+        ${innings.map(({ header, rows }, index) => `
+          <div id="ballByBallTeam${index + 1}">
+            <table>
+              <tr><th colspan="4">${header}</th></tr>
+              ${rows.map(cells => `<tr>${cells.map(cell => `<td>${cell}</td>`).join('')}</tr>`).join('')}
+            </table>
+          </div>`).join('')}
+      </body>
+    </html>`
+}
+
+test('reads per-over and running figures from the labelled columns', () => {
+  const data = parseOverByOver(overByOverPage([
+    {
+      header: 'Royal Strikers innings',
+      rows: [['Over', 'Score', 'Runs', 'Wkts'], ['1', '8/0', '8', '0'], ['2', '15/1', '7', '1'], ['3', '27/1', '12', '0']],
+    },
+    {
+      header: 'UCLA innings',
+      rows: [['Over', 'Score', 'Runs', 'Wkts'], ['1', '4/1', '4', '1']],
+    },
+  ]))
+
+  assert.equal(data.source, 'Over by Over Score')
+  assert.deepEqual(data.innings.map(inn => inn.team), ['Royal Strikers', 'UCLA'])
+
+  const [first] = data.innings
+  assert.deepEqual(first.overSummaries, [
+    { over: 1, runs: 8, wickets: 0, totalRuns: 8, totalWickets: 0 },
+    { over: 2, runs: 7, wickets: 1, totalRuns: 15, totalWickets: 1 },
+    { over: 3, runs: 12, wickets: 0, totalRuns: 27, totalWickets: 1 },
+  ])
+  assert.deepEqual([first.total, first.wickets, first.overs], [27, 1, 3])
+})
+
+test('works out per-over figures from the running score alone', () => {
+  const data = parseOverByOver(overByOverPage([{
+    header: 'UCLA innings',
+    rows: [['Ov', 'Total'], ['2', '15/1'], ['1', '8/0']],
+  }]))
+
+  assert.deepEqual(data.innings[0].overSummaries!.map(over => [over.over, over.runs, over.wickets]), [
+    [1, 8, 0],
+    [2, 7, 1],
+  ])
+})
+
+test('rejects a page of another type', () => {
+  const html = overByOverPage([]).replace('overbyoverscoreview.do', 'info.do')
+  assert.throws(
+    () => parseOverByOver(html),
+    (error: unknown) => error instanceof ParseError && error.code === 'WRONG_PAGE_TYPE'
+  )
+})
@@ -0,0 +1,149 @@
+import * as cheerio from 'cheerio'
+import type { ParsedMatchData, ParsedOverSummary } from '@/types/models'
+import { ParseError, assertHtmlContent, detectPageType, parseMatchHeader } from './cricclubs-parser'
+
+/**
+ * Parse a CricClubs Over by Over Score page into runs and wickets per over
+ * @throws {ParseError} When the HTML cannot be parsed
+ */
+export function parseOverByOver(html: string): ParsedMatchData {
+  assertHtmlContent(html)
+
+  const pageType = detectPageType(html)
+  if (pageType.type !== 'Over by Over Score') {
+    throw new ParseError(
+      `Wrong page type: "${pageType.type}"`,
+      'WRONG_PAGE_TYPE',
+      `Expected the "Over by Over Score" page but got "${pageType.type}".`
+    )
+  }
+
+  const $ = cheerio.load(html)
+  const { teams, date, competition } = parseMatchHeader($)
+
+  if (teams[0] === 'Unknown' && teams[1] === 'Unknown') {
+    throw new ParseError(
+      'Could not find team names in the over by over page',
+      'NO_TEAMS_FOUND',
+      'The parser could not extract team names. Make sure you uploaded a valid CricClubs Over by Over Score page.'
+    )
+  }
+
+  const innings: ParsedMatchData['innings'] = []
+
+  // Same container ids as the Full Scorecard tab
+  const inningsDivs = ['#ballByBallTeam1', '#ballByBallTeam2']
+
+  inningsDivs.forEach((divId, index) => {
+    const inningsDiv = $(divId)
+    if (!inningsDiv.length) return
+
+    const teamNameHeader = inningsDiv
+      .find('th:contains("innings"), h3:contains("innings"), h4:contains("innings")')
+      .first()
+      .text()
+    // "Royal Strikers innings", "Royal Strikers 2nd innings"
+    const teamNameMatch = teamNameHeader.match(/^\s*(.+?)\s+(?:\d+(?:st|nd|rd|th)\s+)?innings/i)
+    const teamName = teamNameMatch ? teamNameMatch[1].trim() : teams[index]
+
+    const overSummaries = parseOverRows($, inningsDiv)
+    if (overSummaries.length === 0) return
+
+    const lastOver = overSummaries[overSummaries.length - 1]
+
+    innings.push({
+      team: teamName,
+      battingEntries: [],
+      bowlingEntries: [],
+      fieldingEntries: [],
+      total: lastOver.totalRuns,
+      wickets: lastOver.totalWickets,
+      overs: overSummaries.length,
+      extras: 0,
+      overSummaries,
+    })
+  })
+
+  if (innings.length === 0) {
+    throw new ParseError(
+      'No overs found in the over by over page',
+      'NO_DELIVERY_DATA',
+      'The parser could not find any over by over scores. Make sure the page finished loading before you saved it.'
+    )
+  }
+
+  return {
+    source: 'Over by Over Score',
+    date,
+    teams,
+    competition,
+    innings,
+  }
+}
+
+/**
+ * Read the per-over rows of an innings table
+ * Columns are located by header label (Over, Runs, Wkts, Score); rows without
+ * a usable header fall back to the "over runs wickets score" order
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function parseOverRows($: any, inningsDiv: any): ParsedOverSummary[] {
+  const rows: { over: number; runs?: number; wickets?: number; score?: [number, number] }[] = []
+  let columns: { over: number; runs: number; wickets: number; score: number } | null = null
+
+  inningsDiv.find('tr').each((_: number, row: any) => {
+    const cells = $(row).find('th, td')
+    const texts: string[] = cells.map((__: number, cell: any) => $(cell).text().replace(/\s+/g, ' ').trim()).get()
+
+    // Header row - remember where each column lives
+    const labels = texts.map(t => t.toLowerCase())
+    const overIndex = labels.findIndex(l => l === 'over' || l === 'overs' || l === 'ov')
+    if (overIndex !== -1) {
+      columns = {
+        over: overIndex,
+        runs: labels.findIndex(l => l === 'runs' || l === 'r'),
+        wickets: labels.findIndex(l => l === 'wkts' || l === 'wickets' || l === 'w'),
+        score: labels.findIndex(l => l === 'score' || l === 'total'),
+      }
+      return
+    }
+
+    const cols = columns || { over: 0, runs: 1, wickets: 2, score: 3 }
+    const over = parseInt(texts[cols.over])
+    if (isNaN(over)) return
+
+    const readInt = (index: number) => {
+      const value = index >= 0 ? parseInt(texts[index]) : NaN
+      return isNaN(value) ? undefined : value
+    }
+    const scoreMatch = cols.score >= 0 ? (texts[cols.score] || '').match(/(\d+)\s*\/\s*(\d+)/) : null
+
+    rows.push({
+      over,
+      runs: readInt(cols.runs),
+      wickets: readInt(cols.wickets),
+      score: scoreMatch ? [parseInt(scoreMatch[1]), parseInt(scoreMatch[2])] : undefined,
+    })
+  })
+
+  // Fill whichever of per-over and running figures the page left out
+  const summaries: ParsedOverSummary[] = []
+  rows.sort((a, b) => a.over - b.over).forEach(row => {
+    const previous = summaries[summaries.length - 1]
+    const previousRuns = previous?.totalRuns || 0
+    const previousWickets = previous?.totalWickets || 0
+
+    const totalRuns = row.score ? row.score[0] : previousRuns + (row.runs || 0)
+    const totalWickets = row.score ? row.score[1] : previousWickets + (row.wickets || 0)
+
+    summaries.push({
+      over: row.over,
+      runs: row.runs ?? totalRuns - previousRuns,
+      wickets: row.wickets ?? totalWickets - previousWickets,
+      totalRuns,
+      totalWickets,
+    })
+  })
+
+  return summaries
+}
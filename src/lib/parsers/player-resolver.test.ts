@@ -0,0 +1,121 @@
+import { afterEach, beforeEach, mock, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { supabase } from '@/lib/supabase/client'
+import {
+  clearPlayerCache,
+  isAmbiguousMatch,
+  matchPlayerName,
+  rankPlayerCandidates,
+  resolveImportedPlayer,
+} from './player-resolver'
+
+const players = [
+  { id: 'p1', name: 'Sahil Shah' },
+  { id: 'p2', name: 'Sahil Bahety' },
+  { id: 'p3', name: 'Naman Satija' },
+  { id: 'p4', name: 'Devansh Mehta' },
+]
+const aliases = [{ id: 'a1', player_id: 'p4', alias: 'DM' }]
+
+// Rows inserted or upserted through the mocked client
+let writes: { table: string; row: Record<string, unknown> }[] = []
+
+beforeEach(() => {
+  clearPlayerCache()
+  writes = []
+  // A chainable stand-in for each query: whole tables for the cache, an id for a new player,
+  // and nothing for any other lookup
+  mock.method(supabase, 'from', (table: string) => {
+    let inserted = false
+    const query: Record<string, unknown> = {
+      then: (resolve: (result: { data: unknown; error: null }) => void) => resolve({
+        data: inserted
+          ? { id: 'new-player' }
+          : table === 'players' ? players : table === 'player_aliases' ? aliases : null,
+        error: null,
+      }),
+    }
+    for (const method of ['select', 'eq', 'single', 'insert', 'upsert']) {
+      query[method] = (row?: Record<string, unknown>) => {
+        if (method === 'insert' || method === 'upsert') {
+          inserted = method === 'insert'
+          writes.push({ table, row: row! })
+        }
+        return query
+      }
+    }
+    return query
+  })
+})
+
+afterEach(() => {
+  mock.restoreAll()
+  clearPlayerCache()
+})
+
+test('leaves a first name shared by two players unmatched', async () => {
+  const candidates = await rankPlayerCandidates('Sahil')
+
+  assert.deepEqual(candidates.slice(0, 2).map(c => c.playerName).sort(), ['Sahil Bahety', 'Sahil Shah'])
+  assert.ok(isAmbiguousMatch(candidates))
+  assert.equal(await matchPlayerName('Sahil'), null)
+})
+
+test('matches a surname initial to the one player it fits', async () => {
+  const match = await matchPlayerName('Naman S')
+
+  assert.equal(match?.playerId, 'p3')
+  assert.equal(match?.method, 'fuzzy')
+  assert.ok(match!.confidence < 1)
+})
+
+test('picks the closer of two players sharing a first name', async () => {
+  const candidates = await rankPlayerCandidates('Sahil Shaw')
+
+  assert.equal(candidates[0].playerId, 'p1')
+  assert.ok(!isAmbiguousMatch(candidates))
+})
+
+test('prefers an alias to fuzzy matching', async () => {
+  const match = await matchPlayerName('dm')
+
+  assert.equal(match?.playerId, 'p4')
+  assert.equal(match?.method, 'alias')
+})
+
+test('does not match a name unlike any player', async () => {
+  assert.equal(await matchPlayerName('Zubin Irani'), null)
+})
+
+test('queues an ambiguous name left unpicked on import', async () => {
+  const playerId = await resolveImportedPlayer('Sahil', 'm1')
+
+  assert.equal(playerId, 'new-player')
+  assert.deepEqual(writes.map(w => w.table), ['players', 'player_name_reviews'])
+  assert.equal(writes[1].row.scorecard_name, 'Sahil')
+  assert.equal(writes[1].row.player_id, 'new-player')
+  assert.equal(writes[1].row.reason, 'ambiguous')
+})
+
+test('queues an unmatched name left unpicked on import', async () => {
+  await resolveImportedPlayer('Zubin Irani', 'm1')
+
+  const review = writes.find(w => w.table === 'player_name_reviews')
+  assert.equal(review?.row.reason, 'unmatched')
+})
+
+test('stores a confidently matched name left unpicked without queueing it', async () => {
+  assert.equal(await resolveImportedPlayer('Naman S', 'm1'), 'p3')
+  assert.deepEqual(writes, [])
+})
+
+test('creates a player picked as new without queueing it', async () => {
+  assert.equal(await resolveImportedPlayer('Sahil', 'm1', null), 'new-player')
+  assert.deepEqual(writes.map(w => w.table), ['players'])
+})
+
+test('keeps a picked player as an override for the match', async () => {
+  assert.equal(await resolveImportedPlayer('Sahil', 'm1', 'p2'), 'p2')
+  assert.deepEqual(writes.map(w => w.table), ['match_player_overrides'])
+  assert.equal(writes[0].row.actual_player_id, 'p2')
+})
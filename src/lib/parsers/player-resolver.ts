@@ -1,10 +1,22 @@
 import { supabase } from '@/lib/supabase/client'
-import type { Player, PlayerAlias, MatchPlayerOverride } from '@/types/models'
+import type {
+  Player,
+  PlayerAlias,
+  MatchPlayerOverride,
+  PlayerCandidate,
+  PlayerMatch,
+  PlayerNameReview,
+} from '@/types/models'
 
 // Cache for player lookups
 let playerCache: Map<string, Player> | null = null
 let aliasCache: Map<string, string> | null = null // alias -> player_id
 
+// Lowest score a fuzzy match is assigned at
+const FUZZY_MATCH_THRESHOLD = 0.75
+// A runner-up this close to the best candidate makes the name ambiguous
+const AMBIGUITY_MARGIN = 0.08
+
 /**
  * Initialize caches from database
  */
@@ -61,13 +73,13 @@ export function normalizePlayerName(rawName: string): string {
 }
 
 /**
- * Resolve a player name to a player ID
+ * Match a player name to a player, saying how it was matched
  * Takes into account aliases and match-specific overrides
  */
-export async function resolvePlayerName(
+export async function matchPlayerName(
   rawName: string,
   matchId?: string
-): Promise<{ playerId: string; playerName: string } | null> {
+): Promise<PlayerMatch | null> {
   // Ensure caches are initialized
   if (!playerCache || !aliasCache) {
     await initializePlayerCache()
@@ -88,7 +100,7 @@ export async function resolvePlayerName(
     if (override) {
       const player = playerCache!.get(override.actual_player_id)
       if (player) {
-        return { playerId: override.actual_player_id, playerName: player.name }
+        return { playerId: override.actual_player_id, playerName: player.name, method: 'override', confidence: 1 }
       }
     }
   }
@@ -98,56 +110,217 @@ export async function resolvePlayerName(
   if (aliasPlayerId) {
     const player = playerCache!.get(aliasPlayerId)
     if (player) {
-      return { playerId: aliasPlayerId, playerName: player.name }
+      return { playerId: aliasPlayerId, playerName: player.name, method: 'alias', confidence: 1 }
     }
   }
   
   // 3. Check direct player name match
   const directMatch = playerCache!.get(lowerName)
   if (directMatch) {
-    return { playerId: directMatch.id, playerName: directMatch.name }
+    return { playerId: directMatch.id, playerName: directMatch.name, method: 'exact', confidence: 1 }
+  }
+  
+  // 4. Fuzzy match on a score, unless two players are too close to call
+  const candidates = await rankPlayerCandidates(normalizedName)
+  if (candidates[0]?.score >= FUZZY_MATCH_THRESHOLD && !isAmbiguousMatch(candidates)) {
+    const [best] = candidates
+    return { playerId: best.playerId, playerName: best.playerName, method: 'fuzzy', confidence: best.score }
   }
   
-  // 4. Try fuzzy matching (first name only)
-  const firstName = lowerName.split(' ')[0]
+  return null
+}
+
+/**
+ * Score every player against a name, best first
+ * Each player is scored on their name and every alias, combining edit distance with
+ * first names, surnames and initials ("Naman S" and "N Satija" both fit "Naman Satija")
+ */
+export async function rankPlayerCandidates(rawName: string, limit: number = 5): Promise<PlayerCandidate[]> {
+  if (!playerCache || !aliasCache) {
+    await initializePlayerCache()
+  }
+  
+  const name = normalizePlayerName(rawName)
+  
+  // Names and aliases per player
+  const namesByPlayer = new Map<string, string[]>()
   for (const [key, player] of playerCache!) {
-    if (typeof key === 'string' && key.startsWith(firstName)) {
-      return { playerId: player.id, playerName: player.name }
+    if (key === player.id) namesByPlayer.set(player.id, [player.name])
+  }
+  for (const [alias, playerId] of aliasCache!) {
+    namesByPlayer.get(playerId)?.push(alias)
+  }
+  
+  const candidates: PlayerCandidate[] = []
+  for (const [playerId, names] of namesByPlayer) {
+    let best = { matchedName: names[0], score: 0 }
+    for (const candidateName of names) {
+      const score = scorePlayerName(name, candidateName)
+      if (score > best.score) best = { matchedName: candidateName, score }
+    }
+    
+    if (best.score >= 0.5) {
+      candidates.push({ playerId, playerName: names[0], ...best })
     }
   }
   
-  // 5. Try matching by first name + last initial (e.g., "Naman S" -> "Naman Satija")
-  const lastInitialMatch = lowerName.match(/^(\w+)\s+(\w)\.?$/)
-  if (lastInitialMatch) {
-    const [, first, lastInit] = lastInitialMatch
-    for (const [key, player] of playerCache!) {
-      if (typeof key === 'string') {
-        const playerParts = key.split(' ')
-        if (playerParts[0] === first && 
-            playerParts.length > 1 && 
-            playerParts[playerParts.length - 1].startsWith(lastInit)) {
-          return { playerId: player.id, playerName: player.name }
-        }
+  return candidates
+    .sort((a, b) => b.score - a.score || a.playerName.localeCompare(b.playerName))
+    .slice(0, limit)
+}
+
+/**
+ * Whether the best two candidates are too close to pick between
+ */
+export function isAmbiguousMatch(candidates: PlayerCandidate[]): boolean {
+  const [best, next] = candidates
+  return !!best && !!next &&
+    best.score >= FUZZY_MATCH_THRESHOLD &&
+    best.score - next.score < AMBIGUITY_MARGIN
+}
+
+/**
+ * How alike two player names are, from 0 to 1
+ */
+function scorePlayerName(a: string, b: string): number {
+  const tokensA = nameTokens(a)
+  const tokensB = nameTokens(b)
+  if (tokensA.length === 0 || tokensB.length === 0) return 0
+  
+  const whole = similarity(tokensA.join(' '), tokensB.join(' '))
+  
+  const first = tokenSimilarity(tokensA[0], tokensB[0])
+  // A name given without a surname fits every player with that first name equally
+  const last = tokensA.length > 1 && tokensB.length > 1
+    ? tokenSimilarity(tokensA[tokensA.length - 1], tokensB[tokensB.length - 1])
+    : 0.5
+  const byParts = 0.6 * first + 0.4 * last
+  
+  // Kept below 1 so a fuzzy match never looks as certain as an exact one
+  return Math.min(Math.max(whole, byParts), 0.99)
+}
+
+function nameTokens(name: string): string[] {
+  return name
+    .toLowerCase()
+    .replace(/[.,']/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+}
+
+/**
+ * Similarity of two parts of a name, where a single letter is an initial
+ * and a short form ("Dev" for "Devansh") counts as close
+ */
+function tokenSimilarity(a: string, b: string): number {
+  if (a.length === 1 || b.length === 1) {
+    return a[0] === b[0] ? 0.9 : 0
+  }
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a]
+  const shortForm = shorter.length >= 3 && longer.startsWith(shorter) ? 0.8 : 0
+  return Math.max(similarity(a, b), shortForm)
+}
+
+function similarity(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length)
+  return longest === 0 ? 1 : 1 - editDistance(a, b) / longest
+}
+
+/**
+ * Levenshtein distance, counting a swap of neighbouring letters as one edit
+ */
+function editDistance(a: string, b: string): number {
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  )
+  
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost)
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1)
       }
     }
   }
   
-  return null
+  return d[a.length][b.length]
+}
+
+/**
+ * Resolve a player name to a player ID
+ * Takes into account aliases and match-specific overrides
+ */
+export async function resolvePlayerName(
+  rawName: string,
+  matchId?: string
+): Promise<{ playerId: string; playerName: string } | null> {
+  const match = await matchPlayerName(rawName, matchId)
+  return match ? { playerId: match.playerId, playerName: match.playerName } : null
+}
+
+/**
+ * The player to store a scorecard name under when importing a match
+ * chosen is the pick from the upload page: a player id, or null for a new player. Without
+ * a pick the name is matched automatically, and a name with no confident match is stored
+ * as a new player and queued for review. A pick that differs from the automatic match is
+ * kept as an override for this match
+ */
+export async function resolveImportedPlayer(
+  rawName: string,
+  matchId: string,
+  chosen?: string | null
+): Promise<string> {
+  const name = normalizePlayerName(rawName)
+  
+  if (chosen === null) {
+    return createPlayer(rawName)
+  }
+  
+  const resolved = await resolvePlayerName(rawName, matchId)
+  
+  if (chosen) {
+    if (resolved?.playerId !== chosen) {
+      await addMatchPlayerOverride(matchId, name, chosen, 'Chosen when importing')
+    }
+    return chosen
+  }
+  
+  if (resolved) {
+    return resolved.playerId
+  }
+  
+  const candidates = await rankPlayerCandidates(rawName)
+  const playerId = await createPlayer(rawName)
+  await queuePlayerNameReview(
+    matchId,
+    name,
+    playerId,
+    candidates,
+    isAmbiguousMatch(candidates) ? 'ambiguous' : 'unmatched'
+  )
+  return playerId
 }
 
 /**
  * Create a new player if not found
  */
 export async function createPlayerIfNotExists(name: string): Promise<string> {
-  const normalizedName = normalizePlayerName(name)
-  
   // Check if player exists
-  const resolved = await resolvePlayerName(normalizedName)
+  const resolved = await resolvePlayerName(normalizePlayerName(name))
   if (resolved) {
     return resolved.playerId
   }
   
-  // Create new player
+  return createPlayer(name)
+}
+
+/**
+ * Create a new player, even when the name looks like an existing one
+ */
+export async function createPlayer(name: string): Promise<string> {
+  const normalizedName = normalizePlayerName(name)
+  
   const { data, error } = await supabase
     .from('players')
     .insert({ name: normalizedName })
@@ -191,6 +364,7 @@ export async function addPlayerAlias(playerId: string, alias: string): Promise<v
 
 /**
  * Add a match-specific override (Player A played under Player B's name)
+ * Replaces any override already set for the name in that match
  */
 export async function addMatchPlayerOverride(
   matchId: string,
@@ -200,12 +374,12 @@ export async function addMatchPlayerOverride(
 ): Promise<void> {
   const { error } = await supabase
     .from('match_player_overrides')
-    .insert({
+    .upsert({
       match_id: matchId,
       displayed_name: normalizePlayerName(displayedName),
       actual_player_id: actualPlayerId,
       notes,
-    })
+    }, { onConflict: 'match_id,displayed_name' })
   
   if (error) {
     console.error('Error adding override:', error)
@@ -250,3 +424,28 @@ export async function getAllPlayersWithAliases(): Promise<(Player & { aliases: s
   }))
 }
 
+/**
+ * Queue a scorecard name that could not be matched with confidence
+ * playerId is the player its performances were stored under in the meantime
+ */
+export async function queuePlayerNameReview(
+  matchId: string,
+  scorecardName: string,
+  playerId: string,
+  candidates: PlayerCandidate[],
+  reason: PlayerNameReview['reason']
+): Promise<void> {
+  const { error } = await supabase
+    .from('player_name_reviews')
+    .upsert({
+      match_id: matchId,
+      scorecard_name: normalizePlayerName(scorecardName),
+      player_id: playerId,
+      reason,
+      candidates,
+    }, { onConflict: 'match_id,scorecard_name' })
+  
+  if (error) {
+    console.error('Error queueing player name review:', error)
+  }
+}
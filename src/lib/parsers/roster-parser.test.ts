@@ -0,0 +1,74 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { ParseError } from './cricclubs-parser'
+import { parseRosterFile } from './roster-parser'
+
+function csv(text: string): ArrayBuffer {
+  const bytes = new TextEncoder().encode(text)
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength)
+}
+
+test('reads names, aliases, year and major by header label', async () => {
+  const entries = await parseRosterFile('roster.csv', csv(
+    'Name,Aliases,Year,Major\n' +
+    'Naman Satija,"Naman S; N Satija",2025,Economics\n'
+  ))
+
+  assert.deepEqual(entries, [{
+    row: 2,
+    name: 'Naman Satija',
+    aliases: ['Naman S', 'N Satija'],
+    year: '2025',
+    major: 'Economics',
+  }])
+})
+
+test('skips rows without a name', async () => {
+  const entries = await parseRosterFile('roster.csv', csv(
+    'Name,Aliases\n' +
+    ',Orphan Alias\n' +
+    'Raj Patel,Raj P\n' +
+    '   ,\n'
+  ))
+
+  assert.deepEqual(entries.map(entry => entry.name), ['Raj Patel'])
+})
+
+test('combines rows repeating a name and drops repeated aliases', async () => {
+  const entries = await parseRosterFile('roster.csv', csv(
+    'Player,Nickname,Class\n' +
+    'Dev Mehta,Dev M,2024\n' +
+    'dev mehta,"Dev M, DM, Dev Mehta",2026\n'
+  ))
+
+  assert.equal(entries.length, 1)
+  assert.deepEqual(entries[0].aliases, ['Dev M', 'DM'])
+  assert.equal(entries[0].year, '2026')
+})
+
+test('rejects a roster without a name column', async () => {
+  await assert.rejects(
+    parseRosterFile('roster.csv', csv('a,b\n1,2\n')),
+    (error: unknown) =>
+      error instanceof ParseError &&
+      error.code === 'INVALID_ROSTER' &&
+      /Columns found: a, b/.test(error.details ?? '')
+  )
+})
+
+test('rejects a roster with a header but no players', async () => {
+  await assert.rejects(
+    parseRosterFile('roster.csv', csv('Name,Aliases\n,\n')),
+    { message: 'No players found in the roster' }
+  )
+})
+
+test('rejects a spreadsheet that cannot be read, saying why', async () => {
+  await assert.rejects(
+    parseRosterFile('roster.xlsx', csv('not a workbook')),
+    (error: unknown) =>
+      error instanceof ParseError &&
+      error.message === 'Could not read roster.xlsx' &&
+      (error.details ?? '').length > 'Upload the roster as a .csv or .xlsx file.'.length
+  )
+})
@@ -0,0 +1,120 @@
+import { Readable } from 'stream'
+import ExcelJS from 'exceljs'
+import type { RosterEntry } from '@/types/models'
+import { ParseError } from './cricclubs-parser'
+import { normalizePlayerName } from './player-resolver'
+
+type RosterColumn = 'name' | 'alias' | 'year' | 'major'
+
+// Header labels for each roster column; any number of alias columns may be present
+const HEADER_PATTERNS: [RosterColumn, RegExp][] = [
+  ['alias', /alias|nickname|scorecard name|other names?/i],
+  ['name', /^(canonical |full |player )?(name|player)$/i],
+  ['year', /^(class )?year$|^class$|grad/i],
+  ['major', /major|program|degree/i],
+]
+
+/**
+ * Read a roster spreadsheet (CSV or XLSX) into one entry per player
+ * Columns are found by their header labels; alias cells may hold several names
+ * separated by commas, semicolons or pipes. Rows repeating a name are combined
+ */
+export async function parseRosterFile(filename: string, content: ArrayBuffer): Promise<RosterEntry[]> {
+  const worksheet = await readWorksheet(filename, content)
+  if (!worksheet) {
+    throw new ParseError('The roster file has no sheets', 'INVALID_ROSTER')
+  }
+
+  // The header is the first row naming a player column
+  let headerRow = 0
+  let columns = new Map<number, RosterColumn>()
+  worksheet.eachRow((row, rowNumber) => {
+    if (headerRow) return
+    const found = new Map<number, RosterColumn>()
+    row.eachCell((cell, colNumber) => {
+      const label = cell.text.trim().replace(/\s+/g, ' ')
+      const column = HEADER_PATTERNS.find(([, pattern]) => pattern.test(label))?.[0]
+      if (column) found.set(colNumber, column)
+    })
+    if (Array.from(found.values()).includes('name')) {
+      headerRow = rowNumber
+      columns = found
+    }
+  })
+
+  if (!headerRow) {
+    const firstRow = worksheet.getRow(1)
+    const labels: string[] = []
+    firstRow.eachCell(cell => { labels.push(cell.text.trim()) })
+    throw new ParseError(
+      'Could not find a player name column in the roster',
+      'INVALID_ROSTER',
+      `Expected a "Name" header. Columns found: ${labels.join(', ') || 'none'}`
+    )
+  }
+
+  const entries = new Map<string, RosterEntry>()
+  worksheet.eachRow((row, rowNumber) => {
+    if (rowNumber <= headerRow) return
+
+    const entry: RosterEntry = { row: rowNumber, name: '', aliases: [] }
+    columns.forEach((column, colNumber) => {
+      const text = row.getCell(colNumber).text.trim()
+      if (!text) return
+
+      if (column === 'name') entry.name = normalizePlayerName(text)
+      if (column === 'alias') entry.aliases.push(...text.split(/[,;|]/).map(normalizePlayerName).filter(Boolean))
+      if (column === 'year') entry.year = text
+      if (column === 'major') entry.major = text
+    })
+    if (!entry.name) return
+
+    const key = entry.name.toLowerCase()
+    const existing = entries.get(key)
+    if (existing) {
+      existing.aliases.push(...entry.aliases)
+      existing.year = entry.year ?? existing.year
+      existing.major = entry.major ?? existing.major
+    } else {
+      entries.set(key, entry)
+    }
+  })
+
+  if (entries.size === 0) {
+    throw new ParseError('No players found in the roster', 'INVALID_ROSTER')
+  }
+
+  // Drop repeated aliases and aliases that are just the player's own name
+  return Array.from(entries.values()).map(entry => ({
+    ...entry,
+    aliases: entry.aliases.filter((alias, i, all) =>
+      alias.toLowerCase() !== entry.name.toLowerCase() &&
+      all.findIndex(a => a.toLowerCase() === alias.toLowerCase()) === i
+    ),
+  }))
+}
+
+/**
+ * The first sheet of an XLSX workbook, or the rows of a CSV file
+ */
+async function readWorksheet(filename: string, content: ArrayBuffer): Promise<ExcelJS.Worksheet | undefined> {
+  const workbook = new ExcelJS.Workbook()
+  const buffer = Buffer.from(content)
+  const isXlsx = /\.xlsx$/i.test(filename) || buffer.subarray(0, 2).toString() === 'PK'
+
+  try {
+    if (isXlsx) {
+      await workbook.xlsx.load(content)
+      return workbook.worksheets[0]
+    }
+
+    // Keep every cell as text - years and names must not turn into numbers or dates
+    return await workbook.csv.read(Readable.from([buffer]), { map: (value: unknown) => value })
+  } catch (error) {
+    throw new ParseError(
+      `Could not read ${filename}`,
+      'INVALID_ROSTER',
+      `Upload the roster as a .csv or .xlsx file. ${error instanceof Error ? error.message : ''}`.trim()
+    )
+  }
+}
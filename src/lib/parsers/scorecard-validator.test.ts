@@ -0,0 +1,84 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import type { ParsedBattingEntry, ParsedBowlingEntry, ParsedMatchData } from '@/types/models'
+import { validateScorecard } from './scorecard-validator'
+
+function batter(playerName: string, runs: number, notOut = false): ParsedBattingEntry {
+  return {
+    playerName,
+    runs,
+    balls: runs,
+    fours: 0,
+    sixes: 0,
+    notOut,
+    dismissalText: notOut ? 'not out' : 'b Bowler',
+    dismissal: { kind: notOut ? 'not_out' : 'bowled' },
+    battingPosition: 1,
+    isBowledOrLBW: !notOut,
+    isCaptain: false,
+    isWicketKeeper: false,
+  }
+}
+
+function bowler(playerName: string, runs: number): ParsedBowlingEntry {
+  return {
+    playerName,
+    overs: 4,
+    balls: 24,
+    maidens: 0,
+    runs,
+    wickets: 0,
+    dots: 0,
+    wides: 0,
+    noBalls: 0,
+    economy: runs / 4,
+    isCaptain: false,
+    isWicketKeeper: false,
+  }
+}
+
+// UCLA 60/2: batters 20 + 25 + 10*, extras 5 including 2 byes and 1 leg-bye
+function scorecard(overrides: Partial<ParsedMatchData['innings'][number]> = {}): ParsedMatchData {
+  return {
+    date: '2024-01-20',
+    teams: ['UCLA', 'USC'],
+    innings: [{
+      team: 'UCLA',
+      battingEntries: [batter('Naman S', 20), batter('Raj P', 25), batter('Dev M', 10, true)],
+      bowlingEntries: [bowler('Arjun K', 30), bowler('Tanmay D', 27)],
+      fieldingEntries: [],
+      total: 60,
+      wickets: 2,
+      overs: 8,
+      extras: 5,
+      extrasBreakdown: { total: 5, wides: 2, noBalls: 0, byes: 2, legByes: 1 },
+      ...overrides,
+    }],
+  }
+}
+
+test('accepts a scorecard that adds up', () => {
+  assert.deepEqual(validateScorecard(scorecard()), [])
+})
+
+test('flags batting and bowling totals that do not make the innings total', () => {
+  const warnings = validateScorecard(scorecard({ total: 64 }))
+
+  assert.deepEqual(warnings.map(w => [w.check, w.actual, w.expected]), [
+    ['batting_total', 60, 64],
+    ['bowling_total', 60, 64],
+  ])
+  assert.match(warnings[0].message, /^UCLA innings: /)
+})
+
+test('flags a wicket count that does not match the batters dismissed', () => {
+  const [warning] = validateScorecard(scorecard({ wickets: 3 }))
+
+  assert.equal(warning.check, 'wickets')
+  assert.equal(warning.actual, 2)
+  assert.equal(warning.expected, 3)
+})
+
+test('skips checks for an innings without batting or bowling rows', () => {
+  assert.deepEqual(validateScorecard(scorecard({ battingEntries: [], bowlingEntries: [], total: 99 })), [])
+})
@@ -0,0 +1,58 @@
+import type { ParsedMatchData, ScorecardWarning } from '@/types/models'
+
+/**
+ * Check that a parsed scorecard adds up, innings by innings:
+ * - the batters' runs plus extras make the innings total
+ * - the bowlers' runs plus byes and leg-byes make the innings total
+ * - the wickets shown match the batters dismissed
+ * Returns a warning for each check that fails; an empty list means the scorecard is consistent
+ */
+export function validateScorecard(data: ParsedMatchData): ScorecardWarning[] {
+  const warnings: ScorecardWarning[] = []
+
+  data.innings.forEach((inn, index) => {
+    const inningsNumber = index + 1
+    const label = `${inn.team} innings${data.innings.length > 2 ? ` ${inningsNumber}` : ''}`
+    const warn = (check: ScorecardWarning['check'], actual: number, expected: number, message: string) =>
+      warnings.push({ check, inningsNumber, team: inn.team, expected, actual, message: `${label}: ${message}` })
+
+    if (inn.battingEntries.length > 0) {
+      const battingRuns = inn.battingEntries.reduce((sum, entry) => sum + entry.runs, 0)
+      const extras = inn.extrasBreakdown?.total ?? inn.extras
+      if (battingRuns + extras !== inn.total) {
+        warn(
+          'batting_total',
+          battingRuns + extras,
+          inn.total,
+          `batters' runs (${battingRuns}) plus extras (${extras}) make ${battingRuns + extras}, but the total is ${inn.total}`
+        )
+      }
+
+      const dismissed = inn.battingEntries.filter(entry => !entry.notOut).length
+      if (dismissed !== inn.wickets) {
+        warn(
+          'wickets',
+          dismissed,
+          inn.wickets,
+          `${dismissed} batter${dismissed === 1 ? ' was' : 's were'} dismissed, but the score shows ${inn.wickets} wicket${inn.wickets === 1 ? '' : 's'}`
+        )
+      }
+    }
+
+    // Byes and leg-byes are not charged to the bowler
+    if (inn.bowlingEntries.length > 0) {
+      const bowlingRuns = inn.bowlingEntries.reduce((sum, entry) => sum + entry.runs, 0)
+      const byes = (inn.extrasBreakdown?.byes || 0) + (inn.extrasBreakdown?.legByes || 0)
+      if (bowlingRuns + byes !== inn.total) {
+        warn(
+          'bowling_total',
+          bowlingRuns + byes,
+          inn.total,
+          `bowlers' runs (${bowlingRuns}) plus byes and leg-byes (${byes}) make ${bowlingRuns + byes}, but the total is ${inn.total}`
+        )
+      }
+    }
+  })
+
+  return warnings
+}
@@ -0,0 +1,72 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import type { CompetitionMatch } from '@/types/models'
+import { calculateStandings } from './competition-service'
+
+const points = { points_win: 2, points_tie: 1, points_no_result: 1 }
+
+function match(overrides: Partial<CompetitionMatch>): CompetitionMatch {
+  return {
+    id: 'm1',
+    competition_id: 'c1',
+    date: '2024-01-20',
+    team1: 'UCLA',
+    team2: 'USC',
+    team1_runs: 0,
+    team1_wickets: 0,
+    team1_balls: 0,
+    team2_runs: 0,
+    team2_wickets: 0,
+    team2_balls: 0,
+    overs_limit: 20,
+    outcome: 'decided',
+    created_at: '2024-01-20T00:00:00Z',
+    ...overrides,
+  }
+}
+
+test('charges a bowled-out side its full overs for net run rate', () => {
+  // UCLA 100 all out in 15 overs; USC chase it down in 10
+  const standings = calculateStandings([
+    match({
+      team1_runs: 100, team1_wickets: 10, team1_balls: 90,
+      team2_runs: 101, team2_wickets: 2, team2_balls: 60,
+      winner: 'USC',
+    }),
+  ], points)
+
+  const [usc, ucla] = standings
+  assert.equal(usc.team, 'USC')
+  assert.equal(usc.points, 2)
+  assert.equal(ucla.ballsFaced, 120)
+  assert.equal(usc.ballsBowled, 120)
+  assert.ok(Math.abs(usc.netRunRate - 5.1) < 1e-9)
+  assert.ok(Math.abs(ucla.netRunRate + 5.1) < 1e-9)
+})
+
+test('charges a chasing side bowled out its full overs', () => {
+  // USC 150/6 in 20 overs; UCLA all out for 120 in 16
+  const [usc, ucla] = calculateStandings([
+    match({
+      team1: 'USC', team2: 'UCLA',
+      team1_runs: 150, team1_wickets: 6, team1_balls: 120,
+      team2_runs: 120, team2_wickets: 10, team2_balls: 96,
+      winner: 'USC',
+    }),
+  ], points)
+
+  assert.equal(ucla.ballsFaced, 120)
+  assert.ok(Math.abs(usc.netRunRate - 1.5) < 1e-9)
+  assert.ok(Math.abs(ucla.netRunRate + 1.5) < 1e-9)
+})
+
+test('leaves no-result matches out of net run rate', () => {
+  const [first, second] = calculateStandings([
+    match({ team1_runs: 80, team1_wickets: 3, team1_balls: 60, outcome: 'no_result' }),
+  ], points)
+
+  assert.equal(first.points, 1)
+  assert.equal(second.points, 1)
+  assert.equal(first.netRunRate, 0)
+  assert.equal(first.ballsFaced + second.ballsFaced, 0)
+})
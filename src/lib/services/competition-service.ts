@@ -0,0 +1,361 @@
+import { supabase } from '@/lib/supabase/client'
+import type {
+  CalculatedMatchResult,
+  CalculatedStanding,
+  Competition,
+  CompetitionMatch,
+  CompetitionStage,
+  ParsedMatchData,
+  ParsedStage,
+  StageType,
+} from '@/types/models'
+import { oversToBalls } from '@/lib/utils'
+import { normalizeTeamName } from './team-service'
+
+type PointsScheme = Pick<Competition, 'points_win' | 'points_tie' | 'points_no_result'>
+
+// Knockout rounds in bracket order
+export const KNOCKOUT_STAGES: StageType[] = ['quarter_final', 'semi_final', 'final']
+
+/**
+ * Build a points table from every result in a competition
+ * Ordered by points, then net run rate, then wins
+ */
+export function calculateStandings(matches: CompetitionMatch[], points: PointsScheme): CalculatedStanding[] {
+  const standings = new Map<string, CalculatedStanding>()
+
+  const standingFor = (team: string) => {
+    const key = normalizeTeamName(team)
+    if (!standings.has(key)) {
+      standings.set(key, {
+        team,
+        played: 0,
+        won: 0,
+        lost: 0,
+        tied: 0,
+        noResult: 0,
+        points: 0,
+        runsFor: 0,
+        ballsFaced: 0,
+        runsAgainst: 0,
+        ballsBowled: 0,
+        netRunRate: 0,
+      })
+    }
+    return standings.get(key)!
+  }
+
+  for (const match of matches) {
+    const team1 = standingFor(match.team1)
+    const team2 = standingFor(match.team2)
+    team1.played++
+    team2.played++
+
+    if (match.outcome === 'no_result') {
+      team1.noResult++
+      team2.noResult++
+      team1.points += points.points_no_result
+      team2.points += points.points_no_result
+      continue
+    }
+
+    if (match.outcome === 'tie') {
+      team1.tied++
+      team2.tied++
+      team1.points += points.points_tie
+      team2.points += points.points_tie
+    } else {
+      const team1Won = !!match.winner && normalizeTeamName(match.winner) === normalizeTeamName(match.team1)
+      const [winner, loser] = team1Won ? [team1, team2] : [team2, team1]
+      winner.won++
+      winner.points += points.points_win
+      loser.lost++
+    }
+
+    // Net run rate only counts matches with a result
+    const [first, second] = inningsForNetRunRate(match)
+    team1.runsFor += first.runs
+    team1.ballsFaced += first.balls
+    team1.runsAgainst += second.runs
+    team1.ballsBowled += second.balls
+    team2.runsFor += second.runs
+    team2.ballsFaced += second.balls
+    team2.runsAgainst += first.runs
+    team2.ballsBowled += first.balls
+  }
+
+  return Array.from(standings.values())
+    .map(standing => ({
+      ...standing,
+      netRunRate: runRate(standing.runsFor, standing.ballsFaced) - runRate(standing.runsAgainst, standing.ballsBowled),
+    }))
+    .sort((a, b) =>
+      b.points - a.points ||
+      b.netRunRate - a.netRunRate ||
+      b.won - a.won ||
+      a.team.localeCompare(b.team)
+    )
+}
+
+/**
+ * Runs and balls each side is credited with for net run rate
+ * A side bowled out is charged its full overs; after a DLS revision the side batting
+ * first is credited with the revised target less one from the revised overs
+ */
+function inningsForNetRunRate(match: CompetitionMatch): [{ runs: number; balls: number }, { runs: number; balls: number }] {
+  const fullBalls = match.overs_limit ? oversToBalls(match.overs_limit) : undefined
+  const chaseBalls = match.revised_overs ? oversToBalls(match.revised_overs) : fullBalls
+
+  const first = match.revised_target && chaseBalls
+    ? { runs: match.revised_target - 1, balls: chaseBalls }
+    : { runs: match.team1_runs, balls: match.team1_wickets >= 10 && fullBalls ? fullBalls : match.team1_balls }
+  const second = {
+    runs: match.team2_runs,
+    balls: match.team2_wickets >= 10 && chaseBalls ? chaseBalls : match.team2_balls,
+  }
+
+  return [first, second]
+}
+
+function runRate(runs: number, balls: number): number {
+  return balls > 0 ? runs / (balls / 6) : 0
+}
+
+/**
+ * Get a competition by name and season, creating it if needed
+ */
+export async function getOrCreateCompetition(name: string, seasonId: string): Promise<string> {
+  const { data: existing } = await supabase
+    .from('competitions')
+    .select('id')
+    .eq('name', name)
+    .eq('season_id', seasonId)
+    .single()
+
+  if (existing) return existing.id
+
+  const { data: created, error } = await supabase
+    .from('competitions')
+    .insert({ name, season_id: seasonId })
+    .select('id')
+    .single()
+
+  if (error) {
+    console.error('Error creating competition:', error)
+    throw new Error('Failed to create competition')
+  }
+
+  return created.id
+}
+
+/**
+ * Get a stage of a competition by name, creating it if needed
+ * A competition with stages is a tournament
+ */
+export async function getOrCreateStage(competitionId: string, stage: ParsedStage): Promise<string> {
+  const { data: existing } = await supabase
+    .from('competition_stages')
+    .select('id')
+    .eq('competition_id', competitionId)
+    .eq('name', stage.name)
+    .single()
+
+  if (existing) return existing.id
+
+  const { data: created, error } = await supabase
+    .from('competition_stages')
+    .insert({ competition_id: competitionId, name: stage.name, stage_type: stage.type })
+    .select('id')
+    .single()
+
+  if (error) {
+    console.error('Error creating competition stage:', error)
+    throw new Error('Failed to create competition stage')
+  }
+
+  await supabase
+    .from('competitions')
+    .update({ format: 'tournament' })
+    .eq('id', competitionId)
+
+  return created.id
+}
+
+/**
+ * Record a match result for a competition's points table
+ * matchId links the result to our match; re-recording the same scorecard replaces it
+ */
+export async function recordCompetitionMatch(
+  competitionId: string,
+  stageId: string | null,
+  data: ParsedMatchData,
+  result: CalculatedMatchResult,
+  contentHash: string,
+  matchId?: string
+): Promise<void> {
+  const [first, second] = data.innings.filter(inn => !inn.isSuperOver)
+  const team1 = first?.team || data.teams[0]
+  const team2 = second?.team ||
+    data.teams.find(team => normalizeTeamName(team) !== normalizeTeamName(team1)) ||
+    data.teams[1]
+
+  const { error } = await supabase
+    .from('competition_matches')
+    .upsert({
+      competition_id: competitionId,
+      match_id: matchId || null,
+      stage_id: stageId,
+      date: data.date,
+      team1,
+      team2,
+      team1_runs: first?.total || 0,
+      team1_wickets: first?.wickets || 0,
+      team1_balls: first ? oversToBalls(first.overs) : 0,
+      team2_runs: second?.total || 0,
+      team2_wickets: second?.wickets || 0,
+      team2_balls: second ? oversToBalls(second.overs) : 0,
+      overs_limit: data.oversLimit || null,
+      revised_target: result.revisedTarget || null,
+      revised_overs: result.revisedOvers || null,
+      winner: result.winner || null,
+      outcome: result.winner ? 'decided' : result.result === 'tie' ? 'tie' : 'no_result',
+      result_summary: result.summary,
+      raw_html_hash: contentHash,
+    }, { onConflict: 'raw_html_hash' })
+
+  if (error) {
+    console.error('Error recording competition match:', error)
+    throw error
+  }
+}
+
+/**
+ * Move our match to the competition now named on it, keeping its stage
+ */
+export async function relinkMatchCompetition(matchId: string, competitionName: string | null): Promise<void> {
+  const { data: match } = await supabase
+    .from('matches')
+    .select('*, stage:competition_stages(name, stage_type)')
+    .eq('id', matchId)
+    .single()
+
+  if (!match) return
+
+  const competitionId = competitionName ? await getOrCreateCompetition(competitionName, match.season_id) : null
+  const stageId = competitionId && match.stage
+    ? await getOrCreateStage(competitionId, { name: match.stage.name, type: match.stage.stage_type })
+    : null
+
+  await supabase
+    .from('matches')
+    .update({ competition_id: competitionId, stage_id: stageId })
+    .eq('id', matchId)
+
+  if (competitionId) {
+    await supabase
+      .from('competition_matches')
+      .update({ competition_id: competitionId, stage_id: stageId })
+      .eq('match_id', matchId)
+  } else {
+    await supabase
+      .from('competition_matches')
+      .delete()
+      .eq('match_id', matchId)
+  }
+}
+
+/**
+ * All competitions, newest season first, with how many results each holds
+ */
+export async function getCompetitions() {
+  const { data, error } = await supabase
+    .from('competitions')
+    .select(`
+      *,
+      season:seasons(name, start_date),
+      competition_matches(id)
+    `)
+    .order('name')
+
+  if (error) {
+    console.error('Error fetching competitions:', error)
+    return []
+  }
+
+  return (data || [])
+    .map(competition => ({
+      id: competition.id as string,
+      name: competition.name as string,
+      seasonName: competition.season?.name as string | undefined,
+      seasonStart: competition.season?.start_date as string | undefined,
+      matches: competition.competition_matches?.length || 0,
+    }))
+    .sort((a, b) => (b.seasonStart || '').localeCompare(a.seasonStart || ''))
+}
+
+/**
+ * A competition with its points tables, knockout bracket and results
+ * League matches and each group get their own table; knockout rounds form the bracket
+ */
+export async function getCompetitionStandings(competitionId: string) {
+  const { data: competition, error } = await supabase
+    .from('competitions')
+    .select(`
+      *,
+      season:seasons(name)
+    `)
+    .eq('id', competitionId)
+    .single()
+
+  if (error || !competition) {
+    return null
+  }
+
+  const { data: stageData } = await supabase
+    .from('competition_stages')
+    .select('*')
+    .eq('competition_id', competitionId)
+    .order('name')
+
+  const { data: matches } = await supabase
+    .from('competition_matches')
+    .select('*')
+    .eq('competition_id', competitionId)
+    .order('date', { ascending: false })
+
+  const stages: CompetitionStage[] = stageData || []
+  const results: CompetitionMatch[] = matches || []
+  const stageById = new Map(stages.map(stage => [stage.id, stage]))
+  const stageOf = (match: CompetitionMatch) => match.stage_id ? stageById.get(match.stage_id) : undefined
+
+  // Matches outside any stage make up the league table
+  const leagueMatches = results.filter(match => !stageOf(match))
+  const tables = [
+    ...(leagueMatches.length > 0 || stages.length === 0
+      ? [{ name: 'Standings', standings: calculateStandings(leagueMatches, competition) }]
+      : []),
+    ...stages
+      .filter(stage => stage.stage_type === 'group')
+      .map(stage => ({
+        name: stage.name,
+        standings: calculateStandings(results.filter(match => match.stage_id === stage.id), competition),
+      })),
+  ]
+
+  const bracket = KNOCKOUT_STAGES
+    .map(type => ({
+      type,
+      name: stages.find(stage => stage.stage_type === type)?.name || '',
+      matches: results
+        .filter(match => stageOf(match)?.stage_type === type)
+        .sort((a, b) => a.date.localeCompare(b.date)),
+    }))
+    .filter(round => round.matches.length > 0)
+
+  return {
+    competition: competition as Competition & { season: { name: string } | null },
+    tables,
+    bracket,
+    results: results.map(match => ({ ...match, stageName: stageOf(match)?.name })),
+  }
+}
@@ -0,0 +1,681 @@
+import { supabase } from '@/lib/supabase/client'
+import { generateContentHash, mergeParsedMatchData, ParseError } from '@/lib/parsers/cricclubs-parser'
+import { parseCricClubsPage } from '@/lib/parsers/cricclubs-pages'
+import {
+  initializePlayerCache,
+  isAmbiguousMatch,
+  matchPlayerName,
+  normalizePlayerName,
+  rankPlayerCandidates,
+  resolveImportedPlayer,
+} from '@/lib/parsers/player-resolver'
+import type {
+  ImportMetadata,
+  MergeConflict,
+  ParsedMatchData,
+  PlayerMappings,
+  PlayerResolution,
+} from '@/types/models'
+import { 
+  detectSeasonFromDate, 
+  getOrCreateSeason, 
+  updatePlayerSeasonStats,
+  updateBowlingSeasonStats,
+  updateFieldingSeasonStats,
+} from './stats-service'
+import { calculateMatchResult } from './result-service'
+import { getOrCreateCompetition, getOrCreateStage, recordCompetitionMatch } from './competition-service'
+import {
+  findScorecardName,
+  matchInfoColumns,
+  saveDeliveries,
+  saveInnings,
+  saveMatchAppearances,
+  saveMatchRoles,
+  saveOpponentPerformances,
+  saveOverSummaries,
+  savePartnerships,
+} from './scorecard-service'
+import { findOurTeam, getTeamIdentities, normalizeTeamName } from './team-service'
+
+export interface ImportPage {
+  html: string
+  filename?: string
+}
+
+export type ImportResult =
+  | {
+      status: 'imported'
+      matchId: string
+      message: string
+      stats: Record<string, number>
+      conflicts: MergeConflict[]
+    }
+  | { status: 'duplicate'; matchId: string }
+  | { status: 'needs_review'; reviewId: string; reason: string }
+
+export type ImportPreview =
+  | {
+      status: 'preview'
+      ourTeam: string
+      opponent: string
+      players: PlayerResolution[]
+      conflicts: MergeConflict[]
+    }
+  | { status: 'duplicate'; matchId: string }
+  | { status: 'needs_review'; reason: string }
+
+/**
+ * Work out what importMatch would do without writing anything: which side is ours and
+ * the player each of our names on the scorecard would be stored as
+ * Throws ParseError for pages that cannot be imported
+ */
+export async function previewImport(pages: ImportPage[], metadata?: ImportMetadata): Promise<ImportPreview> {
+  const contentHashes = pages.map(page => generateContentHash(page.html))
+  
+  const existingMatchId = await findImportedMatchId(contentHashes)
+  if (existingMatchId) {
+    return { status: 'duplicate', matchId: existingMatchId }
+  }
+  
+  const { parsedData, conflicts } = parseImportPages(pages, contentHashes)
+  
+  // The season is looked up rather than created; a new season has no team names of its own yet
+  const { data: season } = await supabase
+    .from('seasons')
+    .select('id')
+    .eq('name', detectSeasonFromDate(parsedData.date))
+    .single()
+  
+  const competitionName = metadata?.competitionName || parsedData.competition
+  const ourNames = metadata?.ourTeamName
+    ? [metadata.ourTeamName]
+    : (await getTeamIdentities(season?.id, competitionName)).map(identity => identity.name)
+  const ourSide = findOurTeam(scorecardTeams(parsedData), ourNames)
+  
+  if ('reason' in ourSide) {
+    return { status: 'needs_review', reason: ourSide.reason }
+  }
+  
+  const { ourInningsIndexes, opponentInningsIndexes } = splitInnings(parsedData, ourSide.ourTeam)
+  const ourInnings = parsedData.innings.find((inn, index) => ourInningsIndexes.includes(index) && !inn.isSuperOver)
+  
+  // Every name importMatch would store a player for, with where it appears
+  const rolesByName = new Map<string, PlayerResolution['roles']>()
+  const addRole = (rawName: string, role: PlayerResolution['roles'][number]) => {
+    const name = normalizePlayerName(rawName)
+    const roles = rolesByName.get(name) || []
+    if (!roles.includes(role)) roles.push(role)
+    rolesByName.set(name, roles)
+  }
+  
+  for (const index of ourInningsIndexes) {
+    parsedData.innings[index].battingEntries.forEach(entry => addRole(entry.playerName, 'batting'))
+  }
+  ourInnings?.didNotBat?.forEach(entry => addRole(entry.playerName, 'did_not_bat'))
+  for (const { entries } of ourBowlingInnings(parsedData, ourInningsIndexes, opponentInningsIndexes)) {
+    entries.forEach(entry => addRole(entry.playerName, 'bowling'))
+  }
+  for (const index of opponentInningsIndexes) {
+    parsedData.innings[index].fieldingEntries?.forEach(entry => addRole(entry.playerName, 'fielding'))
+  }
+  
+  await initializePlayerCache()
+  
+  const players: PlayerResolution[] = []
+  for (const [scorecardName, roles] of rolesByName) {
+    const match = await matchPlayerName(scorecardName)
+    if (match) {
+      players.push({ scorecardName, roles, ...match })
+      continue
+    }
+    
+    const candidates = await rankPlayerCandidates(scorecardName)
+    players.push({
+      scorecardName,
+      roles,
+      playerName: scorecardName,
+      method: 'new',
+      confidence: 0,
+      candidates,
+      ambiguous: isAmbiguousMatch(candidates),
+    })
+  }
+  
+  return {
+    status: 'preview',
+    ourTeam: ourSide.ourTeam,
+    opponent: ourSide.opponent,
+    players,
+    conflicts,
+  }
+}
+
+/**
+ * Import a match from the CricClubs pages saved for it
+ * playerMappings, from the upload page's preview, decides the player for each scorecard name;
+ * names not in it are matched automatically
+ * Throws ParseError for pages that cannot be imported
+ */
+export async function importMatch(
+  pages: ImportPage[],
+  metadata?: ImportMetadata,
+  playerMappings?: PlayerMappings
+): Promise<ImportResult> {
+  // Generate content hashes for duplicate detection
+  const contentHashes = pages.map(page => generateContentHash(page.html))
+  
+  // Check for duplicate
+  const existingMatchId = await findImportedMatchId(contentHashes)
+  if (existingMatchId) {
+    return { status: 'duplicate', matchId: existingMatchId }
+  }
+  
+  // Parse every page and merge them into one match
+  const { parsedData, conflicts, contentHash } = parseImportPages(pages, contentHashes)
+  
+  // Detect and get/create season
+  const seasonName = detectSeasonFromDate(parsedData.date)
+  const seasonId = await getOrCreateSeason(seasonName)
+  
+  // Work out which side is ours from the registered team names
+  // (or the name given on the upload page), holding the import for review when unsure
+  const competitionName = metadata?.competitionName || parsedData.competition
+  const ourNames = metadata?.ourTeamName
+    ? [metadata.ourTeamName]
+    : (await getTeamIdentities(seasonId, competitionName)).map(identity => identity.name)
+  
+  const teams = scorecardTeams(parsedData)
+  const ourSide = findOurTeam(teams, ourNames)
+  
+  if ('reason' in ourSide) {
+    const reviewId = await holdForReview(pages, contentHashes, teams, ourSide.reason, metadata)
+    return { status: 'needs_review', reviewId, reason: ourSide.reason }
+  }
+  
+  const { ourTeam: ourTeamName, opponent } = ourSide
+  
+  const { ourInningsIndexes, opponentInningsIndexes } = splitInnings(parsedData, ourTeamName)
+  
+  // Match totals and extras come from each side's first innings
+  const ourInnings = parsedData.innings.find((inn, index) => ourInningsIndexes.includes(index) && !inn.isSuperOver)
+  const opponentInnings = parsedData.innings.find((inn, index) => opponentInningsIndexes.includes(index) && !inn.isSuperOver)
+  
+  // Work out the winner and margin from the batting order, falling back to the result line
+  const matchResult = calculateMatchResult(parsedData, ourTeamName)
+  
+  const competitionId = competitionName ? await getOrCreateCompetition(competitionName, seasonId) : null
+  const stageId = competitionId && parsedData.stage ? await getOrCreateStage(competitionId, parsedData.stage) : null
+  
+  // Create match record with extras breakdown
+  const { data: match, error: matchError } = await supabase
+    .from('matches')
+    .insert({
+      ...matchInfoColumns(parsedData),
+      season_id: seasonId,
+      date: parsedData.date,
+      opponent,
+      venue: metadata?.venue || parsedData.venue,
+      match_type: metadata?.matchType || 'league',
+      competition_name: competitionName,
+      competition_id: competitionId,
+      stage_id: stageId,
+      result: matchResult.result,
+      winner: matchResult.winner,
+      margin_runs: matchResult.marginRuns,
+      margin_wickets: matchResult.marginWickets,
+      margin_balls_left: matchResult.marginBallsLeft,
+      result_method: matchResult.method,
+      revised_target: matchResult.revisedTarget,
+      revised_overs: matchResult.revisedOvers,
+      result_summary: matchResult.summary,
+      our_team_name: ourTeamName,
+      our_score: ourInnings ? `${ourInnings.total}/${ourInnings.wickets}` : null,
+      opponent_score: opponentInnings ? `${opponentInnings.total}/${opponentInnings.wickets}` : null,
+      our_extras_total: ourInnings?.extrasBreakdown?.total || ourInnings?.extras || 0,
+      our_extras_wides: ourInnings?.extrasBreakdown?.wides || 0,
+      our_extras_no_balls: ourInnings?.extrasBreakdown?.noBalls || 0,
+      our_extras_byes: ourInnings?.extrasBreakdown?.byes || 0,
+      our_extras_leg_byes: ourInnings?.extrasBreakdown?.legByes || 0,
+      notes: metadata?.notes,
+      raw_html_hash: contentHash,
+    })
+    .select()
+    .single()
+  
+  if (matchError) {
+    console.error('Error creating match:', matchError)
+    throw new Error('Failed to create match record')
+  }
+  
+  // Record import history for every page
+  await supabase.from('import_history').insert(
+    pages.map((page, index) => ({
+      match_id: match.id,
+      filename: page.filename || 'unknown.html',
+      content_hash: contentHashes[index],
+    }))
+  )
+  
+  // Record the result for the competition's points table
+  if (competitionId) {
+    await recordCompetitionMatch(competitionId, stageId, parsedData, matchResult, contentHash, match.id)
+  }
+  
+  // Store totals and extras for every innings
+  const innings = await saveInnings(
+    match.id,
+    parsedData.innings,
+    ourInningsIndexes,
+    parsedData.oversLimit,
+    matchResult.revisedOvers
+  )
+  
+  // Store the ball by ball and over by over data from the supplementary pages
+  const deliveries = await saveDeliveries(match.id, parsedData.innings)
+  const overs = await saveOverSummaries(match.id, parsedData.innings)
+  
+  // Initialize player cache
+  await initializePlayerCache()
+  
+  // Resolve each scorecard name once
+  const resolvedPlayerIds = new Map<string, string>()
+  const resolvePlayer = async (rawName: string): Promise<string> => {
+    const name = normalizePlayerName(rawName)
+    const known = resolvedPlayerIds.get(name)
+    if (known) return known
+    
+    const playerId = await resolveImportedPlayer(rawName, match.id, playerMappings?.[name])
+    resolvedPlayerIds.set(name, playerId)
+    return playerId
+  }
+  
+  // Track all players to update stats for
+  const battingPlayerIds: string[] = []
+  const bowlingPlayerIds: string[] = []
+  const fieldingPlayerIds: string[] = []
+  // Substitute fielders are credited with their dismissals but were not in the XI
+  const substitutePlayerIds = new Set<string>()
+  const playerIdsByName = new Map<string, string>()
+  
+  // Store the opponents' batting and bowling
+  const opponentPerformances = await saveOpponentPerformances(
+    match.id,
+    opponent,
+    parsedData.innings,
+    ourInningsIndexes
+  )
+  
+  // Import batting performances for our team, innings by innings
+  for (const index of ourInningsIndexes) {
+    const inn = parsedData.innings[index]
+    
+    for (const entry of inn.battingEntries) {
+      // Resolve or create player
+      const playerId = await resolvePlayer(entry.playerName)
+      
+      battingPlayerIds.push(playerId)
+      playerIdsByName.set(entry.playerName, playerId)
+      
+      // Insert batting performance
+      const { error: perfError } = await supabase
+        .from('batting_performances')
+        .insert({
+          match_id: match.id,
+          player_id: playerId,
+          runs: entry.runs,
+          balls: entry.balls,
+          fours: entry.fours,
+          sixes: entry.sixes,
+          not_out: entry.notOut,
+          bowled_lbw: entry.isBowledOrLBW,
+          dismissal_text: entry.dismissalText,
+          dismissal_kind: entry.dismissal.kind,
+          dismissal_bowler: entry.dismissal.bowlerName || null,
+          dismissal_fielder: entry.dismissal.fielderName || null,
+          dismissed_by_id: findScorecardName(entry.dismissal.bowlerName, opponentPerformances.bowlerIds) || null,
+          batting_position: entry.battingPosition,
+          innings_number: index + 1,
+          is_super_over: !!inn.isSuperOver,
+        })
+      
+      if (perfError) {
+        console.error('Error inserting batting performance:', perfError)
+      }
+    }
+  }
+  
+  // Link players who did not bat, so they still count as playing
+  const didNotBatPlayerIds: string[] = []
+  for (const entry of ourInnings?.didNotBat || []) {
+    const playerId = await resolvePlayer(entry.playerName)
+    
+    didNotBatPlayerIds.push(playerId)
+    playerIdsByName.set(entry.playerName, playerId)
+  }
+  
+  // Import bowling performances for our team (from opponent's innings)
+  const bowlingInnings = ourBowlingInnings(parsedData, ourInningsIndexes, opponentInningsIndexes)
+  
+  for (const { entries, inningsIndex } of bowlingInnings) {
+    for (const entry of entries) {
+      // Resolve or create player
+      const playerId = await resolvePlayer(entry.playerName)
+      
+      bowlingPlayerIds.push(playerId)
+      playerIdsByName.set(entry.playerName, playerId)
+      
+      // Insert bowling performance
+      const { error: bowlError } = await supabase
+        .from('bowling_performances')
+        .insert({
+          match_id: match.id,
+          player_id: playerId,
+          overs: entry.overs,
+          balls: entry.balls,
+          maidens: entry.maidens,
+          runs_conceded: entry.runs,
+          wickets: entry.wickets,
+          dots: entry.dots,
+          wides: entry.wides,
+          no_balls: entry.noBalls,
+          economy: entry.economy,
+          innings_number: inningsIndex + 1,
+          is_super_over: !!parsedData.innings[inningsIndex]?.isSuperOver,
+        })
+      
+      if (bowlError) {
+        console.error('Error inserting bowling performance:', bowlError)
+      }
+    }
+  }
+  
+  // Import fielding performances from dismissals in each of the opponent's innings
+  // (catches, run outs, stumpings are credited when opponent gets out)
+  for (const index of opponentInningsIndexes) {
+    const inn = parsedData.innings[index]
+    
+    for (const entry of inn.fieldingEntries || []) {
+      // Resolve or create player
+      const playerId = await resolvePlayer(entry.playerName)
+      
+      fieldingPlayerIds.push(playerId)
+      if (entry.isSubstitute) substitutePlayerIds.add(playerId)
+      
+      // Insert or update fielding performance
+      const { data: existingFielding } = await supabase
+        .from('fielding_performances')
+        .select('id, catches, run_outs, stumpings')
+        .eq('match_id', match.id)
+        .eq('player_id', playerId)
+        .eq('innings_number', index + 1)
+        .single()
+      
+      if (existingFielding) {
+        // Update existing record
+        await supabase
+          .from('fielding_performances')
+          .update({
+            catches: existingFielding.catches + entry.catches,
+            run_outs: existingFielding.run_outs + entry.runOuts,
+            stumpings: existingFielding.stumpings + entry.stumpings,
+          })
+          .eq('id', existingFielding.id)
+      } else {
+        // Insert new record
+        const { error: fieldError } = await supabase
+          .from('fielding_performances')
+          .insert({
+            match_id: match.id,
+            player_id: playerId,
+            catches: entry.catches,
+            run_outs: entry.runOuts,
+            stumpings: entry.stumpings,
+            innings_number: index + 1,
+            is_super_over: !!inn.isSuperOver,
+          })
+        
+        if (fieldError) {
+          console.error('Error inserting fielding performance:', fieldError)
+        }
+      }
+    }
+  }
+  
+  // Store partnerships from the fall of wickets, linking our batters to players
+  const partnerships = await savePartnerships(
+    match.id,
+    parsedData.innings,
+    ourInningsIndexes,
+    playerIdsByName
+  )
+  
+  // Store who captained and kept wicket, crediting byes in the opponent's innings to the keeper
+  // Roles come from the main innings; super overs reuse the same players
+  const mainBowlingEntries = bowlingInnings
+    .find(({ inningsIndex }) => parsedData.innings[inningsIndex] === opponentInnings)?.entries || []
+  const roles = await saveMatchRoles(
+    match.id,
+    [...(ourInnings?.battingEntries || []), ...(ourInnings?.didNotBat || []), ...mainBowlingEntries],
+    opponentInnings?.extrasBreakdown?.byes || 0,
+    playerIdsByName
+  )
+  
+  // Store the playing XI: everyone who batted, did not bat, bowled or fielded other than as a substitute
+  const playingXI = Array.from(new Set([
+    ...battingPlayerIds,
+    ...didNotBatPlayerIds,
+    ...bowlingPlayerIds,
+    ...fieldingPlayerIds.filter(playerId => !substitutePlayerIds.has(playerId)),
+  ]))
+  const appearances = await saveMatchAppearances(match.id, playingXI, battingPlayerIds)
+  
+  // Update season stats for all players
+  // Batting and fielding stats count matches played, so the whole XI is refreshed
+  const uniqueBatting = Array.from(new Set(battingPlayerIds))
+  const uniqueBowling = Array.from(new Set(bowlingPlayerIds))
+  const uniqueFielding = Array.from(new Set(fieldingPlayerIds))
+  
+  for (const playerId of playingXI) {
+    await updatePlayerSeasonStats(playerId, seasonId)
+  }
+  
+  for (const playerId of uniqueBowling) {
+    await updateBowlingSeasonStats(playerId, seasonId)
+  }
+  
+  for (const playerId of new Set([...playingXI, ...uniqueFielding])) {
+    await updateFieldingSeasonStats(playerId, seasonId)
+  }
+  
+  return {
+    status: 'imported',
+    matchId: match.id,
+    message: `Imported match: ${opponent} on ${parsedData.date}`,
+    stats: {
+      batting: uniqueBatting.length,
+      bowling: uniqueBowling.length,
+      fielding: uniqueFielding.length,
+      innings,
+      deliveries,
+      overs,
+      partnerships,
+      roles,
+      appearances,
+      opponentBatting: opponentPerformances.batting,
+      opponentBowling: opponentPerformances.bowling,
+    },
+    conflicts,
+  }
+}
+
+/**
+ * Record a match we did not play in, for its competition's points table only
+ * No players, performances or stats are stored
+ */
+export async function importCompetitionResult(
+  pages: ImportPage[],
+  metadata?: ImportMetadata
+): Promise<{ status: 'imported' | 'duplicate'; competitionId: string; message: string }> {
+  const contentHashes = pages.map(page => generateContentHash(page.html))
+  const { parsedData, contentHash } = parseImportPages(pages, contentHashes)
+  
+  const competitionName = metadata?.competitionName || parsedData.competition
+  if (!competitionName) {
+    throw new ParseError(
+      'A competition is needed to record a match we did not play in',
+      'PARSE_FAILED',
+      'Enter the competition name on the upload page and try again.'
+    )
+  }
+  
+  // The same scorecard already imported as one of our matches
+  const { data: existingImports } = await supabase
+    .from('import_history')
+    .select('id')
+    .eq('content_hash', contentHash)
+    .limit(1)
+  
+  const seasonId = await getOrCreateSeason(detectSeasonFromDate(parsedData.date))
+  const competitionId = await getOrCreateCompetition(competitionName, seasonId)
+  
+  if (existingImports?.[0]) {
+    return { status: 'duplicate', competitionId, message: 'This scorecard has already been imported as one of our matches' }
+  }
+  
+  const stageId = parsedData.stage ? await getOrCreateStage(competitionId, parsedData.stage) : null
+  const matchResult = calculateMatchResult(parsedData, '')
+  await recordCompetitionMatch(competitionId, stageId, parsedData, matchResult, contentHash)
+  
+  return {
+    status: 'imported',
+    competitionId,
+    message: `Recorded ${parsedData.teams.join(' vs ')} for ${competitionName}: ${matchResult.summary}`,
+  }
+}
+
+/**
+ * The match already imported from any of these pages
+ */
+async function findImportedMatchId(contentHashes: string[]): Promise<string | undefined> {
+  const { data: existingImports } = await supabase
+    .from('import_history')
+    .select('id, match_id')
+    .in('content_hash', contentHashes)
+    .limit(1)
+  
+  return existingImports?.[0]?.match_id
+}
+
+/**
+ * The teams on a scorecard
+ * Innings teams are the names as batted; a match with one innings falls back to the header teams
+ */
+function scorecardTeams(parsedData: ParsedMatchData): string[] {
+  if (parsedData.innings.length < 2) return parsedData.teams
+  
+  return parsedData.innings
+    .map(inn => inn.team)
+    .filter((team, index, all) => all.findIndex(other => normalizeTeamName(other) === normalizeTeamName(team)) === index)
+}
+
+/**
+ * Positions of each side's innings; two-innings matches and super overs give a side more than one
+ */
+function splitInnings(
+  parsedData: ParsedMatchData,
+  ourTeamName: string
+): { ourInningsIndexes: number[]; opponentInningsIndexes: number[] } {
+  const ourInningsIndexes: number[] = []
+  const opponentInningsIndexes: number[] = []
+  parsedData.innings.forEach((inn, index) => {
+    if (normalizeTeamName(inn.team) === normalizeTeamName(ourTeamName)) {
+      ourInningsIndexes.push(index)
+    } else {
+      opponentInningsIndexes.push(index)
+    }
+  })
+  
+  return { ourInningsIndexes, opponentInningsIndexes }
+}
+
+/**
+ * Our bowling figures for each of the opponent's innings
+ * When the opponent bats, our players bowl; some HTML structures list our bowling in our
+ * own innings instead, paired up in batting order
+ */
+function ourBowlingInnings(
+  parsedData: ParsedMatchData,
+  ourInningsIndexes: number[],
+  opponentInningsIndexes: number[]
+) {
+  const bowlingListed = opponentInningsIndexes.some(index => parsedData.innings[index].bowlingEntries.length > 0)
+  return (bowlingListed ? opponentInningsIndexes : ourInningsIndexes).map((sourceIndex, position) => ({
+    entries: parsedData.innings[sourceIndex].bowlingEntries,
+    inningsIndex: opponentInningsIndexes[position] ?? sourceIndex,
+  }))
+}
+
+/**
+ * Parse every page and merge them into one match
+ * The Full Scorecard page is required and its hash identifies the match
+ */
+function parseImportPages(
+  pages: ImportPage[],
+  contentHashes: string[]
+): { parsedData: ParsedMatchData; conflicts: MergeConflict[]; contentHash: string } {
+  const parsedPages = pages.map(page => parseCricClubsPage(page.html))
+  const scorecardIndex = parsedPages.findIndex(page => page.source === 'Full Scorecard')
+  
+  if (scorecardIndex === -1) {
+    throw new ParseError(
+      'A Full Scorecard page is required to import a match',
+      'WRONG_PAGE_TYPE',
+      'Add the "Full Scorecard" page saved for this match to the upload.'
+    )
+  }
+  
+  const { data: parsedData, conflicts } = mergeParsedMatchData(parsedPages)
+  return { parsedData, conflicts, contentHash: contentHashes[scorecardIndex] }
+}
+
+/**
+ * Queue an import whose side could not be identified
+ * Re-uploading the same pages returns the review already pending for them
+ */
+async function holdForReview(
+  pages: ImportPage[],
+  contentHashes: string[],
+  teams: string[],
+  reason: string,
+  metadata?: ImportMetadata
+): Promise<string> {
+  const { data: existing } = await supabase
+    .from('import_reviews')
+    .select('id')
+    .eq('status', 'pending')
+    .overlaps('content_hashes', contentHashes)
+    .limit(1)
+  
+  if (existing?.[0]) return existing[0].id
+  
+  const { data: review, error } = await supabase
+    .from('import_reviews')
+    .insert({
+      reason,
+      teams,
+      filenames: pages.map(page => page.filename || 'unknown.html'),
+      content_hashes: contentHashes,
+      pages,
+      metadata: metadata || null,
+    })
+    .select('id')
+    .single()
+  
+  if (error) {
+    console.error('Error saving import review:', error)
+    throw new Error('Failed to queue the import for review')
+  }
+  
+  return review.id
+}
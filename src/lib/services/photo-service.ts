@@ -0,0 +1,124 @@
+import { createReadStream } from 'fs'
+import { mkdir, stat, unlink, writeFile } from 'fs/promises'
+import path from 'path'
+import { Readable } from 'stream'
+import { supabase } from '@/lib/supabase/client'
+
+// Photos are kept outside public/ - files added there after the build are not served -
+// and sent by /api/players/[id]/photo
+const PHOTO_DIR = process.env.PLAYER_PHOTO_DIR || path.join(process.cwd(), 'storage', 'player-photos')
+
+// Accepted image types and the extension each is saved with
+export const PHOTO_TYPES: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+}
+
+export const MAX_PHOTO_BYTES = 5 * 1024 * 1024
+
+/**
+ * Store a player's photo and point their profile at it, replacing any earlier upload
+ */
+export async function savePlayerPhoto(playerId: string, file: File): Promise<string> {
+  const { data: player } = await supabase
+    .from('players')
+    .select('photo_url')
+    .eq('id', playerId)
+    .single()
+
+  if (!player) {
+    throw new Error('Player not found')
+  }
+
+  // A new name per upload so browsers do not keep showing the old photo
+  const filename = `${playerId}-${Date.now()}.${PHOTO_TYPES[file.type]}`
+  await mkdir(PHOTO_DIR, { recursive: true })
+  await writeFile(path.join(PHOTO_DIR, filename), Buffer.from(await file.arrayBuffer()))
+
+  const photoUrl = `/api/players/${playerId}/photo?file=${filename}`
+  const { error } = await supabase
+    .from('players')
+    .update({ photo_url: photoUrl })
+    .eq('id', playerId)
+
+  if (error) {
+    console.error('Error saving player photo:', error)
+    await deleteStoredPhoto(photoUrl)
+    throw new Error('Failed to save photo')
+  }
+
+  await deleteStoredPhoto(player.photo_url)
+  return photoUrl
+}
+
+/**
+ * A player's uploaded photo as a stream, with its content type and size
+ * Returns null when the player has no photo stored here
+ */
+export async function readPlayerPhoto(
+  playerId: string
+): Promise<{ stream: ReadableStream<Uint8Array>; contentType: string; size: number } | null> {
+  const { data: player } = await supabase
+    .from('players')
+    .select('photo_url')
+    .eq('id', playerId)
+    .single()
+
+  const filename = storedPhotoFile(player?.photo_url)
+  const contentType = filename && Object.keys(PHOTO_TYPES).find(type => filename.endsWith(`.${PHOTO_TYPES[type]}`))
+  if (!filename || !contentType) return null
+
+  const filePath = path.join(PHOTO_DIR, filename)
+  const file = await stat(filePath).catch(() => null)
+  if (!file?.isFile()) return null
+
+  return {
+    stream: Readable.toWeb(createReadStream(filePath)) as ReadableStream<Uint8Array>,
+    contentType,
+    size: file.size,
+  }
+}
+
+/**
+ * Clear a player's photo, deleting the file if it was uploaded here
+ */
+export async function removePlayerPhoto(playerId: string): Promise<void> {
+  const { data: player } = await supabase
+    .from('players')
+    .select('photo_url')
+    .eq('id', playerId)
+    .single()
+
+  const { error } = await supabase
+    .from('players')
+    .update({ photo_url: null })
+    .eq('id', playerId)
+
+  if (error) {
+    console.error('Error removing player photo:', error)
+    throw new Error('Failed to remove photo')
+  }
+
+  await deleteStoredPhoto(player?.photo_url)
+}
+
+/**
+ * The stored file behind a photo URL, or null for photos linked from elsewhere
+ */
+function storedPhotoFile(photoUrl?: string | null): string | null {
+  const match = photoUrl?.match(/^\/api\/players\/[^/]+\/photo\?file=([\w.-]+)$/)
+  return match ? path.basename(match[1]) : null
+}
+
+async function deleteStoredPhoto(photoUrl?: string | null): Promise<void> {
+  const filename = storedPhotoFile(photoUrl)
+  if (!filename) return
+
+  try {
+    await unlink(path.join(PHOTO_DIR, filename))
+  } catch (error) {
+    console.error('Error deleting photo file:', error)
+  }
+}
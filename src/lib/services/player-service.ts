@@ -0,0 +1,672 @@
+import { supabase } from '@/lib/supabase/client'
+import {
+  addMatchPlayerOverride,
+  addPlayerAlias,
+  clearPlayerCache,
+  matchPlayerName,
+  normalizePlayerName,
+} from '@/lib/parsers/player-resolver'
+import type {
+  BattingPerformance,
+  BowlingPerformance,
+  FieldingPerformance,
+  PlayerContactInfo,
+  PlayerMergeChoice,
+  PlayerMergeConflict,
+  PlayerNameReview,
+  RosterDiff,
+  RosterEntry,
+} from '@/types/models'
+import { reassignMatchAppearance } from './scorecard-service'
+import {
+  updateBowlingSeasonStats,
+  updateFieldingSeasonStats,
+  updatePlayerSeasonStats,
+} from './stats-service'
+
+// Tables holding one row per player per innings of a match
+const PERFORMANCE_TYPES: Record<PlayerMergeConflict['type'], string> = {
+  batting: 'batting_performances',
+  bowling: 'bowling_performances',
+  fielding: 'fielding_performances',
+}
+const PERFORMANCE_TABLES = Object.values(PERFORMANCE_TYPES)
+
+// Contact details a player's profile can hold
+export const CONTACT_FIELDS: (keyof PlayerContactInfo)[] = ['email', 'phone', 'instagram']
+
+// Rows picked to move off a player when splitting it
+export interface PlayerSplitSelection {
+  batting: string[]
+  bowling: string[]
+  fielding: string[]
+  aliases: string[]
+}
+
+export type PlayerMergeResult =
+  | { status: 'conflicts'; conflicts: PlayerMergeConflict[] }
+  | { status: 'merged'; message: string }
+
+/**
+ * Scorecard names waiting to be linked to a player, oldest match first
+ */
+export async function getPendingNameReviews() {
+  const { data, error } = await supabase
+    .from('player_name_reviews')
+    .select(`
+      *,
+      match:matches(id, date, opponent),
+      player:players(id, name)
+    `)
+    .eq('status', 'pending')
+    .order('created_at')
+
+  if (error) {
+    console.error('Error fetching player name reviews:', error)
+    return []
+  }
+
+  return (data || []) as (PlayerNameReview & {
+    match: { id: string; date: string; opponent: string } | null
+    player: { id: string; name: string } | null
+  })[]
+}
+
+/**
+ * Link a queued scorecard name to an existing player
+ * The name becomes one of their aliases and everything stored under the player created
+ * for it moves across in a single database transaction, after which that player is deleted
+ */
+export async function linkPlayerName(reviewId: string, playerId: string): Promise<void> {
+  const review = await getPendingReview(reviewId)
+  const placeholderId = review.player_id
+  // Other queued matches with the same name were stored under the same player
+  const reviewIds = [review.id, ...(await reviewsForPlayer(placeholderId))]
+
+  if (placeholderId && placeholderId !== playerId) {
+    // Seasons are read before the merge, while the rows still belong to the placeholder
+    const seasonIds = await seasonsPlayedIn(placeholderId)
+
+    // No innings is kept from either side, so a shared innings fails the whole merge
+    const { error } = await supabase.rpc('merge_players', {
+      p_source_id: placeholderId,
+      p_target_id: playerId,
+      p_keep_source: [],
+      p_keep_target: [],
+    })
+
+    if (error) {
+      console.error('Error linking player name:', error)
+      throw new Error(
+        error.message.includes('duplicate')
+          ? 'Both players have a performance in the same innings. Edit the scorecard first.'
+          : 'Failed to move the records stored under this name'
+      )
+    }
+
+    clearPlayerCache()
+    await recalculatePlayerStats(playerId, seasonIds)
+  }
+
+  await addPlayerAlias(playerId, review.scorecard_name)
+
+  await supabase
+    .from('player_name_reviews')
+    .update({ player_id: playerId, status: 'resolved', resolved_at: new Date().toISOString() })
+    .eq('status', 'pending')
+    .in('id', reviewIds)
+}
+
+/**
+ * Keep a queued scorecard name as a player of its own, optionally under their full name
+ * A new name keeps the scorecard name as an alias
+ */
+export async function confirmNewPlayer(reviewId: string, name?: string): Promise<void> {
+  const review = await getPendingReview(reviewId)
+
+  if (!review.player_id) {
+    throw new Error('The player created for this name no longer exists')
+  }
+
+  const fullName = name ? normalizePlayerName(name) : ''
+  if (fullName && fullName !== review.scorecard_name) {
+    // Player names are not unique in the database, so a taken name is checked for here
+    const { data: existing } = await supabase
+      .from('players')
+      .select('id')
+      .eq('name', fullName)
+      .neq('id', review.player_id)
+      .limit(1)
+
+    if (existing?.[0]) {
+      throw new Error(`A player named "${fullName}" already exists. Link the name to them instead.`)
+    }
+
+    const { error } = await supabase
+      .from('players')
+      .update({ name: fullName })
+      .eq('id', review.player_id)
+
+    if (error) {
+      console.error('Error renaming player:', error)
+      throw new Error('Failed to rename player')
+    }
+
+    await addPlayerAlias(review.player_id, review.scorecard_name)
+    clearPlayerCache()
+  }
+
+  await supabase
+    .from('player_name_reviews')
+    .update({ status: 'resolved', resolved_at: new Date().toISOString() })
+    .eq('status', 'pending')
+    .in('id', [review.id, ...(await reviewsForPlayer(review.player_id))])
+}
+
+/**
+ * What merging one player into another would move, and the innings both played in
+ */
+export async function previewPlayerMerge(sourceId: string, targetId: string) {
+  if (sourceId === targetId) {
+    throw new Error('Choose two different players to merge')
+  }
+
+  const { data: players } = await supabase
+    .from('players')
+    .select('id, name')
+    .in('id', [sourceId, targetId])
+
+  const source = players?.find(player => player.id === sourceId)
+  const target = players?.find(player => player.id === targetId)
+  if (!source || !target) {
+    throw new Error('Player not found')
+  }
+
+  const counts: Record<string, number> = {}
+  for (const [type, table] of Object.entries(PERFORMANCE_TYPES)) {
+    const { count } = await supabase
+      .from(table)
+      .select('id', { count: 'exact', head: true })
+      .eq('player_id', sourceId)
+    counts[type] = count || 0
+  }
+
+  const { count: aliases } = await supabase
+    .from('player_aliases')
+    .select('id', { count: 'exact', head: true })
+    .eq('player_id', sourceId)
+  const { count: overrides } = await supabase
+    .from('match_player_overrides')
+    .select('id', { count: 'exact', head: true })
+    .eq('actual_player_id', sourceId)
+  counts.aliases = aliases || 0
+  counts.overrides = overrides || 0
+
+  return {
+    source: source as { id: string; name: string },
+    target: target as { id: string; name: string },
+    counts,
+    conflicts: await findMergeConflicts(sourceId, targetId),
+  }
+}
+
+/**
+ * Merge a duplicate player into another
+ * Everything stored under the source moves to the target and the source is deleted, its
+ * name kept as an alias, in a single database transaction. Innings both players have a
+ * row in need a choice of which row to keep; without one for every conflict nothing
+ * changes and the conflicts are returned
+ */
+export async function mergePlayers(
+  sourceId: string,
+  targetId: string,
+  choices: Record<string, PlayerMergeChoice> = {}
+): Promise<PlayerMergeResult> {
+  const { source, target, conflicts } = await previewPlayerMerge(sourceId, targetId)
+
+  if (conflicts.some(conflict => !choices[conflict.key])) {
+    return { status: 'conflicts', conflicts }
+  }
+
+  // Seasons are read before the merge, while the rows still belong to the source
+  const seasonIds = await seasonsPlayedIn(sourceId)
+
+  const { error } = await supabase.rpc('merge_players', {
+    p_source_id: sourceId,
+    p_target_id: targetId,
+    p_keep_source: conflicts.filter(conflict => choices[conflict.key] === 'source').map(conflict => conflict.key),
+    p_keep_target: conflicts.filter(conflict => choices[conflict.key] === 'target').map(conflict => conflict.key),
+  })
+
+  if (error) {
+    console.error('Error merging players:', error)
+    throw new Error(
+      error.message.includes('duplicate')
+        ? 'Both players now have a performance in the same innings. Preview the merge again.'
+        : error.message || 'Failed to merge players'
+    )
+  }
+
+  clearPlayerCache()
+  await recalculatePlayerStats(targetId, seasonIds)
+
+  return { status: 'merged', message: `Merged ${source.name} into ${target.name}` }
+}
+
+/**
+ * Move chosen performances and aliases off a player, undoing a wrong merge or auto-match
+ * They go to an existing player (`playerId`) or a new one (`name`) in a single database
+ * transaction; season stats are then recalculated for both players
+ */
+export async function splitPlayer(
+  sourceId: string,
+  selection: PlayerSplitSelection,
+  target: { playerId: string } | { name: string }
+): Promise<{ playerId: string; message: string }> {
+  const performanceCount = selection.batting.length + selection.bowling.length + selection.fielding.length
+  if (performanceCount + selection.aliases.length === 0) {
+    throw new Error('Choose at least one performance or alias to move')
+  }
+
+  // Seasons are read before the move, while the rows still belong to the source
+  const matchIds = new Set<string>()
+  for (const [type, table] of Object.entries(PERFORMANCE_TYPES) as [PlayerMergeConflict['type'], string][]) {
+    if (selection[type].length === 0) continue
+    const { data } = await supabase.from(table).select('match_id').in('id', selection[type])
+    data?.forEach(row => matchIds.add(row.match_id))
+  }
+
+  const { data: matches } = await supabase
+    .from('matches')
+    .select('season_id')
+    .in('id', Array.from(matchIds))
+  const seasonIds = Array.from(new Set((matches || []).map(match => match.season_id as string)))
+
+  const { data: playerId, error } = await supabase.rpc('split_player', {
+    p_source_id: sourceId,
+    p_target_id: 'playerId' in target ? target.playerId : null,
+    p_new_player_name: 'name' in target ? normalizePlayerName(target.name) : null,
+    p_batting_ids: selection.batting,
+    p_bowling_ids: selection.bowling,
+    p_fielding_ids: selection.fielding,
+    p_alias_ids: selection.aliases,
+  })
+
+  if (error || !playerId) {
+    console.error('Error splitting player:', error)
+    throw new Error(
+      error?.message.includes('duplicate')
+        ? 'The other player already has a performance in one of those innings, or that name is taken'
+        : error?.message || 'Failed to split player'
+    )
+  }
+
+  clearPlayerCache()
+  await recalculatePlayerStats(sourceId, seasonIds)
+  await recalculatePlayerStats(playerId, seasonIds)
+
+  return {
+    playerId,
+    message: `Moved ${performanceCount} performance(s) and ${selection.aliases.length} alias(es)`,
+  }
+}
+
+/**
+ * Overrides set for a match, with the player each name stands for
+ */
+export async function getMatchPlayerOverrides(matchId: string) {
+  const { data, error } = await supabase
+    .from('match_player_overrides')
+    .select(`
+      *,
+      player:players(id, name)
+    `)
+    .eq('match_id', matchId)
+    .order('displayed_name')
+
+  if (error) {
+    console.error('Error fetching match overrides:', error)
+    return []
+  }
+
+  return data || []
+}
+
+/**
+ * Record that a player played under another name in a match
+ * When the name belonged to another player - by an earlier override, an alias or their own
+ * name - that player's performances in the match move to this one, with season stats
+ * recalculated for both. A fuzzy match may be a player who also played under their own
+ * name, so nothing moves for it. The override is only saved once the move has succeeded
+ */
+export async function saveMatchPlayerOverride(
+  matchId: string,
+  displayedName: string,
+  playerId: string,
+  notes?: string
+): Promise<void> {
+  const name = normalizePlayerName(displayedName)
+  const previous = await matchPlayerName(name, matchId)
+
+  if (previous && previous.method !== 'fuzzy' && previous.playerId !== playerId) {
+    await moveMatchPerformances(matchId, previous.playerId, playerId)
+  }
+
+  await addMatchPlayerOverride(matchId, name, playerId, notes)
+  clearPlayerCache()
+}
+
+/**
+ * Remove a match override
+ * Performances stay with the player they were moved to; reassign them if needed
+ */
+export async function deleteMatchPlayerOverride(matchId: string, overrideId: string): Promise<void> {
+  const { error } = await supabase
+    .from('match_player_overrides')
+    .delete()
+    .eq('id', overrideId)
+    .eq('match_id', matchId)
+
+  if (error) {
+    console.error('Error deleting match override:', error)
+    throw new Error('Failed to remove override')
+  }
+
+  clearPlayerCache()
+}
+
+/**
+ * Update the profile details shown on a player's page
+ * Empty values are cleared; contact fields left blank are dropped
+ */
+export async function updatePlayerProfile(
+  playerId: string,
+  profile: { year?: string; major?: string; contactInfo?: PlayerContactInfo | null }
+): Promise<void> {
+  const contactInfo = Object.fromEntries(
+    CONTACT_FIELDS
+      .map(field => [field, profile.contactInfo?.[field]?.trim()])
+      .filter(([, value]) => value)
+  )
+
+  const { error } = await supabase
+    .from('players')
+    .update({
+      year: profile.year?.trim() || null,
+      major: profile.major?.trim() || null,
+      contact_info: Object.keys(contactInfo).length > 0 ? contactInfo : null,
+    })
+    .eq('id', playerId)
+
+  if (error) {
+    console.error('Error updating player profile:', error)
+    throw new Error('Failed to update player')
+  }
+}
+
+/**
+ * Compare an uploaded roster with the players already stored, writing nothing
+ * A name that already belongs to another player - or to an earlier row of the file -
+ * is a collision and is left out
+ */
+export async function previewRosterImport(entries: RosterEntry[]): Promise<RosterDiff> {
+  const [{ data: players }, { data: aliases }] = await Promise.all([
+    supabase.from('players').select('id, name, year, major'),
+    supabase.from('player_aliases').select('player_id, alias'),
+  ])
+
+  const playersByName = new Map((players || []).map(p => [p.name.toLowerCase(), p]))
+  const playerNames = new Map((players || []).map(p => [p.id, p.name]))
+
+  // Every stored name and alias, and the player it belongs to
+  const owners = new Map<string, { playerId: string; playerName: string }>()
+  for (const player of players || []) {
+    owners.set(player.name.toLowerCase(), { playerId: player.id, playerName: player.name })
+  }
+  for (const alias of aliases || []) {
+    const key = alias.alias.toLowerCase()
+    if (!owners.has(key)) {
+      owners.set(key, { playerId: alias.player_id, playerName: playerNames.get(alias.player_id) || 'another player' })
+    }
+  }
+
+  const diff: RosterDiff = { newPlayers: [], newAliases: [], updatedPlayers: [], collisions: [], unchanged: 0 }
+  const claimed = new Map<string, RosterEntry>() // Names given out by earlier rows of the file
+
+  for (const entry of entries) {
+    const key = entry.name.toLowerCase()
+    const existing = playersByName.get(key)
+    let changed = false
+
+    if (!existing) {
+      const owner = owners.get(key)
+      const earlier = claimed.get(key)
+      if (owner || earlier) {
+        diff.collisions.push({
+          row: entry.row,
+          name: entry.name,
+          rosterPlayer: entry.name,
+          existingPlayer: owner ? owner.playerName : `row ${earlier!.row}`,
+          kind: 'player_name',
+        })
+        continue
+      }
+
+      diff.newPlayers.push(entry)
+      claimed.set(key, entry)
+      changed = true
+    }
+
+    for (const alias of entry.aliases) {
+      const aliasKey = alias.toLowerCase()
+      const owner = owners.get(aliasKey)
+      const earlier = claimed.get(aliasKey)
+      if ((owner && owner.playerId === existing?.id) || earlier === entry) continue
+
+      if (owner || earlier) {
+        diff.collisions.push({
+          row: entry.row,
+          name: alias,
+          rosterPlayer: existing?.name ?? entry.name,
+          existingPlayer: owner ? owner.playerName : `row ${earlier!.row}`,
+          kind: 'alias',
+        })
+        continue
+      }
+
+      diff.newAliases.push({ playerId: existing?.id, playerName: existing?.name ?? entry.name, alias })
+      claimed.set(aliasKey, entry)
+      changed = true
+    }
+
+    if (existing) {
+      // Blank cells keep what is stored
+      const year = entry.year ?? existing.year
+      const major = entry.major ?? existing.major
+      if (year !== existing.year || major !== existing.major) {
+        diff.updatedPlayers.push({ playerId: existing.id, playerName: existing.name, year, major })
+        changed = true
+      }
+    }
+
+    if (!changed) diff.unchanged++
+  }
+
+  return diff
+}
+
+/**
+ * Apply a roster: create its new players, add its new aliases and update year and major
+ * in a single database transaction
+ * The diff is worked out again so anything that collides since the preview is still skipped
+ */
+export async function applyRosterImport(entries: RosterEntry[]): Promise<RosterDiff> {
+  const diff = await previewRosterImport(entries)
+
+  const { error } = await supabase.rpc('apply_roster', {
+    p_new_players: diff.newPlayers.map(entry => ({
+      name: entry.name,
+      year: entry.year ?? null,
+      major: entry.major ?? null,
+    })),
+    p_new_aliases: diff.newAliases,
+    p_updated_players: diff.updatedPlayers,
+  })
+
+  if (error) {
+    console.error('Error applying roster:', error)
+    throw new Error(
+      error.message.includes('duplicate')
+        ? 'A name in the roster was added by someone else meanwhile. Preview the roster again.'
+        : 'Failed to apply roster'
+    )
+  }
+
+  clearPlayerCache()
+  return diff
+}
+
+/**
+ * Refresh a player's cached batting, bowling and fielding stats for each season
+ */
+export async function recalculatePlayerStats(playerId: string, seasonIds: string[]): Promise<void> {
+  for (const seasonId of seasonIds) {
+    await updatePlayerSeasonStats(playerId, seasonId)
+    await updateBowlingSeasonStats(playerId, seasonId)
+    await updateFieldingSeasonStats(playerId, seasonId)
+  }
+}
+
+/**
+ * A performance's figures in scorecard form: "34* (28)", "4-0-22-2", "1 ct, 0 ro, 0 st"
+ */
+export function summarizePerformance(row: BattingPerformance | BowlingPerformance | FieldingPerformance): string {
+  if ('not_out' in row) return `${row.runs}${row.not_out ? '*' : ''} (${row.balls})`
+  if ('overs' in row) return `${row.overs}-${row.maidens}-${row.runs_conceded}-${row.wickets}`
+  return `${row.catches} ct, ${row.run_outs} ro, ${row.stumpings} st`
+}
+
+/**
+ * Innings where both players have a batting, bowling or fielding row
+ */
+async function findMergeConflicts(sourceId: string, targetId: string): Promise<PlayerMergeConflict[]> {
+  const conflicts: PlayerMergeConflict[] = []
+
+  for (const [type, table] of Object.entries(PERFORMANCE_TYPES) as [PlayerMergeConflict['type'], string][]) {
+    const { data: rows } = await supabase
+      .from(table)
+      .select(`
+        *,
+        match:matches(date, opponent)
+      `)
+      .in('player_id', [sourceId, targetId])
+
+    const targetRows = new Map(
+      (rows || [])
+        .filter(row => row.player_id === targetId)
+        .map(row => [`${row.match_id}:${row.innings_number}`, row])
+    )
+
+    for (const row of (rows || []).filter(row => row.player_id === sourceId)) {
+      const other = targetRows.get(`${row.match_id}:${row.innings_number}`)
+      if (!other) continue
+
+      conflicts.push({
+        key: `${type}:${row.match_id}:${row.innings_number}`,
+        type,
+        matchId: row.match_id,
+        matchLabel: row.match ? `vs ${row.match.opponent}, ${row.match.date}` : 'Unknown match',
+        inningsNumber: row.innings_number,
+        source: summarizePerformance(row),
+        target: summarizePerformance(other),
+      })
+    }
+  }
+
+  return conflicts
+}
+
+async function getPendingReview(reviewId: string): Promise<PlayerNameReview> {
+  const { data: review } = await supabase
+    .from('player_name_reviews')
+    .select('*')
+    .eq('id', reviewId)
+    .eq('status', 'pending')
+    .single()
+
+  if (!review) {
+    throw new Error('Pending name review not found')
+  }
+
+  return review
+}
+
+async function reviewsForPlayer(playerId?: string): Promise<string[]> {
+  if (!playerId) return []
+
+  const { data } = await supabase
+    .from('player_name_reviews')
+    .select('id')
+    .eq('player_id', playerId)
+    .eq('status', 'pending')
+
+  return (data || []).map(review => review.id)
+}
+
+/**
+ * Move a player's performances in one match to another player, or only their place
+ * in the XI when they did not bat or bowl
+ */
+async function moveMatchPerformances(matchId: string, fromPlayerId: string, toPlayerId: string): Promise<void> {
+  const selection: PlayerSplitSelection = { batting: [], bowling: [], fielding: [], aliases: [] }
+  for (const [type, table] of Object.entries(PERFORMANCE_TYPES) as [PlayerMergeConflict['type'], string][]) {
+    const { data } = await supabase
+      .from(table)
+      .select('id')
+      .eq('match_id', matchId)
+      .eq('player_id', fromPlayerId)
+    selection[type] = (data || []).map(row => row.id)
+  }
+
+  if (selection.batting.length + selection.bowling.length + selection.fielding.length > 0) {
+    await splitPlayer(fromPlayerId, selection, { playerId: toPlayerId })
+    return
+  }
+
+  const { data: appearance } = await supabase
+    .from('match_appearances')
+    .select('id')
+    .eq('match_id', matchId)
+    .eq('player_id', fromPlayerId)
+    .single()
+
+  const { data: match } = await supabase
+    .from('matches')
+    .select('season_id')
+    .eq('id', matchId)
+    .single()
+
+  if (appearance && match) {
+    await reassignMatchAppearance(matchId, fromPlayerId, toPlayerId, false)
+    await recalculatePlayerStats(fromPlayerId, [match.season_id])
+    await recalculatePlayerStats(toPlayerId, [match.season_id])
+  }
+}
+
+/**
+ * Seasons of every match a player has a performance or appearance in
+ */
+async function seasonsPlayedIn(playerId: string): Promise<string[]> {
+  const matchIds = new Set<string>()
+
+  for (const table of [...PERFORMANCE_TABLES, 'match_appearances']) {
+    const { data } = await supabase.from(table).select('match_id').eq('player_id', playerId)
+    data?.forEach(row => matchIds.add(row.match_id))
+  }
+
+  const { data: matches } = await supabase
+    .from('matches')
+    .select('season_id')
+    .in('id', Array.from(matchIds))
+  return Array.from(new Set((matches || []).map(match => match.season_id as string)))
+}
@@ -0,0 +1,98 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import type { ParsedMatchData } from '@/types/models'
+import { calculateMatchResult } from './result-service'
+
+type Innings = ParsedMatchData['innings'][number]
+
+function innings(team: string, total: number, wickets: number, overs: number, isSuperOver = false): Innings {
+  return {
+    team,
+    isSuperOver,
+    battingEntries: [],
+    bowlingEntries: [],
+    fieldingEntries: [],
+    total,
+    wickets,
+    overs,
+    extras: 0,
+  }
+}
+
+function matchData(innings: Innings[], resultText?: string): ParsedMatchData {
+  return { date: '2024-01-20', teams: ['UCLA', 'USC'], oversLimit: 20, resultText, innings }
+}
+
+test('gives a tied match to the super over winner from its scores', () => {
+  const result = calculateMatchResult(matchData([
+    innings('UCLA', 140, 7, 20),
+    innings('USC', 140, 9, 20),
+    innings('USC', 12, 1, 1, true),
+    innings('UCLA', 13, 0, 0.4, true),
+  ]), 'UCLA')
+
+  assert.equal(result.method, 'super_over')
+  assert.equal(result.result, 'win')
+  assert.equal(result.winner, 'UCLA')
+  assert.equal(result.summary, 'UCLA won the Super Over')
+})
+
+test('trusts the result line over super over scores', () => {
+  const result = calculateMatchResult(matchData([
+    innings('UCLA', 140, 7, 20),
+    innings('USC', 140, 9, 20),
+    innings('USC', 9, 1, 1, true),
+    innings('UCLA', 9, 1, 1, true),
+  ], 'USC won the Super Over (boundary count)'), 'UCLA')
+
+  assert.equal(result.result, 'loss')
+  assert.equal(result.winner, 'USC')
+})
+
+test('calls a level super over a tie', () => {
+  const result = calculateMatchResult(matchData([
+    innings('UCLA', 140, 7, 20),
+    innings('USC', 140, 9, 20),
+    innings('USC', 9, 1, 1, true),
+    innings('UCLA', 9, 1, 1, true),
+  ]), 'UCLA')
+
+  assert.equal(result.result, 'tie')
+  assert.equal(result.summary, 'Match tied (Super Over tied)')
+})
+
+test('takes the margin of a DLS defence from the result line', () => {
+  const result = calculateMatchResult(matchData([
+    innings('UCLA', 180, 5, 20),
+    innings('USC', 110, 4, 12),
+  ], 'UCLA won by 9 runs (D/L method) Target 120 from 12 overs'), 'UCLA')
+
+  assert.equal(result.method, 'dls')
+  assert.equal(result.revisedTarget, 120)
+  assert.equal(result.revisedOvers, 12)
+  assert.equal(result.marginRuns, 9)
+  assert.equal(result.summary, 'UCLA won by 9 runs (DLS)')
+})
+
+test('counts balls left in a DLS chase from the revised overs', () => {
+  const result = calculateMatchResult(matchData([
+    innings('UCLA', 180, 5, 20),
+    innings('USC', 100, 4, 11),
+  ], 'USC won by 6 wickets (DLS) Target 98 from 12 overs'), 'UCLA')
+
+  assert.equal(result.result, 'loss')
+  assert.equal(result.winner, 'USC')
+  assert.equal(result.marginWickets, 6)
+  assert.equal(result.marginBallsLeft, 6)
+})
+
+test('follows a DLS result line naming the other team', () => {
+  // The revised target is missing, so the scores alone would favour UCLA
+  const result = calculateMatchResult(matchData([
+    innings('UCLA', 150, 6, 20),
+    innings('USC', 95, 3, 10),
+  ], 'USC won by 12 runs (DLS)'), 'UCLA')
+
+  assert.equal(result.winner, 'USC')
+  assert.equal(result.marginRuns, 12)
+})
@@ -0,0 +1,187 @@
+import type { CalculatedMatchResult, ParsedMatchData, ResultMethod } from '@/types/models'
+import { oversToBalls } from '@/lib/utils'
+import { normalizeTeamName } from './team-service'
+
+type Innings = ParsedMatchData['innings'][number]
+
+// What the scorecard's result line says, e.g. "UCLA won by 5 wickets (D/L method)"
+interface ResultTextDetails {
+  winner?: string
+  marginRuns?: number
+  marginWickets?: number
+  ballsLeft?: number
+  revisedTarget?: number
+  revisedOvers?: number
+  method: ResultMethod
+  tied: boolean
+  noResult: boolean
+}
+
+/**
+ * Work out the winner and margin of a match
+ * Scores decide normal results; the result line is trusted for super overs, DLS and
+ * revised targets, and for matches without exactly two main innings
+ */
+export function calculateMatchResult(data: ParsedMatchData, ourTeam: string): CalculatedMatchResult {
+  const text = parseResultText(data.resultText, [...data.innings.map(inn => inn.team), ...data.teams])
+  const mainInnings = data.innings.filter(inn => !inn.isSuperOver)
+  const superOvers = data.innings.filter(inn => inn.isSuperOver)
+  const method: ResultMethod = superOvers.length > 0 ? 'super_over' : text.method
+  const [first, second] = mainInnings.length === 2 ? mainInnings : []
+
+  let winner: string | undefined
+  let marginRuns: number | undefined
+  let marginWickets: number | undefined
+  let marginBallsLeft: number | undefined
+  const revisedTarget = text.revisedTarget
+  let tied = false
+
+  if (text.noResult) {
+    // Abandoned - no winner whatever the scores say
+  } else if (first && second && method === 'super_over') {
+    // Level after the main innings; the super over winner comes from the result line or its scores
+    winner = text.winner ?? superOverWinner(superOvers)
+    tied = !winner
+  } else if (first && second) {
+    const oversLimit = data.oversLimit ?? inferOversLimit(first)
+    const target = revisedTarget ?? first.total + 1
+    const chaseBalls = oversToBalls(second.overs)
+    const chaseOversLimit = text.revisedOvers ?? oversLimit
+
+    if (second.total >= target) {
+      winner = second.team
+      marginWickets = wicketsAvailable(second) - second.wickets
+      marginBallsLeft = text.ballsLeft ??
+        (chaseOversLimit ? Math.max(0, oversToBalls(chaseOversLimit) - chaseBalls) : undefined)
+    } else if (second.total === target - 1) {
+      tied = true
+    } else {
+      winner = first.team
+      marginRuns = method === 'dls' && text.marginRuns !== undefined
+        ? text.marginRuns
+        : target - 1 - second.total
+    }
+
+    // A result line naming the other team means the scores are incomplete (e.g. an unlisted DLS target)
+    if (method === 'dls' && text.winner && winner && !sameTeam(text.winner, winner)) {
+      winner = text.winner
+      marginRuns = text.marginRuns
+      marginWickets = text.marginWickets
+      marginBallsLeft = text.ballsLeft
+      tied = false
+    }
+  } else {
+    winner = text.winner
+    marginRuns = text.marginRuns
+    marginWickets = text.marginWickets
+    marginBallsLeft = text.ballsLeft
+    tied = text.tied
+  }
+
+  const result: CalculatedMatchResult['result'] = winner
+    ? (sameTeam(winner, ourTeam) ? 'win' : 'loss')
+    : tied ? 'tie' : 'no_result'
+
+  const calculated = {
+    result,
+    winner,
+    marginRuns,
+    marginWickets,
+    marginBallsLeft,
+    method,
+    revisedTarget,
+    revisedOvers: text.revisedOvers,
+  }
+
+  return { ...calculated, summary: formatResultSummary(calculated) }
+}
+
+/**
+ * One-line result, e.g. "UCLA won by 4 wickets (11 balls left)" or "Match tied"
+ */
+export function formatResultSummary(result: Omit<CalculatedMatchResult, 'summary'>): string {
+  if (result.result === 'no_result') return 'No result'
+  if (!result.winner) return result.method === 'super_over' ? 'Match tied (Super Over tied)' : 'Match tied'
+
+  let summary = `${result.winner} won`
+  if (result.method === 'super_over') {
+    summary += ' the Super Over'
+  } else if (result.marginRuns !== undefined) {
+    summary += ` by ${result.marginRuns} run${result.marginRuns === 1 ? '' : 's'}`
+  } else if (result.marginWickets !== undefined) {
+    summary += ` by ${result.marginWickets} wicket${result.marginWickets === 1 ? '' : 's'}`
+    if (result.marginBallsLeft) {
+      summary += ` (${result.marginBallsLeft} ball${result.marginBallsLeft === 1 ? '' : 's'} left)`
+    }
+  }
+  if (result.method === 'dls') summary += ' (DLS)'
+
+  return summary
+}
+
+/**
+ * Read the winner, margin, method and revised target from the result line
+ */
+function parseResultText(resultText: string | undefined, teams: string[]): ResultTextDetails {
+  const text = resultText || ''
+  const number = (regex: RegExp) => {
+    const match = text.match(regex)
+    return match ? parseFloat(match[1]) : undefined
+  }
+
+  const wonMatch = text.match(/^(.+?)\s+(?:won|win|beat)\b/i)
+  const named = wonMatch ? normalizeTeamName(wonMatch[1]) : ''
+  const winner = wonMatch
+    ? teams.find(team => sameTeam(team, wonMatch[1])) ||
+      teams.find(team => normalizeTeamName(team).includes(named) || named.includes(normalizeTeamName(team))) ||
+      wonMatch[1].trim()
+    : undefined
+
+  const method: ResultMethod = /super\s*over/i.test(text)
+    ? 'super_over'
+    : /\b(d\s*\/\s*l(\s*\/\s*s)?|dls|duckworth|vjd|revised target|reduced overs?)\b/i.test(text)
+      ? 'dls'
+      : 'normal'
+
+  return {
+    winner,
+    marginRuns: number(/by\s+(\d+)\s+runs?/i),
+    marginWickets: number(/by\s+(\d+)\s+(?:wickets?|wkts?)/i),
+    ballsLeft: number(/(\d+)\s+balls?\s+(?:left|remaining|to spare)/i),
+    revisedTarget: number(/target(?:\s+of)?\s+(\d+)/i),
+    revisedOvers: number(/target(?:\s+of)?\s+\d+\s+(?:runs\s+)?(?:from|in)\s+(\d+(?:\.\d)?)\s+overs?/i),
+    method,
+    tied: /\btied?\b/i.test(text) && !wonMatch,
+    noResult: /no\s*result|abandoned|cancell?ed|washed\s*out/i.test(text),
+  }
+}
+
+/**
+ * Overs per side when the page does not say: a first innings that was not bowled out
+ * lasted the full allocation
+ */
+function inferOversLimit(first: Innings): number | undefined {
+  if (first.wickets >= wicketsAvailable(first) || first.overs <= 0) return undefined
+  return Math.ceil(first.overs)
+}
+
+/**
+ * Wickets a side can lose - one fewer than its players when the full XI is listed
+ */
+function wicketsAvailable(innings: Innings): number {
+  if (!innings.didNotBat?.length) return 10
+  return innings.battingEntries.length + innings.didNotBat.length - 1
+}
+
+/**
+ * The side that outscored the other in the last super over played
+ */
+function superOverWinner(superOvers: Innings[]): string | undefined {
+  const [first, second] = superOvers.slice(-2)
+  if (!first || !second || first.total === second.total) return undefined
+  return first.total > second.total ? first.team : second.team
+}
+
+function sameTeam(a: string, b: string): boolean {
+  return normalizeTeamName(a) === normalizeTeamName(b)
+}
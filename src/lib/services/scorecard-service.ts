@@ -0,0 +1,537 @@
+import { supabase } from '@/lib/supabase/client'
+import type { MatchRole, ParsedBattingEntry, ParsedBowlingEntry, ParsedDidNotBatEntry, ParsedMatchData } from '@/types/models'
+import { oversToBalls } from '@/lib/utils'
+import { calculatePartnerships } from './stats-service'
+
+/**
+ * Match columns filled from the Info page
+ * Fields the page did not provide are left out so existing values are kept
+ */
+export function matchInfoColumns(data: ParsedMatchData): Record<string, string | string[]> {
+  const columns: Record<string, string | string[] | undefined> = {
+    venue: data.venue,
+    toss_winner: data.toss?.winner,
+    toss_decision: data.toss?.decision,
+    umpires: data.umpires,
+    scorers: data.scorers,
+    start_time: data.startTime,
+    player_of_match: data.playerOfMatch,
+  }
+
+  return Object.fromEntries(
+    Object.entries(columns).filter(([, value]) => value !== undefined)
+  ) as Record<string, string | string[]>
+}
+
+/**
+ * Replace the stored ball-by-ball deliveries for a match
+ * Returns the number of deliveries saved
+ */
+export async function saveDeliveries(
+  matchId: string,
+  innings: ParsedMatchData['innings']
+): Promise<number> {
+  const rows = innings.flatMap((inn, index) =>
+    (inn.deliveries || []).map((delivery, seq) => ({
+      match_id: matchId,
+      innings_number: index + 1,
+      batting_team: inn.team,
+      sequence: seq + 1,
+      over_number: delivery.over,
+      ball_number: delivery.ball,
+      bowler_name: delivery.bowlerName,
+      batter_name: delivery.batterName,
+      runs: delivery.runs,
+      extras: delivery.extras,
+      extras_type: delivery.extrasType || null,
+      is_wicket: delivery.isWicket,
+      player_out: delivery.playerOut || null,
+      commentary: delivery.commentary,
+    }))
+  )
+
+  if (rows.length === 0) return 0
+
+  // Re-importing a page replaces the previous stream
+  const { error: deleteError } = await supabase
+    .from('deliveries')
+    .delete()
+    .eq('match_id', matchId)
+
+  if (deleteError) {
+    console.error('Error clearing deliveries:', deleteError)
+    throw deleteError
+  }
+
+  const { error } = await supabase
+    .from('deliveries')
+    .insert(rows)
+
+  if (error) {
+    console.error('Error inserting deliveries:', error)
+    throw error
+  }
+
+  return rows.length
+}
+
+/**
+ * Replace the stored per-over runs and wickets for a match
+ * Returns the number of overs saved
+ */
+export async function saveOverSummaries(
+  matchId: string,
+  innings: ParsedMatchData['innings']
+): Promise<number> {
+  const rows = innings.flatMap((inn, index) =>
+    (inn.overSummaries || []).map(summary => ({
+      match_id: matchId,
+      innings_number: index + 1,
+      batting_team: inn.team,
+      over_number: summary.over,
+      runs: summary.runs,
+      wickets: summary.wickets,
+      total_runs: summary.totalRuns,
+      total_wickets: summary.totalWickets,
+    }))
+  )
+
+  if (rows.length === 0) return 0
+
+  // Re-importing a page replaces the previous overs
+  const { error: deleteError } = await supabase
+    .from('over_summaries')
+    .delete()
+    .eq('match_id', matchId)
+
+  if (deleteError) {
+    console.error('Error clearing over summaries:', deleteError)
+    throw deleteError
+  }
+
+  const { error } = await supabase
+    .from('over_summaries')
+    .insert(rows)
+
+  if (error) {
+    console.error('Error inserting over summaries:', error)
+    throw error
+  }
+
+  return rows.length
+}
+
+/**
+ * Replace the stored innings totals and extras for a match
+ * ourInningsIndexes are the positions of our innings in the match
+ * oversLimit applies to both main innings unless revisedOvers reduced the chase; a super over has one
+ * Returns the number of innings saved
+ */
+export async function saveInnings(
+  matchId: string,
+  innings: ParsedMatchData['innings'],
+  ourInningsIndexes: number[],
+  oversLimit?: number,
+  revisedOvers?: number
+): Promise<number> {
+  const rows = innings.map((inn, index) => ({
+    match_id: matchId,
+    innings_number: index + 1,
+    batting_team: inn.team,
+    is_our_innings: ourInningsIndexes.includes(index),
+    is_super_over: !!inn.isSuperOver,
+    total: inn.total,
+    wickets: inn.wickets,
+    balls: oversToBalls(inn.overs),
+    overs_limit: inn.isSuperOver ? 1 : (index === 1 && revisedOvers) || oversLimit || null,
+    extras_total: inn.extrasBreakdown?.total ?? inn.extras,
+    extras_wides: inn.extrasBreakdown?.wides || 0,
+    extras_no_balls: inn.extrasBreakdown?.noBalls || 0,
+    extras_byes: inn.extrasBreakdown?.byes || 0,
+    extras_leg_byes: inn.extrasBreakdown?.legByes || 0,
+  }))
+
+  if (rows.length === 0) return 0
+
+  const { error: deleteError } = await supabase
+    .from('innings')
+    .delete()
+    .eq('match_id', matchId)
+
+  if (deleteError) {
+    console.error('Error clearing innings:', deleteError)
+    throw deleteError
+  }
+
+  const { error } = await supabase
+    .from('innings')
+    .insert(rows)
+
+  if (error) {
+    console.error('Error inserting innings:', error)
+    throw error
+  }
+
+  return rows.length
+}
+
+/**
+ * Replace the stored partnerships for a match
+ * ourInningsIndexes are the positions of our innings in the match
+ * playerIds maps our scorecard names to player ids so our stands link to players
+ * Returns the number of partnerships saved
+ */
+export async function savePartnerships(
+  matchId: string,
+  innings: ParsedMatchData['innings'],
+  ourInningsIndexes: number[],
+  playerIds: Map<string, string>
+): Promise<number> {
+  const rows = innings.flatMap((inn, index) => {
+    const isOurInnings = ourInningsIndexes.includes(index)
+    return calculatePartnerships(inn).map(partnership => ({
+      match_id: matchId,
+      innings_number: index + 1,
+      batting_team: inn.team,
+      is_our_innings: isOurInnings,
+      wicket_number: partnership.wicket,
+      runs: partnership.runs,
+      batter1_name: partnership.batter1Name,
+      batter2_name: partnership.batter2Name,
+      batter1_id: isOurInnings ? playerIds.get(partnership.batter1Name) || null : null,
+      batter2_id: isOurInnings ? playerIds.get(partnership.batter2Name) || null : null,
+      start_score: partnership.startScore,
+      end_score: partnership.endScore,
+      end_over: partnership.endOver ?? null,
+      unbroken: partnership.unbroken,
+    }))
+  })
+
+  if (rows.length === 0) return 0
+
+  const { error: deleteError } = await supabase
+    .from('partnerships')
+    .delete()
+    .eq('match_id', matchId)
+
+  if (deleteError) {
+    console.error('Error clearing partnerships:', deleteError)
+    throw deleteError
+  }
+
+  const { error } = await supabase
+    .from('partnerships')
+    .insert(rows)
+
+  if (error) {
+    console.error('Error inserting partnerships:', error)
+    throw error
+  }
+
+  return rows.length
+}
+
+/**
+ * Replace the stored captain and wicket keeper for a match
+ * entries are our batting, did not bat and bowling entries, playerIds maps their names to player ids
+ * byesConceded is credited to the keeper (byes in the innings we bowled)
+ * Returns the number of roles saved
+ */
+export async function saveMatchRoles(
+  matchId: string,
+  entries: (ParsedBattingEntry | ParsedBowlingEntry | ParsedDidNotBatEntry)[],
+  byesConceded: number,
+  playerIds: Map<string, string>
+): Promise<number> {
+  const roles = new Map<string, { match_id: string; player_id: string; role: MatchRole; byes_conceded: number | null }>()
+
+  for (const entry of entries) {
+    const playerId = playerIds.get(entry.playerName)
+    if (!playerId) continue
+
+    if (entry.isCaptain) {
+      roles.set(`${playerId}:captain`, { match_id: matchId, player_id: playerId, role: 'captain', byes_conceded: null })
+    }
+    if (entry.isWicketKeeper) {
+      roles.set(`${playerId}:wicket_keeper`, { match_id: matchId, player_id: playerId, role: 'wicket_keeper', byes_conceded: byesConceded })
+    }
+  }
+
+  const rows = Array.from(roles.values())
+  if (rows.length === 0) return 0
+
+  const { error: deleteError } = await supabase
+    .from('match_roles')
+    .delete()
+    .eq('match_id', matchId)
+
+  if (deleteError) {
+    console.error('Error clearing match roles:', deleteError)
+    throw deleteError
+  }
+
+  const { error } = await supabase
+    .from('match_roles')
+    .insert(rows)
+
+  if (error) {
+    console.error('Error inserting match roles:', error)
+    throw error
+  }
+
+  return rows.length
+}
+
+/**
+ * Replace the stored playing XI for a match
+ * battedIds are the players with a batting performance
+ * Returns the number of appearances saved
+ */
+export async function saveMatchAppearances(
+  matchId: string,
+  playerIds: string[],
+  battedIds: string[]
+): Promise<number> {
+  const rows = Array.from(new Set(playerIds)).map(playerId => ({
+    match_id: matchId,
+    player_id: playerId,
+    batted: battedIds.includes(playerId),
+  }))
+
+  if (rows.length === 0) return 0
+
+  const { error: deleteError } = await supabase
+    .from('match_appearances')
+    .delete()
+    .eq('match_id', matchId)
+
+  if (deleteError) {
+    console.error('Error clearing match appearances:', deleteError)
+    throw deleteError
+  }
+
+  const { error } = await supabase
+    .from('match_appearances')
+    .insert(rows)
+
+  if (error) {
+    console.error('Error inserting match appearances:', error)
+    throw error
+  }
+
+  return rows.length
+}
+
+/**
+ * Move a match appearance when a performance is reassigned to another player
+ * The old player keeps their appearance while they still have a performance in the match
+ */
+export async function reassignMatchAppearance(
+  matchId: string,
+  oldPlayerId: string,
+  newPlayerId: string,
+  batted: boolean
+): Promise<void> {
+  const { error } = await supabase
+    .from('match_appearances')
+    .upsert(
+      { match_id: matchId, player_id: newPlayerId, batted },
+      { onConflict: 'match_id,player_id' }
+    )
+
+  if (error) {
+    console.error('Error saving match appearance:', error)
+    throw error
+  }
+
+  const remaining = await Promise.all(
+    ['batting_performances', 'bowling_performances', 'fielding_performances'].map(table =>
+      supabase
+        .from(table)
+        .select('id', { count: 'exact', head: true })
+        .eq('match_id', matchId)
+        .eq('player_id', oldPlayerId)
+    )
+  )
+
+  if (remaining.every(result => !result.count)) {
+    await supabase
+      .from('match_appearances')
+      .delete()
+      .eq('match_id', matchId)
+      .eq('player_id', oldPlayerId)
+  } else if (batted) {
+    await supabase
+      .from('match_appearances')
+      .update({ batted: (remaining[0].count || 0) > 0 })
+      .eq('match_id', matchId)
+      .eq('player_id', oldPlayerId)
+  }
+}
+
+/**
+ * Look up a dismissal name ("Dev") among full scorecard names ("Dev M")
+ * Falls back to a unique name sharing the same first name
+ */
+export function findScorecardName<T>(name: string | undefined, candidates: Map<string, T>): T | undefined {
+  if (!name) return undefined
+  const target = name.toLowerCase().trim()
+
+  const exact = Array.from(candidates.entries()).find(([candidate]) => candidate.toLowerCase() === target)
+  if (exact) return exact[1]
+
+  // "Raj P" for "Raj Patel", then "Dev" for "Dev M"
+  const entries = Array.from(candidates.entries())
+  const prefixed = entries.filter(([candidate]) => {
+    const lower = candidate.toLowerCase()
+    return lower.startsWith(target) || target.startsWith(lower)
+  })
+  if (prefixed.length === 1) return prefixed[0][1]
+
+  const firstName = target.split(' ')[0]
+  const sameFirstName = entries.filter(([candidate]) => candidate.toLowerCase().split(' ')[0] === firstName)
+  return sameFirstName.length === 1 ? sameFirstName[0][1] : undefined
+}
+
+/**
+ * Find or create the opponent players named in a scorecard
+ * Returns scorecard name -> opponent player id
+ */
+async function getOrCreateOpponentPlayers(names: string[], teamName: string): Promise<Map<string, string>> {
+  const ids = new Map<string, string>()
+  const uniqueNames = Array.from(new Set(names))
+  if (uniqueNames.length === 0) return ids
+
+  const { data, error } = await supabase
+    .from('opponent_players')
+    .upsert(
+      uniqueNames.map(name => ({ name, team_name: teamName })),
+      { onConflict: 'name,team_name' }
+    )
+    .select('id, name')
+
+  if (error) {
+    console.error('Error saving opponent players:', error)
+    throw error
+  }
+
+  for (const player of data || []) {
+    ids.set(player.name, player.id)
+  }
+  return ids
+}
+
+/**
+ * Replace the stored opponent batting and bowling for a match
+ * Their batting comes from the opponent's innings, their bowling from ours (ourInningsIndexes);
+ * their bowling is only known when the bowling tables sit in the innings they were bowled in
+ * Returns the counts saved and the opponent bowler ids by scorecard name
+ */
+export async function saveOpponentPerformances(
+  matchId: string,
+  teamName: string,
+  innings: ParsedMatchData['innings'],
+  ourInningsIndexes: number[]
+): Promise<{ batting: number; bowling: number; bowlerIds: Map<string, string> }> {
+  const numbered = innings.map((inn, index) => ({
+    inn,
+    inningsNumber: index + 1,
+    isOurs: ourInningsIndexes.includes(index),
+  }))
+  const bowlingListed = numbered.some(({ inn, isOurs }) => !isOurs && inn.bowlingEntries.length > 0)
+
+  const opponentBatting = numbered
+    .filter(({ isOurs }) => !isOurs)
+    .flatMap(({ inn, inningsNumber }) =>
+      inn.battingEntries.map(entry => ({ entry, inningsNumber, isSuperOver: !!inn.isSuperOver }))
+    )
+  const opponentBowling = bowlingListed
+    ? numbered
+        .filter(({ isOurs }) => isOurs)
+        .flatMap(({ inn, inningsNumber }) =>
+          inn.bowlingEntries.map(entry => ({ entry, inningsNumber, isSuperOver: !!inn.isSuperOver }))
+        )
+    : []
+
+  const playerIds = await getOrCreateOpponentPlayers(
+    [...opponentBatting, ...opponentBowling].map(({ entry }) => entry.playerName),
+    teamName
+  )
+
+  for (const table of ['opponent_batting_performances', 'opponent_bowling_performances']) {
+    const { error } = await supabase
+      .from(table)
+      .delete()
+      .eq('match_id', matchId)
+
+    if (error) {
+      console.error(`Error clearing ${table}:`, error)
+      throw error
+    }
+  }
+
+  const battingRows = opponentBatting
+    .filter(({ entry }) => playerIds.has(entry.playerName))
+    .map(({ entry, inningsNumber, isSuperOver }) => ({
+      match_id: matchId,
+      opponent_player_id: playerIds.get(entry.playerName),
+      innings_number: inningsNumber,
+      is_super_over: isSuperOver,
+      runs: entry.runs,
+      balls: entry.balls,
+      fours: entry.fours,
+      sixes: entry.sixes,
+      not_out: entry.notOut,
+      dismissal_text: entry.dismissalText,
+      dismissal_kind: entry.dismissal.kind,
+      batting_position: entry.battingPosition,
+    }))
+
+  const bowlingRows = opponentBowling
+    .filter(({ entry }) => playerIds.has(entry.playerName))
+    .map(({ entry, inningsNumber, isSuperOver }) => ({
+      match_id: matchId,
+      opponent_player_id: playerIds.get(entry.playerName),
+      innings_number: inningsNumber,
+      is_super_over: isSuperOver,
+      overs: entry.overs,
+      balls: entry.balls,
+      maidens: entry.maidens,
+      runs_conceded: entry.runs,
+      wickets: entry.wickets,
+      dots: entry.dots,
+      wides: entry.wides,
+      no_balls: entry.noBalls,
+      economy: entry.economy,
+    }))
+
+  if (battingRows.length > 0) {
+    const { error } = await supabase
+      .from('opponent_batting_performances')
+      .insert(battingRows)
+
+    if (error) {
+      console.error('Error inserting opponent batting:', error)
+      throw error
+    }
+  }
+
+  if (bowlingRows.length > 0) {
+    const { error } = await supabase
+      .from('opponent_bowling_performances')
+      .insert(bowlingRows)
+
+    if (error) {
+      console.error('Error inserting opponent bowling:', error)
+      throw error
+    }
+  }
+
+  const bowlerIds = new Map(
+    opponentBowling
+      .filter(({ entry }) => playerIds.has(entry.playerName))
+      .map(({ entry }) => [entry.playerName, playerIds.get(entry.playerName) as string])
+  )
+
+  return { batting: battingRows.length, bowling: bowlingRows.length, bowlerIds }
+}
@@ -2,17 +2,33 @@ import { supabase } from '@/lib/supabase/client'
 import type { 
   CalculatedBattingStats, 
   CalculatedBowlingStats, 
+  CalculatedCaptaincyRecord,
   CalculatedFieldingStats,
+  CalculatedKeepingStats,
+  CalculatedNemesis,
+  CalculatedOpponentBatting,
+  CalculatedOpponentBowling,
+  CalculatedPartnership,
+  CalculatedSuperOverRecord,
+  DismissalKind,
+  ParsedMatchData,
   BattingPerformance,
   BowlingPerformance,
   FieldingPerformance,
+  Innings,
+  MatchAppearance,
 } from '@/types/models'
+import { parseDismissal, isDismissed } from '@/lib/parsers/dismissal-parser'
 
 /**
  * Calculate stats from an array of batting performances
  */
-export function calculateBattingStats(performances: BattingPerformance[]): CalculatedBattingStats {
-  const matchesPlayed = new Set(performances.map(p => p.match_id)).size
+export function calculateBattingStats(
+  performances: BattingPerformance[],
+  appearances: Pick<MatchAppearance, 'match_id'>[] = []
+): CalculatedBattingStats {
+  // Matches in the XI, counting matches imported before appearances were stored
+  const matchesPlayed = new Set([...performances, ...appearances].map(p => p.match_id)).size
   const totalRuns = performances.reduce((sum, p) => sum + p.runs, 0)
   const totalBalls = performances.reduce((sum, p) => sum + p.balls, 0)
   const fours = performances.reduce((sum, p) => sum + p.fours, 0)
@@ -100,8 +116,11 @@ export function calculateBowlingStats(performances: BowlingPerformance[]): Calcu
 /**
  * Calculate stats from an array of fielding performances
  */
-export function calculateFieldingStats(performances: FieldingPerformance[]): CalculatedFieldingStats {
-  const matchesPlayed = new Set(performances.map(p => p.match_id)).size
+export function calculateFieldingStats(
+  performances: FieldingPerformance[],
+  appearances: Pick<MatchAppearance, 'match_id'>[] = []
+): CalculatedFieldingStats {
+  const matchesPlayed = new Set([...performances, ...appearances].map(p => p.match_id)).size
   const totalCatches = performances.reduce((sum, p) => sum + p.catches, 0)
   const totalRunOuts = performances.reduce((sum, p) => sum + p.run_outs, 0)
   const totalStumpings = performances.reduce((sum, p) => sum + p.stumpings, 0)
@@ -120,6 +139,95 @@ export function calculateFieldingStats(performances: FieldingPerformance[]): Cal
   }
 }
 
+/**
+ * Count how a batter got out, by dismissal kind (not outs are left out)
+ * Rows imported before dismissals were stored are parsed from their text
+ */
+export function calculateDismissalBreakdown(
+  performances: Pick<BattingPerformance, 'not_out' | 'dismissal_kind' | 'dismissal_text'>[]
+): Partial<Record<DismissalKind, number>> {
+  const breakdown: Partial<Record<DismissalKind, number>> = {}
+  
+  performances.forEach(p => {
+    if (p.not_out) return
+    const kind = p.dismissal_kind || parseDismissal(p.dismissal_text).kind
+    if (!isDismissed(kind)) return
+    breakdown[kind] = (breakdown[kind] || 0) + 1
+  })
+  
+  return breakdown
+}
+
+/**
+ * Calculate partnerships from an innings' batting order and fall of wickets
+ * The last stand is unbroken when two batters were still at the crease
+ */
+export function calculatePartnerships(innings: ParsedMatchData['innings'][number]): CalculatedPartnership[] {
+  const order = innings.battingEntries.map(e => e.playerName)
+  const fallOfWickets = [...(innings.fallOfWickets || [])].sort((a, b) => a.wicket - b.wicket)
+  
+  // Without a complete fall of wickets the stands cannot be split up
+  if (order.length < 2 || fallOfWickets.length < innings.wickets) return []
+  
+  const notOut = new Set(innings.battingEntries.filter(e => e.notOut).map(e => e.playerName))
+  const crease: (string | undefined)[] = [order[0], order[1]]
+  let nextBatter = 2
+  let startScore = 0
+  const partnerships: CalculatedPartnership[] = []
+  
+  for (const fow of fallOfWickets) {
+    if (!crease[0] || !crease[1]) break
+    
+    partnerships.push({
+      wicket: fow.wicket,
+      runs: fow.score - startScore,
+      batter1Name: crease[0],
+      batter2Name: crease[1],
+      startScore,
+      endScore: fow.score,
+      endOver: fow.over,
+      unbroken: false,
+    })
+    
+    startScore = fow.score
+    crease[findOutBatter(crease as string[], fow.batterName, notOut)] = order[nextBatter++]
+  }
+  
+  if (crease[0] && crease[1]) {
+    partnerships.push({
+      wicket: partnerships.length + 1,
+      runs: innings.total - startScore,
+      batter1Name: crease[0],
+      batter2Name: crease[1],
+      startScore,
+      endScore: innings.total,
+      unbroken: true,
+    })
+  }
+  
+  return partnerships
+}
+
+/**
+ * Which of the two batters at the crease a fall of wicket entry refers to
+ * Scorecards often shorten names ("Naman S" for "Naman Shah")
+ */
+function findOutBatter(crease: string[], batterName: string, notOut: Set<string>): number {
+  const name = batterName.toLowerCase()
+  const exact = crease.findIndex(b => b.toLowerCase() === name)
+  if (exact !== -1) return exact
+  
+  const prefix = crease.findIndex(b => b.toLowerCase().startsWith(name) || name.startsWith(b.toLowerCase()))
+  if (prefix !== -1) return prefix
+  
+  const firstName = name.split(' ')[0]
+  const sameFirstName = crease.findIndex(b => b.toLowerCase().split(' ')[0] === firstName)
+  if (sameFirstName !== -1) return sameFirstName
+  
+  // A batter who finished not out cannot be the one dismissed
+  return notOut.has(crease[0]) ? 1 : 0
+}
+
 /**
  * Update cached batting season stats for a player
  */
@@ -136,13 +244,15 @@ export async function updatePlayerSeasonStats(
     `)
     .eq('player_id', playerId)
     .eq('matches.season_id', seasonId)
+    .eq('is_super_over', false)
   
   if (error) {
     console.error('Error fetching batting performances:', error)
     return
   }
   
-  const stats = calculateBattingStats(performances || [])
+  const appearances = await getSeasonAppearances(playerId, seasonId)
+  const stats = calculateBattingStats(performances || [], appearances)
   
   // Upsert the stats
   const { error: upsertError } = await supabase
@@ -188,6 +298,7 @@ export async function updateBowlingSeasonStats(
     `)
     .eq('player_id', playerId)
     .eq('matches.season_id', seasonId)
+    .eq('is_super_over', false)
   
   if (error) {
     console.error('Error fetching bowling performances:', error)
@@ -240,13 +351,15 @@ export async function updateFieldingSeasonStats(
     `)
     .eq('player_id', playerId)
     .eq('matches.season_id', seasonId)
+    .eq('is_super_over', false)
   
   if (error) {
     console.error('Error fetching fielding performances:', error)
     return
   }
   
-  const stats = calculateFieldingStats(performances || [])
+  const appearances = await getSeasonAppearances(playerId, seasonId)
+  const stats = calculateFieldingStats(performances || [], appearances)
   
   // Upsert the stats
   const { error: upsertError } = await supabase
@@ -269,6 +382,27 @@ export async function updateFieldingSeasonStats(
   }
 }
 
+/**
+ * Matches a player was in the XI for during a season
+ */
+async function getSeasonAppearances(playerId: string, seasonId: string): Promise<Pick<MatchAppearance, 'match_id'>[]> {
+  const { data, error } = await supabase
+    .from('match_appearances')
+    .select(`
+      match_id,
+      matches!inner(season_id)
+    `)
+    .eq('player_id', playerId)
+    .eq('matches.season_id', seasonId)
+  
+  if (error) {
+    console.error('Error fetching match appearances:', error)
+    return []
+  }
+  
+  return data || []
+}
+
 /**
  * Recalculate all season stats (use after match import)
  */
@@ -284,7 +418,16 @@ export async function recalculateAllSeasonStats(seasonId: string): Promise<void>
   
   if (!performances) return
   
-  const playerIds = Array.from(new Set(performances.map(p => p.player_id)))
+  // Players who were in the XI without batting count too
+  const { data: appearances } = await supabase
+    .from('match_appearances')
+    .select(`
+      player_id,
+      matches!inner(season_id)
+    `)
+    .eq('matches.season_id', seasonId)
+  
+  const playerIds = Array.from(new Set([...performances, ...(appearances || [])].map(p => p.player_id)))
   
   for (const playerId of playerIds) {
     await updatePlayerSeasonStats(playerId, seasonId)
@@ -392,6 +535,119 @@ export async function getFieldingLeaderboard(seasonId?: string) {
   return filtered
 }
 
+/**
+ * Batting, bowling and fielding leaderboards for one competition
+ * Worked out from the performances in its matches, in the same shape as the season stats
+ * Excludes "Unclaimed" players
+ */
+export async function getCompetitionLeaderboards(competitionId: string) {
+  const [{ data: batting }, { data: bowling }, { data: fielding }, { data: appearances }] = await Promise.all([
+    supabase
+      .from('batting_performances')
+      .select('*, player:players(*), matches!inner(competition_id)')
+      .eq('matches.competition_id', competitionId)
+      .eq('is_super_over', false),
+    supabase
+      .from('bowling_performances')
+      .select('*, player:players(*), matches!inner(competition_id)')
+      .eq('matches.competition_id', competitionId)
+      .eq('is_super_over', false),
+    supabase
+      .from('fielding_performances')
+      .select('*, player:players(*), matches!inner(competition_id)')
+      .eq('matches.competition_id', competitionId)
+      .eq('is_super_over', false),
+    supabase
+      .from('match_appearances')
+      .select('*, player:players(*), matches!inner(competition_id)')
+      .eq('matches.competition_id', competitionId),
+  ])
+
+  // Group rows by player, keeping the player record alongside
+  const byPlayer = <T extends { player_id: string; player?: { name: string } }>(rows: T[] | null) => {
+    const groups = new Map<string, T[]>()
+    for (const row of rows || []) {
+      if (isUnclaimedPlayer(row.player?.name)) continue
+      groups.set(row.player_id, [...(groups.get(row.player_id) || []), row])
+    }
+    return groups
+  }
+
+  const appearancesByPlayer = byPlayer(appearances)
+  const battingByPlayer = byPlayer(batting)
+  const fieldingByPlayer = byPlayer(fielding)
+
+  const battingRows = Array.from(battingByPlayer.entries())
+    .map(([playerId, performances]) => {
+      const stats = calculateBattingStats(performances, appearancesByPlayer.get(playerId) || [])
+      return {
+        id: playerId,
+        player_id: playerId,
+        player: performances[0].player,
+        matches_played: stats.matchesPlayed,
+        total_runs: stats.totalRuns,
+        total_balls: stats.totalBalls,
+        dismissals: stats.dismissals,
+        not_outs: stats.notOuts,
+        fours: stats.fours,
+        sixes: stats.sixes,
+        bowled_lbw: stats.bowledLbw,
+        average: stats.average,
+        strike_rate: stats.strikeRate,
+        boundary_rate: stats.boundaryRate,
+        boundary_percentage: stats.boundaryPercentage,
+        bowled_lbw_percentage: stats.bowledLbwPercentage,
+      }
+    })
+    .filter(row => row.total_runs > 0)
+    .sort((a, b) => b.total_runs - a.total_runs)
+
+  const bowlingRows = Array.from(byPlayer(bowling).entries())
+    .map(([playerId, performances]) => {
+      const stats = calculateBowlingStats(performances)
+      return {
+        id: playerId,
+        player_id: playerId,
+        player: performances[0].player,
+        matches_bowled: stats.matchesBowled,
+        total_overs: stats.totalOvers,
+        total_balls: stats.totalBalls,
+        total_runs: stats.totalRuns,
+        total_wickets: stats.totalWickets,
+        total_maidens: stats.totalMaidens,
+        total_dots: stats.totalDots,
+        total_wides: stats.totalWides,
+        total_no_balls: stats.totalNoBalls,
+        average: stats.average,
+        strike_rate: stats.strikeRate,
+        economy: stats.economy,
+        dot_percentage: stats.dotPercentage,
+      }
+    })
+    .filter(row => row.total_balls > 0)
+    .sort((a, b) => b.total_wickets - a.total_wickets)
+
+  const fieldingRows = Array.from(fieldingByPlayer.entries())
+    .map(([playerId, performances]) => {
+      const stats = calculateFieldingStats(performances, appearancesByPlayer.get(playerId) || [])
+      return {
+        id: playerId,
+        player_id: playerId,
+        player: performances[0].player,
+        matches_played: stats.matchesPlayed,
+        total_catches: stats.totalCatches,
+        total_run_outs: stats.totalRunOuts,
+        total_stumpings: stats.totalStumpings,
+        total_dismissals: stats.totalDismissals,
+        dismissals_per_match: stats.dismissalsPerMatch,
+      }
+    })
+    .filter(row => row.total_dismissals > 0)
+    .sort((a, b) => b.total_dismissals - a.total_dismissals)
+
+  return { batting: battingRows, bowling: bowlingRows, fielding: fieldingRows }
+}
+
 /**
  * Get overall season statistics
  */
@@ -426,10 +682,10 @@ export async function getSeasonStats(seasonId?: string) {
     .select('*')
     .eq('season_id', seasonId)
   
-  // Get matches with results
+  // Get matches with results and innings totals
   const { data: matches } = await supabase
     .from('matches')
-    .select('id, result')
+    .select('*, innings(*)')
     .eq('season_id', seasonId)
   
   const totalMatches = matches?.length || 0
@@ -446,7 +702,18 @@ export async function getSeasonStats(seasonId?: string) {
   const totalFours = battingStats?.reduce((sum, s) => sum + s.fours, 0) || 0
   const totalSixes = battingStats?.reduce((sum, s) => sum + s.sixes, 0) || 0
   const totalPlayers = battingStats?.filter(s => s.total_runs > 0).length || 0
-  const avgTeamScore = totalMatches > 0 ? totalRuns / totalMatches : 0
+  
+  // Team scores include extras, so they come from the innings totals (super overs left out)
+  const innings: Innings[] = (matches?.flatMap(m => m.innings || []) || []).filter((inn: Innings) => !inn.is_super_over)
+  const ourInnings = innings.filter(inn => inn.is_our_innings)
+  const opponentInnings = innings.filter(inn => !inn.is_our_innings)
+  const avgTeamScore = ourInnings.length > 0
+    ? ourInnings.reduce((sum, inn) => sum + inn.total, 0) / ourInnings.length
+    : 0
+  const avgOpponentScore = opponentInnings.length > 0
+    ? opponentInnings.reduce((sum, inn) => sum + inn.total, 0) / opponentInnings.length
+    : 0
+  const extrasConceded = opponentInnings.reduce((sum, inn) => sum + inn.extras_total, 0)
   
   return {
     totalMatches,
@@ -466,6 +733,8 @@ export async function getSeasonStats(seasonId?: string) {
     totalBoundaries: totalFours + totalSixes,
     totalPlayers,
     avgTeamScore,
+    avgOpponentScore,
+    extrasConceded,
   }
 }
 
@@ -502,7 +771,7 @@ export async function getTopPerformers(seasonId?: string) {
     .from('player_season_stats')
     .select(`
       *,
-      player:players(name)
+      player:players(name, photo_url)
     `)
     .eq('season_id', seasonId)
     .order('total_runs', { ascending: false })
@@ -514,7 +783,7 @@ export async function getTopPerformers(seasonId?: string) {
     .from('player_season_stats')
     .select(`
       *,
-      player:players(name)
+      player:players(name, photo_url)
     `)
     .eq('season_id', seasonId)
     .gte('matches_played', 1)
@@ -528,7 +797,7 @@ export async function getTopPerformers(seasonId?: string) {
     .from('player_season_stats')
     .select(`
       *,
-      player:players(name)
+      player:players(name, photo_url)
     `)
     .eq('season_id', seasonId)
     .gte('total_balls', 10)
@@ -541,7 +810,7 @@ export async function getTopPerformers(seasonId?: string) {
     .from('bowling_season_stats')
     .select(`
       *,
-      player:players(name)
+      player:players(name, photo_url)
     `)
     .eq('season_id', seasonId)
     .gt('total_wickets', 0)
@@ -554,7 +823,7 @@ export async function getTopPerformers(seasonId?: string) {
     .from('bowling_season_stats')
     .select(`
       *,
-      player:players(name)
+      player:players(name, photo_url)
     `)
     .eq('season_id', seasonId)
     .gte('matches_bowled', 1)
@@ -568,7 +837,7 @@ export async function getTopPerformers(seasonId?: string) {
     .from('bowling_season_stats')
     .select(`
       *,
-      player:players(name)
+      player:players(name, photo_url)
     `)
     .eq('season_id', seasonId)
     .gte('total_overs', 2)
@@ -581,7 +850,7 @@ export async function getTopPerformers(seasonId?: string) {
     .from('fielding_season_stats')
     .select(`
       *,
-      player:players(name)
+      player:players(name, photo_url)
     `)
     .eq('season_id', seasonId)
     .gt('total_dismissals', 0)
@@ -592,6 +861,7 @@ export async function getTopPerformers(seasonId?: string) {
   return {
     topRunScorer: topRunScorer ? {
       name: topRunScorer.player?.name || 'Unknown',
+      photoUrl: topRunScorer.player?.photo_url,
       runs: topRunScorer.total_runs,
       average: topRunScorer.average,
       strikeRate: topRunScorer.strike_rate,
@@ -599,18 +869,21 @@ export async function getTopPerformers(seasonId?: string) {
     } : null,
     bestAverage: bestAverage ? {
       name: bestAverage.player?.name || 'Unknown',
+      photoUrl: bestAverage.player?.photo_url,
       average: bestAverage.average,
       runs: bestAverage.total_runs,
       matches: bestAverage.matches_played,
     } : null,
     bestStrikeRate: bestStrikeRate ? {
       name: bestStrikeRate.player?.name || 'Unknown',
+      photoUrl: bestStrikeRate.player?.photo_url,
       strikeRate: bestStrikeRate.strike_rate,
       runs: bestStrikeRate.total_runs,
       balls: bestStrikeRate.total_balls,
     } : null,
     topWicketTaker: topWicketTaker ? {
       name: topWicketTaker.player?.name || 'Unknown',
+      photoUrl: topWicketTaker.player?.photo_url,
       wickets: topWicketTaker.total_wickets,
       average: topWicketTaker.average,
       economy: topWicketTaker.economy,
@@ -618,18 +891,21 @@ export async function getTopPerformers(seasonId?: string) {
     } : null,
     bestBowlingAverage: bestBowlingAverage ? {
       name: bestBowlingAverage.player?.name || 'Unknown',
+      photoUrl: bestBowlingAverage.player?.photo_url,
       average: bestBowlingAverage.average,
       wickets: bestBowlingAverage.total_wickets,
       matches: bestBowlingAverage.matches_bowled,
     } : null,
     bestEconomy: bestEconomy ? {
       name: bestEconomy.player?.name || 'Unknown',
+      photoUrl: bestEconomy.player?.photo_url,
       economy: bestEconomy.economy,
       overs: bestEconomy.total_overs,
       wickets: bestEconomy.total_wickets,
     } : null,
     topFielder: topFielder ? {
       name: topFielder.player?.name || 'Unknown',
+      photoUrl: topFielder.player?.photo_url,
       dismissals: topFielder.total_dismissals,
       catches: topFielder.total_catches,
       runOuts: topFielder.total_run_outs,
@@ -744,7 +1020,7 @@ export async function getRecentMatches(limit: number = 5, seasonId?: string) {
   
   let query = supabase
     .from('matches')
-    .select('*')
+    .select('*, innings(*)')
     .order('date', { ascending: false })
     .limit(limit)
   
@@ -762,6 +1038,412 @@ export async function getRecentMatches(limit: number = 5, seasonId?: string) {
   return data || []
 }
 
+/**
+ * Club record partnership for each wicket (our innings only)
+ * All seasons unless a season is given
+ */
+export async function getPartnershipRecords(seasonId?: string) {
+  let query = supabase
+    .from('partnerships')
+    .select(`
+      *,
+      match:matches!inner(id, date, opponent, season_id)
+    `)
+    .eq('is_our_innings', true)
+    .order('runs', { ascending: false })
+  
+  if (seasonId) {
+    query = query.eq('match.season_id', seasonId)
+  }
+  
+  const { data, error } = await query
+  
+  if (error) {
+    console.error('Error fetching partnerships:', error)
+    return []
+  }
+  
+  // Rows are sorted by runs, so the first stand seen for a wicket is the record
+  const records = new Map<number, NonNullable<typeof data>[number]>()
+  for (const partnership of data || []) {
+    if (!records.has(partnership.wicket_number)) {
+      records.set(partnership.wicket_number, partnership)
+    }
+  }
+  
+  return Array.from(records.values()).sort((a, b) => a.wicket_number - b.wicket_number)
+}
+
+/**
+ * Win/loss record of every player who has captained UCLA
+ * All seasons unless a season is given
+ */
+export async function getCaptaincyRecords(seasonId?: string): Promise<CalculatedCaptaincyRecord[]> {
+  let query = supabase
+    .from('match_roles')
+    .select(`
+      *,
+      player:players(name),
+      match:matches!inner(result, season_id)
+    `)
+    .eq('role', 'captain')
+  
+  if (seasonId) {
+    query = query.eq('match.season_id', seasonId)
+  }
+  
+  const { data, error } = await query
+  
+  if (error) {
+    console.error('Error fetching captaincy records:', error)
+    return []
+  }
+  
+  const records = new Map<string, CalculatedCaptaincyRecord>()
+  for (const role of data || []) {
+    const record = records.get(role.player_id) || {
+      playerId: role.player_id,
+      playerName: role.player?.name || 'Unknown',
+      matches: 0,
+      wins: 0,
+      losses: 0,
+      ties: 0,
+      noResults: 0,
+      winPercentage: 0,
+    }
+    
+    record.matches++
+    if (role.match?.result === 'win') record.wins++
+    else if (role.match?.result === 'loss') record.losses++
+    else if (role.match?.result === 'tie') record.ties++
+    else record.noResults++
+    
+    records.set(role.player_id, record)
+  }
+  
+  // Win percentage of the matches with a result
+  return Array.from(records.values())
+    .map(record => {
+      const decided = record.matches - record.noResults
+      return { ...record, winPercentage: decided > 0 ? (record.wins / decided) * 100 : 0 }
+    })
+    .sort((a, b) => b.matches - a.matches || b.wins - a.wins)
+}
+
+/**
+ * Wicket keeping stats: catches and stumpings taken, and byes conceded, in matches kept
+ * All seasons unless a season is given
+ */
+export async function getKeepingStats(seasonId?: string): Promise<CalculatedKeepingStats[]> {
+  let query = supabase
+    .from('match_roles')
+    .select(`
+      *,
+      player:players(name),
+      match:matches!inner(season_id)
+    `)
+    .eq('role', 'wicket_keeper')
+  
+  if (seasonId) {
+    query = query.eq('match.season_id', seasonId)
+  }
+  
+  const { data: roles, error } = await query
+  
+  if (error) {
+    console.error('Error fetching keeping stats:', error)
+    return []
+  }
+  
+  if (!roles || roles.length === 0) return []
+  
+  // Dismissals taken in the matches each keeper kept
+  const { data: fielding } = await supabase
+    .from('fielding_performances')
+    .select('match_id, player_id, catches, stumpings')
+    .in('match_id', Array.from(new Set(roles.map(r => r.match_id))))
+    .eq('is_super_over', false)
+  
+  // A two-innings match has a fielding row per innings
+  const dismissalsByMatch = new Map<string, { catches: number; stumpings: number }>()
+  for (const f of fielding || []) {
+    const key = `${f.match_id}:${f.player_id}`
+    const total = dismissalsByMatch.get(key) || { catches: 0, stumpings: 0 }
+    dismissalsByMatch.set(key, { catches: total.catches + f.catches, stumpings: total.stumpings + f.stumpings })
+  }
+  
+  const stats = new Map<string, CalculatedKeepingStats>()
+  for (const role of roles) {
+    const keeper = stats.get(role.player_id) || {
+      playerId: role.player_id,
+      playerName: role.player?.name || 'Unknown',
+      matches: 0,
+      catches: 0,
+      stumpings: 0,
+      byesConceded: 0,
+      byesPerMatch: 0,
+    }
+    const dismissals = dismissalsByMatch.get(`${role.match_id}:${role.player_id}`)
+    
+    keeper.matches++
+    keeper.catches += dismissals?.catches || 0
+    keeper.stumpings += dismissals?.stumpings || 0
+    keeper.byesConceded += role.byes_conceded || 0
+    
+    stats.set(role.player_id, keeper)
+  }
+  
+  return Array.from(stats.values())
+    .map(keeper => ({ ...keeper, byesPerMatch: keeper.byesConceded / keeper.matches }))
+    .sort((a, b) => b.catches + b.stumpings - (a.catches + a.stumpings) || b.matches - a.matches)
+}
+
+/**
+ * Our players' figures in super overs, which the season stats leave out
+ * All seasons unless a season is given
+ */
+export async function getSuperOverRecords(seasonId?: string): Promise<CalculatedSuperOverRecord[]> {
+  let battingQuery = supabase
+    .from('batting_performances')
+    .select(`
+      *,
+      player:players(name),
+      match:matches!inner(season_id)
+    `)
+    .eq('is_super_over', true)
+  
+  let bowlingQuery = supabase
+    .from('bowling_performances')
+    .select(`
+      *,
+      player:players(name),
+      match:matches!inner(season_id)
+    `)
+    .eq('is_super_over', true)
+  
+  if (seasonId) {
+    battingQuery = battingQuery.eq('match.season_id', seasonId)
+    bowlingQuery = bowlingQuery.eq('match.season_id', seasonId)
+  }
+  
+  const [{ data: batting, error: battingError }, { data: bowling, error: bowlingError }] =
+    await Promise.all([battingQuery, bowlingQuery])
+  
+  if (battingError || bowlingError) {
+    console.error('Error fetching super over records:', battingError || bowlingError)
+    return []
+  }
+  
+  const records = new Map<string, CalculatedSuperOverRecord>()
+  const matchesByPlayer = new Map<string, Set<string>>()
+  const recordFor = (performance: { player_id: string; match_id: string; player?: { name: string } | null }) => {
+    const record = records.get(performance.player_id) || {
+      playerId: performance.player_id,
+      playerName: performance.player?.name || 'Unknown',
+      superOvers: 0,
+      runs: 0,
+      ballsFaced: 0,
+      dismissals: 0,
+      ballsBowled: 0,
+      runsConceded: 0,
+      wickets: 0,
+    }
+    const matches = matchesByPlayer.get(performance.player_id) || new Set<string>()
+    matches.add(performance.match_id)
+    matchesByPlayer.set(performance.player_id, matches)
+    records.set(performance.player_id, { ...record, superOvers: matches.size })
+    return records.get(performance.player_id)!
+  }
+  
+  for (const performance of batting || []) {
+    const record = recordFor(performance)
+    record.runs += performance.runs
+    record.ballsFaced += performance.balls
+    if (!performance.not_out) record.dismissals++
+  }
+  
+  for (const performance of bowling || []) {
+    const record = recordFor(performance)
+    record.ballsBowled += performance.balls
+    record.runsConceded += performance.runs_conceded
+    record.wickets += performance.wickets
+  }
+  
+  return Array.from(records.values())
+    .sort((a, b) => b.superOvers - a.superOvers || a.playerName.localeCompare(b.playerName))
+}
+
+/**
+ * Every team we have played, with our record against them
+ */
+export async function getOpponentTeams() {
+  const { data, error } = await supabase
+    .from('matches')
+    .select('opponent, result, date')
+    .order('date', { ascending: false })
+  
+  if (error) {
+    console.error('Error fetching opponents:', error)
+    return []
+  }
+  
+  const teams = new Map<string, { team: string; matches: number; wins: number; losses: number; lastPlayed: string }>()
+  for (const match of data || []) {
+    const team = teams.get(match.opponent) || {
+      team: match.opponent,
+      matches: 0,
+      wins: 0,
+      losses: 0,
+      lastPlayed: match.date,
+    }
+    team.matches++
+    if (match.result === 'win') team.wins++
+    if (match.result === 'loss') team.losses++
+    teams.set(match.opponent, team)
+  }
+  
+  return Array.from(teams.values()).sort((a, b) => b.matches - a.matches || a.team.localeCompare(b.team))
+}
+
+/**
+ * Scouting report for an opposing team: their batters and bowlers against us
+ */
+export async function getOpponentScouting(teamName: string): Promise<{
+  batting: CalculatedOpponentBatting[]
+  bowling: CalculatedOpponentBowling[]
+}> {
+  const { data: battingRows, error: battingError } = await supabase
+    .from('opponent_batting_performances')
+    .select(`
+      *,
+      opponent_player:opponent_players!inner(id, name, team_name)
+    `)
+    .eq('opponent_player.team_name', teamName)
+    .eq('is_super_over', false)
+  
+  const { data: bowlingRows, error: bowlingError } = await supabase
+    .from('opponent_bowling_performances')
+    .select(`
+      *,
+      opponent_player:opponent_players!inner(id, name, team_name)
+    `)
+    .eq('opponent_player.team_name', teamName)
+    .eq('is_super_over', false)
+  
+  if (battingError || bowlingError) {
+    console.error('Error fetching opponent performances:', battingError || bowlingError)
+    return { batting: [], bowling: [] }
+  }
+  
+  const batting = new Map<string, CalculatedOpponentBatting & { dismissals: number }>()
+  for (const row of battingRows || []) {
+    const batter = batting.get(row.opponent_player_id) || {
+      opponentPlayerId: row.opponent_player_id,
+      playerName: row.opponent_player?.name || 'Unknown',
+      innings: 0,
+      runs: 0,
+      balls: 0,
+      highScore: 0,
+      average: 0,
+      strikeRate: 0,
+      dismissals: 0,
+    }
+    batter.innings++
+    batter.runs += row.runs
+    batter.balls += row.balls
+    batter.highScore = Math.max(batter.highScore, row.runs)
+    if (!row.not_out) batter.dismissals++
+    batting.set(row.opponent_player_id, batter)
+  }
+  
+  const bowling = new Map<string, CalculatedOpponentBowling & { matchIds: Set<string> }>()
+  for (const row of bowlingRows || []) {
+    const bowler = bowling.get(row.opponent_player_id) || {
+      opponentPlayerId: row.opponent_player_id,
+      playerName: row.opponent_player?.name || 'Unknown',
+      matches: 0,
+      balls: 0,
+      runs: 0,
+      wickets: 0,
+      economy: 0,
+      matchIds: new Set<string>(),
+    }
+    bowler.matchIds.add(row.match_id)
+    bowler.balls += row.balls
+    bowler.runs += row.runs_conceded
+    bowler.wickets += row.wickets
+    bowling.set(row.opponent_player_id, bowler)
+  }
+  
+  return {
+    batting: Array.from(batting.values())
+      .map(({ dismissals, ...batter }) => ({
+        ...batter,
+        average: dismissals > 0 ? batter.runs / dismissals : batter.runs,
+        strikeRate: batter.balls > 0 ? (batter.runs / batter.balls) * 100 : 0,
+      }))
+      .sort((a, b) => b.runs - a.runs),
+    bowling: Array.from(bowling.values())
+      .map(({ matchIds, ...bowler }) => ({
+        ...bowler,
+        matches: matchIds.size,
+        economy: bowler.balls > 0 ? (bowler.runs / bowler.balls) * 6 : 0,
+      }))
+      .sort((a, b) => b.wickets - a.wickets || a.economy - b.economy),
+  }
+}
+
+/**
+ * Opponent bowlers who have dismissed our batters most often
+ * All teams unless a team is given
+ */
+export async function getNemesisBowlers(teamName?: string): Promise<CalculatedNemesis[]> {
+  let query = supabase
+    .from('batting_performances')
+    .select(`
+      *,
+      player:players(name),
+      dismissed_by:opponent_players!inner(id, name, team_name)
+    `)
+    .not('dismissed_by_id', 'is', null)
+  
+  if (teamName) {
+    query = query.eq('dismissed_by.team_name', teamName)
+  }
+  
+  const { data, error } = await query
+  
+  if (error) {
+    console.error('Error fetching dismissals by opponents:', error)
+    return []
+  }
+  
+  const bowlers = new Map<string, CalculatedNemesis & { victimCounts: Map<string, number> }>()
+  for (const row of data || []) {
+    const bowler = bowlers.get(row.dismissed_by_id) || {
+      opponentPlayerId: row.dismissed_by_id,
+      playerName: row.dismissed_by?.name || 'Unknown',
+      teamName: row.dismissed_by?.team_name || '',
+      wickets: 0,
+      victims: [],
+      victimCounts: new Map<string, number>(),
+    }
+    const victim = row.player?.name || 'Unknown'
+    bowler.wickets++
+    bowler.victimCounts.set(victim, (bowler.victimCounts.get(victim) || 0) + 1)
+    bowlers.set(row.dismissed_by_id, bowler)
+  }
+  
+  return Array.from(bowlers.values())
+    .map(({ victimCounts, ...bowler }) => ({
+      ...bowler,
+      victims: Array.from(victimCounts.entries())
+        .sort((a, b) => b[1] - a[1])
+        .map(([name]) => name),
+    }))
+    .sort((a, b) => b.wickets - a.wickets)
+}
+
 /**
  * Get season selector options
  */
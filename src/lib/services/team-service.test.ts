@@ -0,0 +1,22 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { findOurTeam } from './team-service'
+
+test('picks our team and the opponent by normalized name', () => {
+  assert.deepEqual(findOurTeam(['UCLA Bruins-CC', 'Royal Strikers'], ['ucla bruins cc']), {
+    ourTeam: 'UCLA Bruins-CC',
+    opponent: 'Royal Strikers',
+  })
+})
+
+test('needs a review when neither or both teams are ours', () => {
+  assert.ok('reason' in findOurTeam(['USC', 'Royal Strikers'], ['UCLA']))
+  assert.ok('reason' in findOurTeam(['UCLA', 'UCLA B'], ['UCLA', 'UCLA B']))
+})
+
+test('needs a review when the scorecard does not name the opponent', () => {
+  assert.ok('reason' in findOurTeam(['UCLA'], ['UCLA']))
+  assert.ok('reason' in findOurTeam(['UCLA', 'ucla'], ['UCLA']))
+  assert.ok('reason' in findOurTeam(['UCLA', 'Unknown'], ['UCLA']))
+  assert.ok('reason' in findOurTeam(['Unknown', 'Unknown'], ['UCLA']))
+})
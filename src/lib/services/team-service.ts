@@ -0,0 +1,68 @@
+import { supabase } from '@/lib/supabase/client'
+import type { TeamIdentity } from '@/types/models'
+
+/**
+ * Normalize a team name for comparison ("UCLA Bruins-CC" -> "ucla bruins cc")
+ */
+export function normalizeTeamName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+}
+
+/**
+ * Our registered team names that apply to a season and competition
+ * Identities without a season or competition apply to all of them
+ */
+export async function getTeamIdentities(seasonId?: string, competitionName?: string): Promise<TeamIdentity[]> {
+  const { data, error } = await supabase
+    .from('team_identities')
+    .select('*')
+    .order('name')
+
+  if (error) {
+    console.error('Error fetching team identities:', error)
+    return []
+  }
+
+  const competition = competitionName ? normalizeTeamName(competitionName) : null
+
+  return (data || []).filter(identity =>
+    (!identity.season_id || identity.season_id === seasonId) &&
+    (!identity.competition_name || normalizeTeamName(identity.competition_name) === competition)
+  )
+}
+
+/**
+ * Pick our team out of the teams on a scorecard
+ * Exactly one team must match one of our names, and the scorecard must name the opponent -
+ * anything else needs a review
+ */
+export function findOurTeam(
+  teams: string[],
+  ourNames: string[]
+): { ourTeam: string; opponent: string } | { reason: string } {
+  const namedTeams = teams
+    .filter(team => team && team !== 'Unknown')
+    .filter((team, index, all) => all.findIndex(other => normalizeTeamName(other) === normalizeTeamName(team)) === index)
+  if (namedTeams.length < 2) {
+    return { reason: `The scorecard names ${namedTeams.length === 0 ? 'neither team' : `only ${namedTeams[0]}`}` }
+  }
+
+  const names = new Set(ourNames.map(normalizeTeamName))
+  const matches = namedTeams.filter(team => names.has(normalizeTeamName(team)))
+
+  if (matches.length === 0) {
+    return { reason: `Neither ${namedTeams.join(' nor ')} is one of our team names` }
+  }
+  if (matches.length > 1) {
+    return { reason: `Both ${namedTeams.join(' and ')} match our team names` }
+  }
+
+  const ourTeam = matches[0]
+  return {
+    ourTeam,
+    opponent: namedTeams.filter(team => team !== ourTeam)[0],
+  }
+}
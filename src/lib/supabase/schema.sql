@@ -37,6 +37,32 @@ CREATE TABLE IF NOT EXISTS player_aliases (
 CREATE INDEX IF NOT EXISTS idx_player_aliases_alias ON player_aliases(alias);
 CREATE INDEX IF NOT EXISTS idx_player_aliases_player_id ON player_aliases(player_id);
 
+-- Competitions (leagues and tournaments) per season
+CREATE TABLE IF NOT EXISTS competitions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name VARCHAR(200) NOT NULL,
+  season_id UUID REFERENCES seasons(id) ON DELETE CASCADE,
+  points_win INTEGER NOT NULL DEFAULT 2,
+  points_tie INTEGER NOT NULL DEFAULT 1,
+  points_no_result INTEGER NOT NULL DEFAULT 1,
+  format VARCHAR(20) NOT NULL DEFAULT 'league', -- league, tournament
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(name, season_id)
+);
+
+-- Tournament stages: groups and knockout rounds
+CREATE TABLE IF NOT EXISTS competition_stages (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  competition_id UUID NOT NULL REFERENCES competitions(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL, -- Group A, Semi Final
+  stage_type VARCHAR(20) NOT NULL, -- group, quarter_final, semi_final, final
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(competition_id, name)
+);
+
+-- Index for stage lookups
+CREATE INDEX IF NOT EXISTS idx_competition_stages_competition_id ON competition_stages(competition_id);
+
 -- Matches table
 CREATE TABLE IF NOT EXISTS matches (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -46,7 +72,17 @@ CREATE TABLE IF NOT EXISTS matches (
   venue VARCHAR(200),
   match_type VARCHAR(20) NOT NULL DEFAULT 'league', -- league, playoff, friendly, tournament
   competition_name VARCHAR(200),
+  competition_id UUID REFERENCES competitions(id) ON DELETE SET NULL,
+  stage_id UUID REFERENCES competition_stages(id) ON DELETE SET NULL,
   result VARCHAR(20) NOT NULL DEFAULT 'no_result', -- win, loss, tie, no_result
+  winner VARCHAR(100), -- NULL for ties and no results
+  margin_runs INTEGER, -- Won by N runs
+  margin_wickets INTEGER, -- Won by N wickets
+  margin_balls_left INTEGER,
+  result_method VARCHAR(20) DEFAULT 'normal', -- normal, dls, super_over
+  revised_target INTEGER, -- DLS / reduced-overs target
+  revised_overs DECIMAL(4, 1),
+  result_summary VARCHAR(200), -- "UCLA won by 4 wickets (11 balls left)"
   our_team_name VARCHAR(100), -- The team name UCLA played under
   our_score VARCHAR(20),
   opponent_score VARCHAR(20),
@@ -59,6 +95,12 @@ CREATE TABLE IF NOT EXISTS matches (
   weather VARCHAR(50),
   pitch_type VARCHAR(50),
   importance INTEGER CHECK (importance >= 1 AND importance <= 5),
+  toss_winner VARCHAR(100), -- From the CricClubs Info page
+  toss_decision VARCHAR(10), -- bat, bowl
+  umpires TEXT[],
+  scorers TEXT[],
+  start_time TIME,
+  player_of_match VARCHAR(100),
   notes TEXT,
   raw_html_hash VARCHAR(64),
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
@@ -89,9 +131,14 @@ CREATE TABLE IF NOT EXISTS batting_performances (
   not_out BOOLEAN NOT NULL DEFAULT FALSE,
   bowled_lbw BOOLEAN NOT NULL DEFAULT FALSE,
   dismissal_text VARCHAR(200),
+  dismissal_kind VARCHAR(30), -- Parsed from dismissal_text: bowled, caught, lbw, run_out, ...
+  dismissal_bowler VARCHAR(100),
+  dismissal_fielder VARCHAR(100), -- Catcher, keeper or run-out fielder
   batting_position INTEGER NOT NULL DEFAULT 0,
+  innings_number INTEGER NOT NULL DEFAULT 1, -- 1 = first innings of the match
+  is_super_over BOOLEAN NOT NULL DEFAULT FALSE, -- Kept out of the main averages
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-  UNIQUE(match_id, player_id)
+  UNIQUE(match_id, player_id, innings_number)
 );
 
 -- Index for faster performance lookups
@@ -152,8 +199,10 @@ CREATE TABLE IF NOT EXISTS bowling_performances (
   wides INTEGER NOT NULL DEFAULT 0,
   no_balls INTEGER NOT NULL DEFAULT 0,
   economy DECIMAL(5, 2) NOT NULL DEFAULT 0,
+  innings_number INTEGER NOT NULL DEFAULT 1, -- 1 = first innings of the match
+  is_super_over BOOLEAN NOT NULL DEFAULT FALSE, -- Kept out of the main averages
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-  UNIQUE(match_id, player_id)
+  UNIQUE(match_id, player_id, innings_number)
 );
 
 -- Index for faster bowling lookups
@@ -194,8 +243,10 @@ CREATE TABLE IF NOT EXISTS fielding_performances (
   catches INTEGER NOT NULL DEFAULT 0,
   run_outs INTEGER NOT NULL DEFAULT 0,
   stumpings INTEGER NOT NULL DEFAULT 0,
+  innings_number INTEGER NOT NULL DEFAULT 1, -- 1 = first innings of the match
+  is_super_over BOOLEAN NOT NULL DEFAULT FALSE, -- Kept out of the main averages
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-  UNIQUE(match_id, player_id)
+  UNIQUE(match_id, player_id, innings_number)
 );
 
 -- Index for fielding lookups
@@ -221,12 +272,563 @@ CREATE TABLE IF NOT EXISTS fielding_season_stats (
 CREATE INDEX IF NOT EXISTS idx_fielding_season_stats_player_id ON fielding_season_stats(player_id);
 CREATE INDEX IF NOT EXISTS idx_fielding_season_stats_season_id ON fielding_season_stats(season_id);
 
+-- Innings totals and extras for both sides
+CREATE TABLE IF NOT EXISTS innings (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  match_id UUID NOT NULL REFERENCES matches(id) ON DELETE CASCADE,
+  innings_number INTEGER NOT NULL, -- 1 = first innings of the match
+  batting_team VARCHAR(100) NOT NULL,
+  is_our_innings BOOLEAN NOT NULL DEFAULT FALSE,
+  is_super_over BOOLEAN NOT NULL DEFAULT FALSE,
+  total INTEGER NOT NULL DEFAULT 0,
+  wickets INTEGER NOT NULL DEFAULT 0,
+  balls INTEGER NOT NULL DEFAULT 0, -- Legal balls faced
+  overs_limit DECIMAL(4, 1), -- Overs available, after any reduction
+  extras_total INTEGER NOT NULL DEFAULT 0,
+  extras_wides INTEGER NOT NULL DEFAULT 0,
+  extras_no_balls INTEGER NOT NULL DEFAULT 0,
+  extras_byes INTEGER NOT NULL DEFAULT 0,
+  extras_leg_byes INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(match_id, innings_number)
+);
+
+-- Index for innings lookups
+CREATE INDEX IF NOT EXISTS idx_innings_match_id ON innings(match_id);
+
+-- Ball-by-ball deliveries (from the CricClubs Ball by Ball page)
+CREATE TABLE IF NOT EXISTS deliveries (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  match_id UUID NOT NULL REFERENCES matches(id) ON DELETE CASCADE,
+  innings_number INTEGER NOT NULL, -- 1 = first innings of the match
+  batting_team VARCHAR(100) NOT NULL,
+  sequence INTEGER NOT NULL, -- Order within the innings
+  over_number INTEGER NOT NULL, -- Completed overs before this ball
+  ball_number INTEGER NOT NULL, -- Ball within the over as shown by CricClubs
+  bowler_name VARCHAR(100) NOT NULL,
+  batter_name VARCHAR(100) NOT NULL,
+  runs INTEGER NOT NULL DEFAULT 0, -- Runs off the bat
+  extras INTEGER NOT NULL DEFAULT 0,
+  extras_type VARCHAR(10), -- wide, no_ball, bye, leg_bye
+  is_wicket BOOLEAN NOT NULL DEFAULT FALSE,
+  player_out VARCHAR(100),
+  commentary TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(match_id, innings_number, sequence)
+);
+
+-- Index for delivery lookups
+CREATE INDEX IF NOT EXISTS idx_deliveries_match_id ON deliveries(match_id);
+
+-- Runs and wickets per over (from the CricClubs Over by Over Score page)
+CREATE TABLE IF NOT EXISTS over_summaries (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  match_id UUID NOT NULL REFERENCES matches(id) ON DELETE CASCADE,
+  innings_number INTEGER NOT NULL, -- 1 = first innings of the match
+  batting_team VARCHAR(100) NOT NULL,
+  over_number INTEGER NOT NULL, -- 1-based, as shown by CricClubs
+  runs INTEGER NOT NULL DEFAULT 0,
+  wickets INTEGER NOT NULL DEFAULT 0,
+  total_runs INTEGER NOT NULL DEFAULT 0, -- Score at the end of the over
+  total_wickets INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(match_id, innings_number, over_number)
+);
+
+-- Index for over summary lookups
+CREATE INDEX IF NOT EXISTS idx_over_summaries_match_id ON over_summaries(match_id);
+
+-- Partnerships per wicket (from the Full Scorecard fall of wickets)
+CREATE TABLE IF NOT EXISTS partnerships (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  match_id UUID NOT NULL REFERENCES matches(id) ON DELETE CASCADE,
+  innings_number INTEGER NOT NULL, -- 1 = first innings of the match
+  batting_team VARCHAR(100) NOT NULL,
+  is_our_innings BOOLEAN NOT NULL DEFAULT FALSE,
+  wicket_number INTEGER NOT NULL, -- 1 = opening partnership
+  runs INTEGER NOT NULL DEFAULT 0,
+  batter1_name VARCHAR(100) NOT NULL,
+  batter2_name VARCHAR(100) NOT NULL,
+  batter1_id UUID REFERENCES players(id) ON DELETE SET NULL, -- Our innings only
+  batter2_id UUID REFERENCES players(id) ON DELETE SET NULL,
+  start_score INTEGER NOT NULL DEFAULT 0,
+  end_score INTEGER NOT NULL DEFAULT 0,
+  end_over DECIMAL(4, 1),
+  unbroken BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(match_id, innings_number, wicket_number)
+);
+
+-- Indexes for partnership lookups and records
+CREATE INDEX IF NOT EXISTS idx_partnerships_match_id ON partnerships(match_id);
+CREATE INDEX IF NOT EXISTS idx_partnerships_wicket_runs ON partnerships(wicket_number, runs DESC);
+
+-- Captain and wicket keeper per match (from the scorecard * and † markers)
+CREATE TABLE IF NOT EXISTS match_roles (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  match_id UUID NOT NULL REFERENCES matches(id) ON DELETE CASCADE,
+  player_id UUID NOT NULL REFERENCES players(id) ON DELETE CASCADE,
+  role VARCHAR(20) NOT NULL, -- captain, wicket_keeper
+  byes_conceded INTEGER, -- Wicket keepers only: byes in the innings they kept
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(match_id, player_id, role)
+);
+
+-- Indexes for role lookups
+CREATE INDEX IF NOT EXISTS idx_match_roles_match_id ON match_roles(match_id);
+CREATE INDEX IF NOT EXISTS idx_match_roles_role ON match_roles(role);
+
+-- Playing XI per match, including players who did not bat
+CREATE TABLE IF NOT EXISTS match_appearances (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  match_id UUID NOT NULL REFERENCES matches(id) ON DELETE CASCADE,
+  player_id UUID NOT NULL REFERENCES players(id) ON DELETE CASCADE,
+  batted BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(match_id, player_id)
+);
+
+-- Indexes for appearance lookups
+CREATE INDEX IF NOT EXISTS idx_match_appearances_match_id ON match_appearances(match_id);
+CREATE INDEX IF NOT EXISTS idx_match_appearances_player_id ON match_appearances(player_id);
+
+-- Opposing players, kept apart from our roster
+CREATE TABLE IF NOT EXISTS opponent_players (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name VARCHAR(100) NOT NULL, -- As shown in the scorecard
+  team_name VARCHAR(100) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(name, team_name)
+);
+
+-- Opponent batting from the opponent's innings
+CREATE TABLE IF NOT EXISTS opponent_batting_performances (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  match_id UUID NOT NULL REFERENCES matches(id) ON DELETE CASCADE,
+  opponent_player_id UUID NOT NULL REFERENCES opponent_players(id) ON DELETE CASCADE,
+  runs INTEGER NOT NULL DEFAULT 0,
+  balls INTEGER NOT NULL DEFAULT 0,
+  fours INTEGER NOT NULL DEFAULT 0,
+  sixes INTEGER NOT NULL DEFAULT 0,
+  not_out BOOLEAN NOT NULL DEFAULT FALSE,
+  dismissal_text VARCHAR(200),
+  dismissal_kind VARCHAR(30),
+  batting_position INTEGER NOT NULL DEFAULT 0,
+  innings_number INTEGER NOT NULL DEFAULT 1, -- 1 = first innings of the match
+  is_super_over BOOLEAN NOT NULL DEFAULT FALSE, -- Kept out of the main averages
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(match_id, opponent_player_id, innings_number)
+);
+
+-- Opponent bowling from our innings
+CREATE TABLE IF NOT EXISTS opponent_bowling_performances (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  match_id UUID NOT NULL REFERENCES matches(id) ON DELETE CASCADE,
+  opponent_player_id UUID NOT NULL REFERENCES opponent_players(id) ON DELETE CASCADE,
+  overs DECIMAL(4, 1) NOT NULL DEFAULT 0,
+  balls INTEGER NOT NULL DEFAULT 0,
+  maidens INTEGER NOT NULL DEFAULT 0,
+  runs_conceded INTEGER NOT NULL DEFAULT 0,
+  wickets INTEGER NOT NULL DEFAULT 0,
+  dots INTEGER NOT NULL DEFAULT 0,
+  wides INTEGER NOT NULL DEFAULT 0,
+  no_balls INTEGER NOT NULL DEFAULT 0,
+  economy DECIMAL(5, 2) NOT NULL DEFAULT 0,
+  innings_number INTEGER NOT NULL DEFAULT 1, -- 1 = first innings of the match
+  is_super_over BOOLEAN NOT NULL DEFAULT FALSE, -- Kept out of the main averages
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(match_id, opponent_player_id, innings_number)
+);
+
+-- Indexes for scouting lookups
+CREATE INDEX IF NOT EXISTS idx_opponent_players_team_name ON opponent_players(team_name);
+CREATE INDEX IF NOT EXISTS idx_opponent_batting_match_id ON opponent_batting_performances(match_id);
+CREATE INDEX IF NOT EXISTS idx_opponent_batting_player_id ON opponent_batting_performances(opponent_player_id);
+CREATE INDEX IF NOT EXISTS idx_opponent_bowling_match_id ON opponent_bowling_performances(match_id);
+CREATE INDEX IF NOT EXISTS idx_opponent_bowling_player_id ON opponent_bowling_performances(opponent_player_id);
+
+-- Results of every match in a competition, including matches we did not play in
+CREATE TABLE IF NOT EXISTS competition_matches (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  competition_id UUID NOT NULL REFERENCES competitions(id) ON DELETE CASCADE,
+  match_id UUID REFERENCES matches(id) ON DELETE CASCADE, -- NULL when we did not play
+  stage_id UUID REFERENCES competition_stages(id) ON DELETE SET NULL,
+  date DATE NOT NULL,
+  team1 VARCHAR(100) NOT NULL, -- Batted first
+  team2 VARCHAR(100) NOT NULL,
+  team1_runs INTEGER NOT NULL DEFAULT 0,
+  team1_wickets INTEGER NOT NULL DEFAULT 0,
+  team1_balls INTEGER NOT NULL DEFAULT 0,
+  team2_runs INTEGER NOT NULL DEFAULT 0,
+  team2_wickets INTEGER NOT NULL DEFAULT 0,
+  team2_balls INTEGER NOT NULL DEFAULT 0,
+  overs_limit DECIMAL(4, 1),
+  revised_target INTEGER, -- DLS / reduced-overs target for team2
+  revised_overs DECIMAL(4, 1),
+  winner VARCHAR(100), -- NULL for ties and no results
+  outcome VARCHAR(20) NOT NULL DEFAULT 'decided', -- decided, tie, no_result
+  result_summary VARCHAR(200),
+  raw_html_hash VARCHAR(64) UNIQUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Indexes for points table lookups
+CREATE INDEX IF NOT EXISTS idx_competition_matches_competition_id ON competition_matches(competition_id);
+CREATE INDEX IF NOT EXISTS idx_competition_matches_match_id ON competition_matches(match_id);
+
+-- Names our club plays under, optionally per season or competition
+CREATE TABLE IF NOT EXISTS team_identities (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name VARCHAR(100) NOT NULL, -- UCLA, Bruins CC, UCLA B
+  season_id UUID REFERENCES seasons(id) ON DELETE CASCADE, -- All seasons when NULL
+  competition_name VARCHAR(200), -- All competitions when NULL
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Imports held back because our innings could not be identified
+CREATE TABLE IF NOT EXISTS import_reviews (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  status VARCHAR(20) NOT NULL DEFAULT 'pending', -- pending, imported, dismissed
+  reason TEXT NOT NULL,
+  teams TEXT[] NOT NULL DEFAULT '{}',
+  filenames TEXT[] NOT NULL DEFAULT '{}',
+  content_hashes TEXT[] NOT NULL DEFAULT '{}',
+  pages JSONB NOT NULL, -- The uploaded pages, so the import can be re-run
+  metadata JSONB,
+  match_id UUID REFERENCES matches(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  resolved_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Index for the pending review queue
+CREATE INDEX IF NOT EXISTS idx_import_reviews_status ON import_reviews(status);
+
+-- Scorecard names the player resolver could not match with confidence
+CREATE TABLE IF NOT EXISTS player_name_reviews (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  match_id UUID NOT NULL REFERENCES matches(id) ON DELETE CASCADE,
+  scorecard_name VARCHAR(100) NOT NULL,
+  player_id UUID REFERENCES players(id) ON DELETE SET NULL, -- Player the performances are stored under until resolved
+  reason VARCHAR(20) NOT NULL, -- ambiguous, unmatched
+  candidates JSONB NOT NULL DEFAULT '[]', -- Ranked suggestions: [{ playerId, playerName, matchedName, score }]
+  status VARCHAR(20) NOT NULL DEFAULT 'pending', -- pending, resolved
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  UNIQUE(match_id, scorecard_name)
+);
+
+-- Index for the pending name queue
+CREATE INDEX IF NOT EXISTS idx_player_name_reviews_status ON player_name_reviews(status);
+
+-- Upgrade existing databases (columns added after the tables above were first created)
+ALTER TABLE matches ADD COLUMN IF NOT EXISTS toss_winner VARCHAR(100);
+ALTER TABLE matches ADD COLUMN IF NOT EXISTS toss_decision VARCHAR(10);
+ALTER TABLE matches ADD COLUMN IF NOT EXISTS umpires TEXT[];
+ALTER TABLE matches ADD COLUMN IF NOT EXISTS scorers TEXT[];
+ALTER TABLE matches ADD COLUMN IF NOT EXISTS start_time TIME;
+ALTER TABLE matches ADD COLUMN IF NOT EXISTS player_of_match VARCHAR(100);
+ALTER TABLE matches ADD COLUMN IF NOT EXISTS winner VARCHAR(100);
+ALTER TABLE matches ADD COLUMN IF NOT EXISTS margin_runs INTEGER;
+ALTER TABLE matches ADD COLUMN IF NOT EXISTS margin_wickets INTEGER;
+ALTER TABLE matches ADD COLUMN IF NOT EXISTS margin_balls_left INTEGER;
+ALTER TABLE matches ADD COLUMN IF NOT EXISTS result_method VARCHAR(20) DEFAULT 'normal';
+ALTER TABLE matches ADD COLUMN IF NOT EXISTS revised_target INTEGER;
+ALTER TABLE matches ADD COLUMN IF NOT EXISTS revised_overs DECIMAL(4, 1);
+ALTER TABLE matches ADD COLUMN IF NOT EXISTS result_summary VARCHAR(200);
+ALTER TABLE matches ADD COLUMN IF NOT EXISTS competition_id UUID REFERENCES competitions(id) ON DELETE SET NULL;
+ALTER TABLE matches ADD COLUMN IF NOT EXISTS stage_id UUID REFERENCES competition_stages(id) ON DELETE SET NULL;
+ALTER TABLE competitions ADD COLUMN IF NOT EXISTS format VARCHAR(20) NOT NULL DEFAULT 'league';
+ALTER TABLE competition_matches ADD COLUMN IF NOT EXISTS stage_id UUID REFERENCES competition_stages(id) ON DELETE SET NULL;
+ALTER TABLE batting_performances ADD COLUMN IF NOT EXISTS dismissal_kind VARCHAR(30);
+ALTER TABLE batting_performances ADD COLUMN IF NOT EXISTS dismissal_bowler VARCHAR(100);
+ALTER TABLE batting_performances ADD COLUMN IF NOT EXISTS dismissal_fielder VARCHAR(100);
+-- Opponent bowler credited with the wicket (opponent_players is created after batting_performances)
+ALTER TABLE batting_performances ADD COLUMN IF NOT EXISTS dismissed_by_id UUID REFERENCES opponent_players(id) ON DELETE SET NULL;
+ALTER TABLE innings ADD COLUMN IF NOT EXISTS is_super_over BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- One team name per season and competition. A UNIQUE constraint treats NULLs (all seasons,
+-- all competitions) as distinct, so duplicates are removed and an expression index used instead
+ALTER TABLE team_identities DROP CONSTRAINT IF EXISTS team_identities_name_season_id_competition_name_key;
+DELETE FROM team_identities a USING team_identities b
+WHERE a.id > b.id
+  AND LOWER(a.name) = LOWER(b.name)
+  AND a.season_id IS NOT DISTINCT FROM b.season_id
+  AND a.competition_name IS NOT DISTINCT FROM b.competition_name;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_team_identities_unique ON team_identities(
+  LOWER(name),
+  COALESCE(season_id, '00000000-0000-0000-0000-000000000000'::UUID),
+  COALESCE(competition_name, '')
+);
+
+-- Performances are kept per innings for two-innings matches and super overs
+ALTER TABLE batting_performances ADD COLUMN IF NOT EXISTS innings_number INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE batting_performances ADD COLUMN IF NOT EXISTS is_super_over BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE batting_performances DROP CONSTRAINT IF EXISTS batting_performances_match_id_player_id_key;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_batting_performances_innings ON batting_performances(match_id, player_id, innings_number);
+ALTER TABLE bowling_performances ADD COLUMN IF NOT EXISTS innings_number INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE bowling_performances ADD COLUMN IF NOT EXISTS is_super_over BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE bowling_performances DROP CONSTRAINT IF EXISTS bowling_performances_match_id_player_id_key;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_bowling_performances_innings ON bowling_performances(match_id, player_id, innings_number);
+ALTER TABLE fielding_performances ADD COLUMN IF NOT EXISTS innings_number INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE fielding_performances ADD COLUMN IF NOT EXISTS is_super_over BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE fielding_performances DROP CONSTRAINT IF EXISTS fielding_performances_match_id_player_id_key;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_fielding_performances_innings ON fielding_performances(match_id, player_id, innings_number);
+ALTER TABLE opponent_batting_performances ADD COLUMN IF NOT EXISTS innings_number INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE opponent_batting_performances ADD COLUMN IF NOT EXISTS is_super_over BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE opponent_batting_performances DROP CONSTRAINT IF EXISTS opponent_batting_performances_match_id_opponent_player_id_key;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_opponent_batting_performances_innings ON opponent_batting_performances(match_id, opponent_player_id, innings_number);
+ALTER TABLE opponent_bowling_performances ADD COLUMN IF NOT EXISTS innings_number INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE opponent_bowling_performances ADD COLUMN IF NOT EXISTS is_super_over BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE opponent_bowling_performances DROP CONSTRAINT IF EXISTS opponent_bowling_performances_match_id_opponent_player_id_key;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_opponent_bowling_performances_innings ON opponent_bowling_performances(match_id, opponent_player_id, innings_number);
+
+-- Backfill innings for matches imported before the innings table
+-- Batting order and balls faced were not stored, so our innings is listed first with no balls
+INSERT INTO innings (match_id, innings_number, batting_team, is_our_innings, total, wickets,
+  extras_total, extras_wides, extras_no_balls, extras_byes, extras_leg_byes)
+SELECT id, 1, COALESCE(our_team_name, 'UCLA'), TRUE,
+  split_part(our_score, '/', 1)::INTEGER, COALESCE(NULLIF(split_part(our_score, '/', 2), '')::INTEGER, 10),
+  COALESCE(our_extras_total, 0), COALESCE(our_extras_wides, 0), COALESCE(our_extras_no_balls, 0),
+  COALESCE(our_extras_byes, 0), COALESCE(our_extras_leg_byes, 0)
+FROM matches
+WHERE our_score ~ '^\d+(/\d+)?$'
+  AND NOT EXISTS (SELECT 1 FROM innings WHERE innings.match_id = matches.id)
+ON CONFLICT (match_id, innings_number) DO NOTHING;
+
+INSERT INTO innings (match_id, innings_number, batting_team, is_our_innings, total, wickets)
+SELECT id, 2, opponent, FALSE,
+  split_part(opponent_score, '/', 1)::INTEGER, COALESCE(NULLIF(split_part(opponent_score, '/', 2), '')::INTEGER, 10)
+FROM matches
+WHERE opponent_score ~ '^\d+(/\d+)?$'
+  AND NOT EXISTS (SELECT 1 FROM innings WHERE innings.match_id = matches.id AND NOT innings.is_our_innings)
+ON CONFLICT (match_id, innings_number) DO NOTHING;
+
+-- Backfill innings numbers on performances imported before they were stored
+-- Those matches all had two innings: our batting and their bowling come from our innings
+UPDATE batting_performances p SET innings_number = i.innings_number
+FROM innings i
+WHERE i.match_id = p.match_id AND i.is_our_innings
+  AND (SELECT COUNT(*) FROM innings n WHERE n.match_id = p.match_id) = 2;
+UPDATE bowling_performances p SET innings_number = i.innings_number
+FROM innings i
+WHERE i.match_id = p.match_id AND NOT i.is_our_innings
+  AND (SELECT COUNT(*) FROM innings n WHERE n.match_id = p.match_id) = 2;
+UPDATE fielding_performances p SET innings_number = i.innings_number
+FROM innings i
+WHERE i.match_id = p.match_id AND NOT i.is_our_innings
+  AND (SELECT COUNT(*) FROM innings n WHERE n.match_id = p.match_id) = 2;
+UPDATE opponent_batting_performances p SET innings_number = i.innings_number
+FROM innings i
+WHERE i.match_id = p.match_id AND NOT i.is_our_innings
+  AND (SELECT COUNT(*) FROM innings n WHERE n.match_id = p.match_id) = 2;
+UPDATE opponent_bowling_performances p SET innings_number = i.innings_number
+FROM innings i
+WHERE i.match_id = p.match_id AND i.is_our_innings
+  AND (SELECT COUNT(*) FROM innings n WHERE n.match_id = p.match_id) = 2;
+
+-- Create competitions from the free-text competition names already imported
+INSERT INTO competitions (name, season_id)
+SELECT DISTINCT competition_name, season_id
+FROM matches
+WHERE competition_name IS NOT NULL AND competition_name <> ''
+ON CONFLICT (name, season_id) DO NOTHING;
+
+UPDATE matches SET competition_id = competitions.id
+FROM competitions
+WHERE matches.competition_id IS NULL
+  AND competitions.name = matches.competition_name
+  AND competitions.season_id = matches.season_id;
+
+INSERT INTO competition_matches (competition_id, match_id, date, team1, team2,
+  team1_runs, team1_wickets, team1_balls, team2_runs, team2_wickets, team2_balls,
+  overs_limit, revised_target, revised_overs, winner, outcome, result_summary, raw_html_hash)
+SELECT m.competition_id, m.id, m.date, first.batting_team, COALESCE(second.batting_team, m.opponent),
+  first.total, first.wickets, first.balls,
+  COALESCE(second.total, 0), COALESCE(second.wickets, 0), COALESCE(second.balls, 0),
+  first.overs_limit, m.revised_target, m.revised_overs,
+  COALESCE(m.winner, CASE m.result WHEN 'win' THEN COALESCE(m.our_team_name, 'UCLA') WHEN 'loss' THEN m.opponent END),
+  CASE m.result WHEN 'tie' THEN 'tie' WHEN 'no_result' THEN 'no_result' ELSE 'decided' END,
+  m.result_summary, m.raw_html_hash
+FROM matches m
+JOIN innings first ON first.match_id = m.id AND first.innings_number = 1
+LEFT JOIN innings second ON second.match_id = m.id AND second.innings_number = 2
+WHERE m.competition_id IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM competition_matches cm WHERE cm.match_id = m.id)
+ON CONFLICT (raw_html_hash) DO NOTHING;
+
+-- Split chosen performances and aliases off one player onto another in a single transaction
+-- Creates the player when p_target_id is NULL; any failure (such as the target already
+-- having a performance in the same innings) rolls the whole split back
+CREATE OR REPLACE FUNCTION split_player(
+  p_source_id UUID,
+  p_target_id UUID,
+  p_new_player_name TEXT,
+  p_batting_ids UUID[],
+  p_bowling_ids UUID[],
+  p_fielding_ids UUID[],
+  p_alias_ids UUID[]
+) RETURNS UUID AS $$
+DECLARE
+  v_target_id UUID := p_target_id;
+  v_match_ids UUID[];
+BEGIN
+  IF v_target_id IS NULL THEN
+    INSERT INTO players (name) VALUES (p_new_player_name) RETURNING id INTO v_target_id;
+  END IF;
+
+  IF v_target_id = p_source_id THEN
+    RAISE EXCEPTION 'Choose a different player to move to';
+  END IF;
+
+  SELECT ARRAY(
+    SELECT match_id FROM batting_performances WHERE id = ANY(p_batting_ids) AND player_id = p_source_id
+    UNION SELECT match_id FROM bowling_performances WHERE id = ANY(p_bowling_ids) AND player_id = p_source_id
+    UNION SELECT match_id FROM fielding_performances WHERE id = ANY(p_fielding_ids) AND player_id = p_source_id
+  ) INTO v_match_ids;
+
+  -- Partnerships follow the batting innings they were built from
+  UPDATE partnerships p SET batter1_id = v_target_id
+  FROM batting_performances b
+  WHERE b.id = ANY(p_batting_ids) AND b.player_id = p_source_id
+    AND p.match_id = b.match_id AND p.innings_number = b.innings_number AND p.batter1_id = p_source_id;
+  UPDATE partnerships p SET batter2_id = v_target_id
+  FROM batting_performances b
+  WHERE b.id = ANY(p_batting_ids) AND b.player_id = p_source_id
+    AND p.match_id = b.match_id AND p.innings_number = b.innings_number AND p.batter2_id = p_source_id;
+
+  UPDATE batting_performances SET player_id = v_target_id WHERE id = ANY(p_batting_ids) AND player_id = p_source_id;
+  UPDATE bowling_performances SET player_id = v_target_id WHERE id = ANY(p_bowling_ids) AND player_id = p_source_id;
+  UPDATE fielding_performances SET player_id = v_target_id WHERE id = ANY(p_fielding_ids) AND player_id = p_source_id;
+  UPDATE player_aliases SET player_id = v_target_id WHERE id = ANY(p_alias_ids) AND player_id = p_source_id;
+
+  -- The target played in every match a performance moved from
+  INSERT INTO match_appearances (match_id, player_id, batted)
+  SELECT m, v_target_id, EXISTS (SELECT 1 FROM batting_performances b WHERE b.match_id = m AND b.player_id = v_target_id)
+  FROM unnest(v_match_ids) AS m
+  ON CONFLICT (match_id, player_id) DO UPDATE SET batted = EXCLUDED.batted OR match_appearances.batted;
+
+  -- The source stays in a match's XI only while they still have a performance in it
+  DELETE FROM match_appearances a
+  WHERE a.player_id = p_source_id AND a.match_id = ANY(v_match_ids)
+    AND NOT EXISTS (SELECT 1 FROM batting_performances b WHERE b.match_id = a.match_id AND b.player_id = p_source_id)
+    AND NOT EXISTS (SELECT 1 FROM bowling_performances b WHERE b.match_id = a.match_id AND b.player_id = p_source_id)
+    AND NOT EXISTS (SELECT 1 FROM fielding_performances f WHERE f.match_id = a.match_id AND f.player_id = p_source_id);
+  UPDATE match_appearances a
+  SET batted = EXISTS (SELECT 1 FROM batting_performances b WHERE b.match_id = a.match_id AND b.player_id = p_source_id)
+  WHERE a.player_id = p_source_id AND a.match_id = ANY(v_match_ids);
+
+  -- Roles and overrides move with the matches the source no longer played in
+  UPDATE match_roles r SET player_id = v_target_id
+  WHERE r.player_id = p_source_id AND r.match_id = ANY(v_match_ids)
+    AND NOT EXISTS (SELECT 1 FROM match_appearances a WHERE a.match_id = r.match_id AND a.player_id = p_source_id)
+    AND NOT EXISTS (SELECT 1 FROM match_roles t WHERE t.match_id = r.match_id AND t.player_id = v_target_id AND t.role = r.role);
+  DELETE FROM match_roles r
+  WHERE r.player_id = p_source_id AND r.match_id = ANY(v_match_ids)
+    AND NOT EXISTS (SELECT 1 FROM match_appearances a WHERE a.match_id = r.match_id AND a.player_id = p_source_id);
+  UPDATE match_player_overrides o SET actual_player_id = v_target_id
+  WHERE o.actual_player_id = p_source_id AND o.match_id = ANY(v_match_ids)
+    AND NOT EXISTS (SELECT 1 FROM match_appearances a WHERE a.match_id = o.match_id AND a.player_id = p_source_id);
+
+  RETURN v_target_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Merge a duplicate player into another in a single transaction
+-- Innings both players have a row in are settled by p_keep_source / p_keep_target, which list
+-- conflict keys ('batting:<match id>:<innings number>'); a conflict in neither list makes the
+-- move fail and rolls the whole merge back. The source's name is kept as an alias
+CREATE OR REPLACE FUNCTION merge_players(
+  p_source_id UUID,
+  p_target_id UUID,
+  p_keep_source TEXT[],
+  p_keep_target TEXT[]
+) RETURNS VOID AS $$
+BEGIN
+  IF p_source_id = p_target_id THEN
+    RAISE EXCEPTION 'Choose a different player to merge into';
+  END IF;
+
+  -- Drop the row not kept in each conflicting innings
+  DELETE FROM batting_performances d USING batting_performances o
+  WHERE d.match_id = o.match_id AND d.innings_number = o.innings_number
+    AND ((d.player_id = p_target_id AND o.player_id = p_source_id
+          AND 'batting:' || d.match_id || ':' || d.innings_number = ANY(p_keep_source))
+      OR (d.player_id = p_source_id AND o.player_id = p_target_id
+          AND 'batting:' || d.match_id || ':' || d.innings_number = ANY(p_keep_target)));
+  DELETE FROM bowling_performances d USING bowling_performances o
+  WHERE d.match_id = o.match_id AND d.innings_number = o.innings_number
+    AND ((d.player_id = p_target_id AND o.player_id = p_source_id
+          AND 'bowling:' || d.match_id || ':' || d.innings_number = ANY(p_keep_source))
+      OR (d.player_id = p_source_id AND o.player_id = p_target_id
+          AND 'bowling:' || d.match_id || ':' || d.innings_number = ANY(p_keep_target)));
+  DELETE FROM fielding_performances d USING fielding_performances o
+  WHERE d.match_id = o.match_id AND d.innings_number = o.innings_number
+    AND ((d.player_id = p_target_id AND o.player_id = p_source_id
+          AND 'fielding:' || d.match_id || ':' || d.innings_number = ANY(p_keep_source))
+      OR (d.player_id = p_source_id AND o.player_id = p_target_id
+          AND 'fielding:' || d.match_id || ':' || d.innings_number = ANY(p_keep_target)));
+
+  UPDATE batting_performances SET player_id = p_target_id WHERE player_id = p_source_id;
+  UPDATE bowling_performances SET player_id = p_target_id WHERE player_id = p_source_id;
+  UPDATE fielding_performances SET player_id = p_target_id WHERE player_id = p_source_id;
+  UPDATE partnerships SET batter1_id = p_target_id WHERE batter1_id = p_source_id;
+  UPDATE partnerships SET batter2_id = p_target_id WHERE batter2_id = p_source_id;
+
+  -- Appearances and roles the target already has in a match are kept once
+  INSERT INTO match_appearances (match_id, player_id, batted)
+  SELECT match_id, p_target_id, batted FROM match_appearances WHERE player_id = p_source_id
+  ON CONFLICT (match_id, player_id) DO UPDATE SET batted = EXCLUDED.batted OR match_appearances.batted;
+  INSERT INTO match_roles (match_id, player_id, role, byes_conceded)
+  SELECT match_id, p_target_id, role, byes_conceded FROM match_roles WHERE player_id = p_source_id
+  ON CONFLICT (match_id, player_id, role) DO NOTHING;
+
+  UPDATE match_player_overrides SET actual_player_id = p_target_id WHERE actual_player_id = p_source_id;
+  UPDATE player_aliases SET player_id = p_target_id WHERE player_id = p_source_id;
+  UPDATE player_name_reviews SET player_id = p_target_id WHERE player_id = p_source_id;
+
+  INSERT INTO player_aliases (player_id, alias)
+  SELECT p_target_id, name FROM players WHERE id = p_source_id
+  ON CONFLICT (alias) DO NOTHING;
+
+  -- The source's own appearances, roles and season stats go with it
+  DELETE FROM players WHERE id = p_source_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Apply a confirmed roster in a single transaction: create its new players, add its new
+-- aliases (by player id, or by name for players created here) and update year and major
+CREATE OR REPLACE FUNCTION apply_roster(
+  p_new_players JSONB,
+  p_new_aliases JSONB,
+  p_updated_players JSONB
+) RETURNS VOID AS $$
+BEGIN
+  INSERT INTO players (name, year, major)
+  SELECT p->>'name', p->>'year', p->>'major'
+  FROM jsonb_array_elements(p_new_players) AS p;
+
+  INSERT INTO player_aliases (player_id, alias)
+  SELECT COALESCE((a->>'playerId')::UUID, (SELECT id FROM players WHERE LOWER(name) = LOWER(a->>'playerName'))),
+    a->>'alias'
+  FROM jsonb_array_elements(p_new_aliases) AS a;
+
+  UPDATE players SET year = u->>'year', major = u->>'major'
+  FROM jsonb_array_elements(p_updated_players) AS u
+  WHERE players.id = (u->>'playerId')::UUID;
+END;
+$$ LANGUAGE plpgsql;
+
 -- Insert default seasons
 INSERT INTO seasons (name, start_date, end_date) VALUES
   ('2024-2025', '2024-09-01', '2025-06-30'),
   ('2025-2026', '2025-09-01', '2026-06-30')
 ON CONFLICT (name) DO NOTHING;
 
+-- Register UCLA as our default team name
+INSERT INTO team_identities (name)
+SELECT 'UCLA'
+WHERE NOT EXISTS (SELECT 1 FROM team_identities);
+
 -- Enable Row Level Security (optional, for future auth)
 -- ALTER TABLE players ENABLE ROW LEVEL SECURITY;
 -- ALTER TABLE matches ENABLE ROW LEVEL SECURITY;
@@ -12,6 +12,18 @@ export function formatScore(runs: number, balls: number, notOut: boolean): strin
   return `${runs}(${balls})${notOut ? '*' : ''}`
 }
 
+/**
+ * Format an innings total for display (e.g., "156/7" or "156/7 (19.4)")
+ */
+export function formatInningsScore(
+  innings: { total: number; wickets: number; balls?: number } | null | undefined,
+  showOvers: boolean = false
+): string {
+  if (!innings) return '-'
+  const score = `${innings.total}/${innings.wickets}`
+  return showOvers && innings.balls ? `${score} (${ballsToOvers(innings.balls)})` : score
+}
+
 /**
  * Format a number with proper decimal places
  */
@@ -20,6 +32,21 @@ export function formatStat(value: number, decimals: number = 2): string {
   return value.toFixed(decimals)
 }
 
+/**
+ * Convert legal balls to cricket overs notation (26 balls = 4.2 overs)
+ */
+export function ballsToOvers(balls: number): number {
+  return Math.floor(balls / 6) + (balls % 6) / 10
+}
+
+/**
+ * Convert cricket overs notation to legal balls (4.2 overs = 26 balls)
+ */
+export function oversToBalls(overs: number): number {
+  const [completed, partial] = String(overs).split('.')
+  return (parseInt(completed) || 0) * 6 + (parseInt(partial) || 0)
+}
+
 /**
  * Calculate percentage safely
  */
@@ -0,0 +1,3 @@
+// The Supabase client is created on import; tests never reach the network
+process.env.NEXT_PUBLIC_SUPABASE_URL ||= 'http://localhost:54321'
+process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY ||= 'test-anon-key'
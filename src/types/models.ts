@@ -11,13 +11,19 @@ export interface Season {
 export interface Player {
   id: string
   name: string // Canonical name
-  photo_url?: string
-  contact_info?: Record<string, unknown>
+  photo_url?: string // "/uploads/players/<file>" for uploaded photos
+  contact_info?: PlayerContactInfo
   year?: string
   major?: string
   created_at: string
 }
 
+export interface PlayerContactInfo {
+  email?: string
+  phone?: string
+  instagram?: string
+}
+
 export interface PlayerAlias {
   id: string
   player_id: string
@@ -33,9 +39,19 @@ export interface Match {
   venue?: string
   match_type: 'league' | 'playoff' | 'friendly' | 'tournament'
   competition_name?: string
+  competition_id?: string
+  stage_id?: string
   result: 'win' | 'loss' | 'tie' | 'no_result'
+  winner?: string // Winning team name, empty for ties and no results
+  margin_runs?: number // Won by N runs (team batting first)
+  margin_wickets?: number // Won by N wickets (chasing team)
+  margin_balls_left?: number
+  result_method?: ResultMethod
+  revised_target?: number // DLS / reduced-overs target for the chase
+  revised_overs?: number
+  result_summary?: string // "UCLA won by 4 wickets (11 balls left)"
   our_team_name?: string // The team name UCLA played under
-  our_score?: string
+  our_score?: string // Superseded by the innings table
   opponent_score?: string
   our_extras_wides?: number
   our_extras_no_balls?: number
@@ -46,11 +62,125 @@ export interface Match {
   weather?: string
   pitch_type?: string
   importance?: number // 1-5 scale
+  toss_winner?: string // Team name as shown on the Info page
+  toss_decision?: 'bat' | 'bowl'
+  umpires?: string[]
+  scorers?: string[]
+  start_time?: string // "14:30:00"
+  player_of_match?: string
   notes?: string
   raw_html_hash?: string
   created_at: string
 }
 
+// A league or tournament, per season
+export interface Competition {
+  id: string
+  name: string
+  season_id?: string
+  points_win: number
+  points_tie: number
+  points_no_result: number
+  format: 'league' | 'tournament' // Tournaments have group and knockout stages
+  created_at: string
+}
+
+// Stage of a tournament a match belongs to
+export type StageType = 'group' | 'quarter_final' | 'semi_final' | 'final'
+
+export interface CompetitionStage {
+  id: string
+  competition_id: string
+  name: string // "Group A", "Semi Final"
+  stage_type: StageType
+  created_at: string
+}
+
+// Result of any match in a competition, whether or not we played in it
+export interface CompetitionMatch {
+  id: string
+  competition_id: string
+  match_id?: string // Our match, when we played
+  stage_id?: string
+  date: string
+  team1: string // Batted first
+  team2: string
+  team1_runs: number
+  team1_wickets: number
+  team1_balls: number
+  team2_runs: number
+  team2_wickets: number
+  team2_balls: number
+  overs_limit?: number
+  revised_target?: number // DLS / reduced-overs target for team2
+  revised_overs?: number
+  winner?: string
+  outcome: 'decided' | 'tie' | 'no_result'
+  result_summary?: string
+  raw_html_hash?: string
+  created_at: string
+}
+
+// One innings of a match, for either side
+export interface Innings {
+  id: string
+  match_id: string
+  innings_number: number // 1 = first innings of the match
+  batting_team: string
+  is_our_innings: boolean
+  is_super_over: boolean
+  total: number
+  wickets: number
+  balls: number // Legal balls faced
+  overs_limit?: number // Overs available, after any reduction
+  extras_total: number
+  extras_wides: number
+  extras_no_balls: number
+  extras_byes: number
+  extras_leg_byes: number
+  created_at: string
+}
+
+// A name our club plays under, optionally limited to a season or competition
+export interface TeamIdentity {
+  id: string
+  name: string // "UCLA", "Bruins CC", "UCLA B"
+  season_id?: string // All seasons when empty
+  competition_name?: string // All competitions when empty
+  created_at: string
+}
+
+// Import held back because our side of the scorecard could not be identified
+export interface ImportReview {
+  id: string
+  status: 'pending' | 'imported' | 'dismissed'
+  reason: string
+  teams: string[]
+  filenames: string[]
+  content_hashes: string[]
+  pages: { html: string; filename?: string }[]
+  metadata?: ImportMetadata
+  match_id?: string // Set once imported
+  created_at: string
+  resolved_at?: string
+}
+
+// Scorecard name the player resolver could not match with confidence
+export interface PlayerNameReview {
+  id: string
+  match_id: string
+  scorecard_name: string
+  player_id?: string // Player the performances are stored under until resolved
+  reason: 'ambiguous' | 'unmatched'
+  candidates: PlayerCandidate[]
+  status: 'pending' | 'resolved'
+  created_at: string
+  resolved_at?: string
+}
+
+// How a result was reached
+export type ResultMethod = 'normal' | 'dls' | 'super_over'
+
 export interface ImportHistory {
   id: string
   match_id: string
@@ -70,7 +200,13 @@ export interface BattingPerformance {
   not_out: boolean
   bowled_lbw: boolean
   dismissal_text?: string // "c Naman S b Tanmay D"
+  dismissal_kind?: DismissalKind
+  dismissal_bowler?: string // Name as shown in the scorecard
+  dismissal_fielder?: string // Catcher, keeper or run-out fielder
+  dismissed_by_id?: string // Opponent player credited with the wicket
   batting_position: number
+  innings_number: number // 1 = first innings of the match
+  is_super_over: boolean // Kept out of the main averages
   created_at: string
 }
 
@@ -118,6 +254,8 @@ export interface BowlingPerformance {
   wides: number
   no_balls: number
   economy: number
+  innings_number: number // 1 = first innings of the match
+  is_super_over: boolean // Kept out of the main averages
   created_at: string
 }
 
@@ -150,6 +288,128 @@ export interface FieldingPerformance {
   catches: number
   run_outs: number
   stumpings: number
+  innings_number: number // 1 = first innings of the match
+  is_super_over: boolean // Kept out of the main averages
+  created_at: string
+}
+
+// Ball-by-ball delivery
+export interface Delivery {
+  id: string
+  match_id: string
+  innings_number: number // 1 = first innings of the match
+  batting_team: string
+  sequence: number // order within the innings, starting at 1
+  over_number: number // completed overs before this ball (0-based)
+  ball_number: number // ball within the over as shown by CricClubs
+  bowler_name: string
+  batter_name: string
+  runs: number // runs off the bat
+  extras: number
+  extras_type?: ExtrasType
+  is_wicket: boolean
+  player_out?: string
+  commentary?: string
+  created_at: string
+}
+
+// Runs and wickets for one over
+export interface OverSummary {
+  id: string
+  match_id: string
+  innings_number: number // 1 = first innings of the match
+  batting_team: string
+  over_number: number // 1-based, as shown by CricClubs
+  runs: number
+  wickets: number
+  total_runs: number // score at the end of the over
+  total_wickets: number
+  created_at: string
+}
+
+// Partnership for one wicket of an innings
+export interface Partnership {
+  id: string
+  match_id: string
+  innings_number: number // 1 = first innings of the match
+  batting_team: string
+  is_our_innings: boolean
+  wicket_number: number // 1 = opening partnership
+  runs: number
+  batter1_name: string
+  batter2_name: string
+  batter1_id?: string // Set for our innings only
+  batter2_id?: string
+  start_score: number
+  end_score: number
+  end_over?: number
+  unbroken: boolean
+  created_at: string
+}
+
+// Captain or wicket keeper for one match, from the scorecard markers
+export type MatchRole = 'captain' | 'wicket_keeper'
+
+export interface MatchRoleAssignment {
+  id: string
+  match_id: string
+  player_id: string
+  role: MatchRole
+  byes_conceded?: number // Wicket keepers only: byes in the innings they kept
+  created_at: string
+}
+
+// A player in the playing XI for a match, whether or not they batted
+export interface MatchAppearance {
+  id: string
+  match_id: string
+  player_id: string
+  batted: boolean
+  created_at: string
+}
+
+// Player from an opposing team, kept apart from our roster
+export interface OpponentPlayer {
+  id: string
+  name: string // As shown in the scorecard
+  team_name: string
+  created_at: string
+}
+
+// Opponent batting performance (from the opponent's innings)
+export interface OpponentBattingPerformance {
+  id: string
+  match_id: string
+  opponent_player_id: string
+  runs: number
+  balls: number
+  fours: number
+  sixes: number
+  not_out: boolean
+  dismissal_text?: string
+  dismissal_kind?: DismissalKind
+  batting_position: number
+  innings_number: number // 1 = first innings of the match
+  is_super_over: boolean // Kept out of the main averages
+  created_at: string
+}
+
+// Opponent bowling performance (from our innings)
+export interface OpponentBowlingPerformance {
+  id: string
+  match_id: string
+  opponent_player_id: string
+  overs: number
+  balls: number
+  maidens: number
+  runs_conceded: number
+  wickets: number
+  dots: number
+  wides: number
+  no_balls: number
+  economy: number
+  innings_number: number // 1 = first innings of the match
+  is_super_over: boolean // Kept out of the main averages
   created_at: string
 }
 
@@ -168,6 +428,28 @@ export interface FieldingSeasonStats {
 }
 
 // Parsed data from HTML
+export type DismissalKind =
+  | 'bowled'
+  | 'caught'
+  | 'caught_and_bowled'
+  | 'lbw'
+  | 'stumped'
+  | 'run_out'
+  | 'hit_wicket'
+  | 'retired_hurt'
+  | 'retired_out'
+  | 'obstructing_the_field'
+  | 'timed_out'
+  | 'not_out'
+  | 'unknown'
+
+export interface ParsedDismissal {
+  kind: DismissalKind
+  bowlerName?: string
+  fielderName?: string
+  isSubstitute?: boolean // Fielder came on as a substitute
+}
+
 export interface ParsedBattingEntry {
   playerName: string
   runs: number
@@ -176,8 +458,18 @@ export interface ParsedBattingEntry {
   sixes: number
   notOut: boolean
   dismissalText: string
+  dismissal: ParsedDismissal
   battingPosition: number
   isBowledOrLBW: boolean
+  isCaptain: boolean // Marked * on the scorecard
+  isWicketKeeper: boolean // Marked †
+}
+
+// Named on the "Did not bat" / "Yet to bat" line
+export interface ParsedDidNotBatEntry {
+  playerName: string
+  isCaptain: boolean
+  isWicketKeeper: boolean
 }
 
 export interface ParsedBowlingEntry {
@@ -191,6 +483,8 @@ export interface ParsedBowlingEntry {
   wides: number
   noBalls: number
   economy: number
+  isCaptain: boolean
+  isWicketKeeper: boolean
 }
 
 export interface ParsedFieldingEntry {
@@ -198,8 +492,48 @@ export interface ParsedFieldingEntry {
   catches: number
   runOuts: number
   stumpings: number
+  isSubstitute?: boolean // Every dismissal credited to them was as a substitute
+}
+
+export type ExtrasType = 'wide' | 'no_ball' | 'bye' | 'leg_bye'
+
+export interface ParsedDelivery {
+  over: number // completed overs before this ball (0-based)
+  ball: number // ball within the over as shown by CricClubs
+  bowlerName: string
+  batterName: string
+  runs: number // runs off the bat
+  extras: number
+  extrasType?: ExtrasType
+  isWicket: boolean
+  playerOut?: string
+  commentary: string
+}
+
+export interface ParsedFallOfWicket {
+  wicket: number // 1 = first wicket
+  score: number // team score when the wicket fell
+  over?: number // e.g. 12.3
+  batterName: string
+}
+
+export interface ParsedOverSummary {
+  over: number // 1-based, as shown by CricClubs
+  runs: number
+  wickets: number
+  totalRuns: number // score at the end of the over
+  totalWickets: number
 }
 
+// CricClubs match page tabs, detected from the saved URL
+export type CricClubsPageType =
+  | 'Full Scorecard'
+  | 'Info'
+  | 'Ball by Ball'
+  | 'Over by Over Score'
+  | 'Charts'
+  | 'Unknown'
+
 export interface ExtrasBreakdown {
   total: number
   wides: number
@@ -208,15 +542,35 @@ export interface ExtrasBreakdown {
   legByes: number
 }
 
+export interface ParsedToss {
+  winner: string
+  decision: 'bat' | 'bowl'
+}
+
+export interface ParsedStage {
+  type: StageType
+  name: string // "Group A", "Semi Final"
+}
+
 export interface ParsedMatchData {
+  source?: CricClubsPageType // Page the data was parsed from
   date: string
   teams: [string, string]
   venue?: string
   competition?: string
   matchType?: string
+  stage?: ParsedStage // Group or knockout round, from the match label
   result?: string
+  resultText?: string // "UCLA won by 4 wickets", as shown on the scorecard
+  oversLimit?: number // Overs per side, when the page says
+  toss?: ParsedToss
+  umpires?: string[]
+  scorers?: string[]
+  startTime?: string // "14:30"
+  playerOfMatch?: string
   innings: {
     team: string
+    isSuperOver?: boolean // A super over played to break a tie
     battingEntries: ParsedBattingEntry[]
     bowlingEntries: ParsedBowlingEntry[]
     fieldingEntries: ParsedFieldingEntry[]
@@ -225,9 +579,121 @@ export interface ParsedMatchData {
     overs: number
     extras: number
     extrasBreakdown?: ExtrasBreakdown
+    deliveries?: ParsedDelivery[] // Only present when parsed from Ball by Ball
+    overSummaries?: ParsedOverSummary[] // Only present when parsed from Over by Over Score
+    fallOfWickets?: ParsedFallOfWicket[]
+    didNotBat?: ParsedDidNotBatEntry[]
   }[]
 }
 
+// Details entered on the upload page for a match
+export interface ImportMetadata {
+  filename?: string
+  venue?: string
+  matchType?: string
+  competitionName?: string
+  ourTeamName?: string // Overrides the registered team names for this import
+  notes?: string
+}
+
+// How a scorecard name was matched to a player
+export type PlayerMatchMethod = 'override' | 'alias' | 'exact' | 'fuzzy' | 'new'
+
+// A roster player a scorecard name might be, best first
+export interface PlayerCandidate {
+  playerId: string
+  playerName: string
+  matchedName: string // The player's name or alias the score came from
+  score: number // 0-1
+}
+
+export interface PlayerMatch {
+  playerId: string
+  playerName: string
+  method: Exclude<PlayerMatchMethod, 'new'>
+  confidence: number // 0-1; fuzzy matches are below 1
+}
+
+// A name on a scorecard and the player an import would store it as
+export interface PlayerResolution {
+  scorecardName: string
+  roles: ('batting' | 'did_not_bat' | 'bowling' | 'fielding')[]
+  playerId?: string // Missing when a new player would be created
+  playerName: string
+  method: PlayerMatchMethod
+  confidence: number
+  candidates?: PlayerCandidate[] // Ranked suggestions when no player was matched
+  ambiguous?: boolean // Two or more players matched too closely to pick one
+}
+
+// An innings both players being merged have a performance in
+export interface PlayerMergeConflict {
+  key: string // "batting:<match id>:<innings number>"
+  type: 'batting' | 'bowling' | 'fielding'
+  matchId: string
+  matchLabel: string // "vs USC, 2025-01-12"
+  inningsNumber: number
+  source: string // The source player's figures, e.g. "34 (28)"
+  target: string
+}
+
+// Which player's row survives a merge conflict
+export type PlayerMergeChoice = 'source' | 'target'
+
+// Player picked for a scorecard name on the upload page; null creates a new player
+// Names left out are matched automatically, and queued for review without a confident match
+export type PlayerMappings = Record<string, string | null>
+
+// A player row of an uploaded roster file
+export interface RosterEntry {
+  row: number // Spreadsheet row, for messages
+  name: string // Canonical name
+  aliases: string[]
+  year?: string
+  major?: string
+}
+
+// A roster name that already belongs to a different player, skipped when the roster is applied
+export interface RosterCollision {
+  row: number
+  name: string
+  rosterPlayer: string // Player the roster gives the name to
+  existingPlayer: string // Player that already has it, or "row N" of the same file
+  kind: 'player_name' | 'alias'
+}
+
+// What applying a roster would change
+export interface RosterDiff {
+  newPlayers: RosterEntry[]
+  newAliases: { playerId?: string; playerName: string; alias: string }[] // No playerId for new players
+  updatedPlayers: { playerId: string; playerName: string; year: string | null; major: string | null }[]
+  collisions: RosterCollision[]
+  unchanged: number // Existing players the roster adds nothing to
+}
+
+// A parsed scorecard number that does not add up
+export interface ScorecardWarning {
+  check: 'batting_total' | 'bowling_total' | 'wickets'
+  inningsNumber: number
+  team: string
+  expected: number // The innings total or wickets shown on the scorecard
+  actual: number // What the batting or bowling rows add up to
+  message: string
+}
+
+// A field on which two pages saved for the same match disagree
+export interface MergeConflict {
+  field: string // "venue", "innings[2].total"
+  chosen: { source: CricClubsPageType; value: string }
+  discarded: { source: CricClubsPageType; value: string }[]
+}
+
+export interface MergedMatchData {
+  data: ParsedMatchData
+  sources: CricClubsPageType[]
+  conflicts: MergeConflict[]
+}
+
 // API Response types
 export interface PlayerWithStats extends Player {
   battingStats?: PlayerSeasonStats
@@ -278,6 +744,109 @@ export interface CalculatedBowlingStats {
   dotPercentage: number
 }
 
+export interface CalculatedPartnership {
+  wicket: number // 1 = opening partnership
+  runs: number
+  batter1Name: string
+  batter2Name: string
+  startScore: number
+  endScore: number
+  endOver?: number
+  unbroken: boolean
+}
+
+export interface CalculatedCaptaincyRecord {
+  playerId: string
+  playerName: string
+  matches: number
+  wins: number
+  losses: number
+  ties: number
+  noResults: number
+  winPercentage: number
+}
+
+export interface CalculatedKeepingStats {
+  playerId: string
+  playerName: string
+  matches: number
+  catches: number
+  stumpings: number
+  byesConceded: number
+  byesPerMatch: number
+}
+
+// A player's figures in super overs, kept apart from their main averages
+export interface CalculatedSuperOverRecord {
+  playerId: string
+  playerName: string
+  superOvers: number // Matches with a super over they batted or bowled in
+  runs: number
+  ballsFaced: number
+  dismissals: number
+  ballsBowled: number
+  runsConceded: number
+  wickets: number
+}
+
+export interface CalculatedOpponentBatting {
+  opponentPlayerId: string
+  playerName: string
+  innings: number
+  runs: number
+  balls: number
+  highScore: number
+  average: number
+  strikeRate: number
+}
+
+export interface CalculatedOpponentBowling {
+  opponentPlayerId: string
+  playerName: string
+  matches: number
+  balls: number
+  runs: number
+  wickets: number
+  economy: number
+}
+
+// Opponent bowler who has dismissed our batters
+export interface CalculatedNemesis {
+  opponentPlayerId: string
+  playerName: string
+  teamName: string
+  wickets: number
+  victims: string[] // Our batters dismissed, most often first
+}
+
+// One row of a competition points table
+export interface CalculatedStanding {
+  team: string
+  played: number
+  won: number
+  lost: number
+  tied: number
+  noResult: number
+  points: number
+  runsFor: number
+  ballsFaced: number
+  runsAgainst: number
+  ballsBowled: number
+  netRunRate: number
+}
+
+export interface CalculatedMatchResult {
+  result: Match['result'] // From our side
+  winner?: string
+  marginRuns?: number
+  marginWickets?: number
+  marginBallsLeft?: number
+  method: ResultMethod
+  revisedTarget?: number
+  revisedOvers?: number
+  summary: string
+}
+
 export interface CalculatedFieldingStats {
   matchesPlayed: number
   totalCatches: number